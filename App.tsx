@@ -1,21 +1,60 @@
 import React, { useEffect } from "react";
-import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
+import {
+	BrowserRouter,
+	StaticRouter,
+	Routes,
+	Route,
+	useLocation,
+} from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
 import Home from "./pages/Home";
 import IdeaDetail from "./pages/IdeaDetail";
+import IdeaPrint from "./pages/IdeaPrint";
+import SeriesDetail from "./pages/SeriesDetail";
 import Header from "./components/Header";
 import Footer from "./components/Footer";
 import { UIProvider } from "./context/UIContext";
 import ContactModal from "./components/ContactModal";
 import GameOfLife from "./components/GameOfLife";
 import { USER_CONFIG } from "./config";
+import { ROUTER_BASENAME } from "./utils/site";
+
+// How long to wait for a hash target that is rendered after lazy content loads
+const HASH_TARGET_TIMEOUT = 5000;
 
 const ScrollToTop = () => {
-	const { pathname } = useLocation();
+	const { pathname, hash } = useLocation();
 
 	React.useEffect(() => {
-		window.scrollTo(0, 0);
-	}, [pathname]);
+		if (!hash) {
+			window.scrollTo(0, 0);
+			return;
+		}
+
+		const id = decodeURIComponent(hash.slice(1));
+		const scrollToTarget = () => {
+			const target = document.getElementById(id);
+			target?.scrollIntoView();
+			return Boolean(target);
+		};
+
+		if (scrollToTarget()) return;
+
+		// Article bodies load asynchronously, so wait for the heading to appear
+		const observer = new MutationObserver(() => {
+			if (scrollToTarget()) observer.disconnect();
+		});
+		observer.observe(document.body, { childList: true, subtree: true });
+		const timeout = window.setTimeout(
+			() => observer.disconnect(),
+			HASH_TARGET_TIMEOUT,
+		);
+
+		return () => {
+			observer.disconnect();
+			window.clearTimeout(timeout);
+		};
+	}, [pathname, hash]);
 
 	return null;
 };
@@ -27,14 +66,21 @@ const BackgroundLayer = () => {
 	if (!isHome) return null;
 
 	return (
-		<div className="fixed inset-0 z-[-1] pointer-events-none">
+		<div className="fixed inset-0 z-[-1] pointer-events-none print:hidden">
 			<GameOfLife />
 			<div className="absolute inset-0 bg-zinc-950/60 bg-[radial-gradient(circle_at_center,transparent_0%,#09090b_100%)]" />
 		</div>
 	);
 };
 
-const App: React.FC = () => {
+interface AppProps {
+	// Site path (including the base path) of the page being pre-rendered at
+	// build time (scripts/prerender.tsx)
+	location?: string;
+	helmetContext?: object;
+}
+
+const App: React.FC<AppProps> = ({ location, helmetContext }) => {
 	useEffect(() => {
 		// Geeky Console Easter Egg
 		console.log(
@@ -50,25 +96,46 @@ const App: React.FC = () => {
 		);
 	}, []);
 
+	const site = (
+		<>
+			<BackgroundLayer />
+			{/* Removed bg-zinc-950 to allow background components to show through */}
+			<div className="flex flex-col min-h-screen text-zinc-100 selection:bg-indigo-500/30 relative">
+				<Header />
+				<main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 max-w-7xl relative z-10">
+					<Routes>
+						<Route path="/" element={<Home />} />
+						<Route path="/idea/:id" element={<IdeaDetail />} />
+						<Route path="/series/:id" element={<SeriesDetail />} />
+					</Routes>
+				</main>
+				<Footer />
+				<ContactModal />
+			</div>
+		</>
+	);
+
+	// The print view stands alone, without the site's header and footer
+	const page = (
+		<>
+			<ScrollToTop />
+			<Routes>
+				<Route path="/idea/:id/print" element={<IdeaPrint />} />
+				<Route path="*" element={site} />
+			</Routes>
+		</>
+	);
+
 	return (
-		<HelmetProvider>
+		<HelmetProvider context={helmetContext}>
 			<UIProvider>
-				<BrowserRouter>
-					<ScrollToTop />
-					<BackgroundLayer />
-					{/* Removed bg-zinc-950 to allow background components to show through */}
-					<div className="flex flex-col min-h-screen text-zinc-100 selection:bg-indigo-500/30 relative">
-						<Header />
-						<main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12 max-w-7xl relative z-10">
-							<Routes>
-								<Route path="/" element={<Home />} />
-								<Route path="/idea/:id" element={<IdeaDetail />} />
-							</Routes>
-						</main>
-						<Footer />
-						<ContactModal />
-					</div>
-				</BrowserRouter>
+				{location === undefined ? (
+					<BrowserRouter basename={ROUTER_BASENAME}>{page}</BrowserRouter>
+				) : (
+					<StaticRouter basename={ROUTER_BASENAME} location={location}>
+						{page}
+					</StaticRouter>
+				)}
 			</UIProvider>
 		</HelmetProvider>
 	);
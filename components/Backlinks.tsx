@@ -0,0 +1,48 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { CornerDownRight } from "lucide-react";
+import { Backlink } from "../types";
+
+interface BacklinksProps {
+	backlinks: Backlink[];
+}
+
+const Backlinks: React.FC<BacklinksProps> = ({ backlinks }) => {
+	if (backlinks.length === 0) return null;
+
+	return (
+		<section
+			aria-label="Referenced by"
+			className="not-prose mt-16 pt-8 border-t border-zinc-800"
+		>
+			<h3 className="font-mono text-xs uppercase text-zinc-500 mb-6 tracking-widest flex items-center gap-2">
+				<CornerDownRight className="w-3.5 h-3.5" />
+				Referenced by ({backlinks.length})
+			</h3>
+			<ul className="space-y-4">
+				{backlinks.map((backlink) => (
+					<li key={backlink.id}>
+						<Link
+							to={`/idea/${backlink.id}`}
+							className="group block border border-zinc-800 bg-zinc-900/20 p-4 hover:border-indigo-500/40 transition-colors"
+						>
+							<span className="block font-space font-bold text-zinc-200 group-hover:text-indigo-300 transition-colors mb-2">
+								{backlink.title}
+							</span>
+							{backlink.snippets.map((snippet, index) => (
+								<p
+									key={index}
+									className="text-sm text-zinc-500 leading-relaxed border-l border-zinc-800 pl-3 mt-2"
+								>
+									{snippet}
+								</p>
+							))}
+						</Link>
+					</li>
+				))}
+			</ul>
+		</section>
+	);
+};
+
+export default Backlinks;
@@ -0,0 +1,141 @@
+import React from "react";
+import {
+	Bug,
+	Check,
+	ChevronRight,
+	CircleCheck,
+	CircleQuestionMark,
+	ClipboardList,
+	Flame,
+	Info,
+	List,
+	LucideIcon,
+	Pencil,
+	Quote,
+	TriangleAlert,
+	X,
+	Zap,
+} from "lucide-react";
+
+// Callouts from utils/callouts.ts, drawn like LabCard: tech corners, a mono
+// header strip and the body below it
+
+interface CalloutStyle {
+	icon: LucideIcon;
+	accent: string; // Icon color
+	border: string;
+}
+
+const STYLES: Record<string, CalloutStyle> = {
+	note: {
+		icon: Pencil,
+		accent: "text-indigo-400",
+		border: "border-indigo-500/40",
+	},
+	abstract: {
+		icon: ClipboardList,
+		accent: "text-cyan-400",
+		border: "border-cyan-500/40",
+	},
+	info: { icon: Info, accent: "text-sky-400", border: "border-sky-500/40" },
+	todo: {
+		icon: CircleCheck,
+		accent: "text-sky-400",
+		border: "border-sky-500/40",
+	},
+	tip: {
+		icon: Flame,
+		accent: "text-emerald-400",
+		border: "border-emerald-500/40",
+	},
+	success: {
+		icon: Check,
+		accent: "text-green-400",
+		border: "border-green-500/40",
+	},
+	question: {
+		icon: CircleQuestionMark,
+		accent: "text-amber-300",
+		border: "border-amber-400/40",
+	},
+	warning: {
+		icon: TriangleAlert,
+		accent: "text-amber-400",
+		border: "border-amber-500/40",
+	},
+	failure: { icon: X, accent: "text-red-400", border: "border-red-500/40" },
+	danger: { icon: Zap, accent: "text-red-500", border: "border-red-500/50" },
+	bug: { icon: Bug, accent: "text-red-400", border: "border-red-500/40" },
+	example: {
+		icon: List,
+		accent: "text-violet-400",
+		border: "border-violet-500/40",
+	},
+	quote: { icon: Quote, accent: "text-zinc-400", border: "border-zinc-700" },
+};
+
+const styleOf = (type: string) => STYLES[type] ?? STYLES.note;
+
+interface CalloutProps {
+	type: string;
+	collapsible?: boolean; // Rendered as <details>, `open` when expanded
+	open?: boolean;
+	children?: React.ReactNode;
+}
+
+export const Callout: React.FC<CalloutProps> = ({
+	type,
+	collapsible,
+	open,
+	children,
+}) => {
+	const className = `group/callout not-italic relative my-10 px-5 bg-zinc-950 border ${styleOf(type).border} [&>*:last-child]:mb-0`;
+	const corners = (
+		<>
+			<div className="absolute -top-[1px] -left-[1px] w-2 h-2 border-t border-l border-zinc-500" />
+			<div className="absolute -top-[1px] -right-[1px] w-2 h-2 border-t border-r border-zinc-500" />
+			<div className="absolute -bottom-[1px] -left-[1px] w-2 h-2 border-b border-l border-zinc-500" />
+			<div className="absolute -bottom-[1px] -right-[1px] w-2 h-2 border-b border-r border-zinc-500" />
+		</>
+	);
+
+	return collapsible ? (
+		<details open={open} className={`${className} open:pb-5`}>
+			{corners}
+			{children}
+		</details>
+	) : (
+		<aside className={`${className} pb-5`}>
+			{corners}
+			{children}
+		</aside>
+	);
+};
+
+export const CalloutTitle: React.FC<Omit<CalloutProps, "open">> = ({
+	type,
+	collapsible,
+	children,
+}) => {
+	const { icon: Icon, accent } = styleOf(type);
+	const className =
+		"-mx-5 flex items-center gap-2 px-4 py-2 border-zinc-800 bg-zinc-900/50 font-mono text-xs uppercase tracking-widest text-zinc-300";
+	const content = (
+		<>
+			<Icon className={`w-3.5 h-3.5 shrink-0 ${accent}`} />
+			<span>{children}</span>
+		</>
+	);
+
+	// Closed callouts show only the strip
+	return collapsible ? (
+		<summary
+			className={`${className} group-open/callout:mb-5 group-open/callout:border-b cursor-pointer select-none list-none [&::-webkit-details-marker]:hidden hover:text-white transition-colors`}
+		>
+			{content}
+			<ChevronRight className="ml-auto w-3.5 h-3.5 text-zinc-500 transition-transform group-open/callout:rotate-90" />
+		</summary>
+	) : (
+		<div className={`${className} mb-5 border-b`}>{content}</div>
+	);
+};
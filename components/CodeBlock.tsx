@@ -0,0 +1,217 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { Check, ChevronDown, Copy } from "lucide-react";
+import {
+	CODE_STYLE,
+	CodeWindow,
+	LINE_NUMBER_STYLE,
+	WindowButton,
+} from "./CodeWindow";
+import { CodeMeta, CodeTab } from "../utils/codeBlocks";
+
+// A display-only code block, with the fence options from utils/codeBlocks.ts
+
+// Blocks longer than this open collapsed unless they say `nocollapse`
+const AUTO_COLLAPSE_AFTER = 40;
+const AUTO_COLLAPSE_LINES = 20;
+
+// Height of one line: CODE_STYLE's 0.875rem font at 1.6 line height
+const LINE_HEIGHT_REM = 1.4;
+
+// Line backgrounds, with a bar in the gutter
+const LINE_STYLES = {
+	highlight: { background: "rgba(99, 102, 241, 0.12)", bar: "#6366f1" },
+	added: { background: "rgba(34, 197, 94, 0.1)", bar: "#22c55e" },
+	removed: { background: "rgba(239, 68, 68, 0.1)", bar: "#ef4444" },
+};
+
+type LineKind = keyof typeof LINE_STYLES;
+
+// Which tab of a group is showing, shared by the group's blocks
+interface CodeTabsState {
+	tabs: CodeTab[];
+	selected: number;
+	select: (index: number) => void;
+}
+
+const CodeTabsContext = createContext<CodeTabsState | null>(null);
+
+export const CodeTabs: React.FC<{
+	tabs: CodeTab[];
+	children?: React.ReactNode;
+}> = ({ tabs, children }) => {
+	const [selected, select] = useState(0);
+
+	// Links to a block in a hidden tab open that tab
+	const ids = tabs.map((tab) => tab.id).join(" ");
+	useEffect(() => {
+		const open = () => {
+			const index = ids.split(" ").indexOf(window.location.hash.slice(1));
+			if (index !== -1) select(index);
+		};
+		open();
+		window.addEventListener("hashchange", open);
+		return () => window.removeEventListener("hashchange", open);
+	}, [ids]);
+
+	return (
+		<CodeTabsContext.Provider value={{ tabs, selected, select }}>
+			{children}
+		</CodeTabsContext.Provider>
+	);
+};
+
+const TabList = ({ tabs, selected, select }: CodeTabsState) => (
+	<div role="tablist" className="flex gap-1 overflow-x-auto">
+		{tabs.map((tab, index) => (
+			<button
+				key={tab.id}
+				role="tab"
+				aria-selected={index === selected}
+				aria-controls={tab.id}
+				onClick={() => select(index)}
+				className={`px-2.5 py-1 rounded font-mono text-xs whitespace-nowrap transition-colors ${
+					index === selected
+						? "bg-white/10 text-zinc-100"
+						: "text-zinc-500 hover:text-zinc-300"
+				}`}
+			>
+				{tab.label}
+			</button>
+		))}
+	</div>
+);
+
+// `+` and `-` mark added and removed lines of a diff
+const diffKind = (line: string): LineKind | undefined =>
+	line.startsWith("+") ? "added" : line.startsWith("-") ? "removed" : undefined;
+
+interface CodeBlockProps {
+	code: string;
+	language: string;
+	meta: CodeMeta;
+	number?: string; // e.g. "Listing 2"
+	id?: string;
+	tab?: number; // Position in its tab group
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({
+	code,
+	language,
+	meta,
+	number,
+	id,
+	tab,
+}) => {
+	const group = useContext(CodeTabsContext);
+	const [copied, setCopied] = useState(false);
+	const lines = code.split("\n");
+	const visibleLines =
+		meta.collapse ??
+		(lines.length > AUTO_COLLAPSE_AFTER && !meta.noCollapse
+			? AUTO_COLLAPSE_LINES
+			: undefined);
+	const collapsible = visibleLines !== undefined && lines.length > visibleLines;
+	const [collapsed, setCollapsed] = useState(collapsible);
+
+	// A diff copies as the code it ends up as
+	const copyText = meta.diff
+		? lines
+				.filter((line) => diffKind(line) !== "removed")
+				.map((line) => (diffKind(line) ? line.slice(1) : line))
+				.join("\n")
+		: code;
+
+	const handleCopy = () => {
+		navigator.clipboard.writeText(copyText);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
+
+	const lineKind = (number: number): LineKind | undefined =>
+		(meta.diff ? diffKind(lines[number - 1] ?? "") : undefined) ??
+		(meta.highlight.has(number) ? "highlight" : undefined);
+
+	const lineProps = (number: number) => {
+		const kind = lineKind(number);
+		const style: React.CSSProperties = {
+			display: "block",
+			padding: "0 1.5rem",
+		};
+		return {
+			style: kind
+				? {
+						...style,
+						background: LINE_STYLES[kind].background,
+						boxShadow: `inset 3px 0 0 ${LINE_STYLES[kind].bar}`,
+					}
+				: style,
+			"data-line": kind,
+		};
+	};
+
+	const inGroup = group && tab !== undefined;
+
+	return (
+		<CodeWindow
+			id={id}
+			label={language}
+			fileName={meta.title}
+			number={number}
+			tabs={inGroup ? <TabList {...group} /> : undefined}
+			hidden={inGroup ? tab !== group.selected : undefined}
+			role={inGroup ? "tabpanel" : undefined}
+			actions={
+				<WindowButton onClick={handleCopy} title="Copy Code">
+					{copied ? (
+						<Check className="w-3.5 h-3.5 text-green-500" />
+					) : (
+						<Copy className="w-3.5 h-3.5" />
+					)}
+				</WindowButton>
+			}
+		>
+			<div
+				className="relative overflow-hidden print:!max-h-none"
+				style={
+					collapsed
+						? {
+								maxHeight: `calc(${visibleLines! * LINE_HEIGHT_REM}rem + 1.5rem)`,
+							}
+						: undefined
+				}
+			>
+				{/* Code Content */}
+				<SyntaxHighlighter
+					style={vscDarkPlus as any}
+					language={language}
+					PreTag="div"
+					customStyle={{ ...CODE_STYLE, padding: "1.5rem 0" }}
+					showLineNumbers={true}
+					lineNumberStyle={LINE_NUMBER_STYLE}
+					wrapLines={true}
+					lineProps={lineProps}
+				>
+					{code}
+				</SyntaxHighlighter>
+				{collapsed && (
+					<div className="absolute inset-x-0 bottom-0 h-16 bg-gradient-to-t from-[#0d0d0d] to-transparent pointer-events-none print:hidden" />
+				)}
+			</div>
+
+			{collapsible && (
+				<button
+					onClick={() => setCollapsed(!collapsed)}
+					aria-expanded={!collapsed}
+					className="w-full flex items-center justify-center gap-2 py-2 border-t border-zinc-800 bg-zinc-900/50 font-mono text-[10px] uppercase tracking-widest text-zinc-500 hover:text-white transition-colors print:hidden"
+				>
+					<ChevronDown
+						className={`w-3 h-3 transition-transform ${collapsed ? "" : "rotate-180"}`}
+					/>
+					{collapsed ? `Show all ${lines.length} lines` : "Collapse"}
+				</button>
+			)}
+		</CodeWindow>
+	);
+};
@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { Check, Copy, Loader2, Pencil, Play, RotateCcw } from "lucide-react";
+import {
+	CODE_STYLE,
+	CodeWindow,
+	LINE_NUMBER_STYLE,
+	WindowButton,
+} from "./CodeWindow";
+import {
+	ConsoleLine,
+	DEFAULT_TIMEOUT_MS,
+	ResultPreview,
+	RunLanguage,
+	RunResult,
+	runCode,
+} from "../utils/runCode";
+import { CodeMeta } from "../utils/codeBlocks";
+
+// A code block readers can edit and run: ```js run``` or ```ts run```, with
+// `timeout=<ms>` to allow longer runs (see utils/codeBlocks.ts for the other
+// fence options). The code runs in utils/runCode.ts.
+
+const RUN_LANGUAGES: Record<string, RunLanguage> = {
+	js: "js",
+	javascript: "js",
+	ts: "ts",
+	typescript: "ts",
+};
+
+// Keeps a chatty loop from flooding the page
+const MAX_CONSOLE_LINES = 500;
+
+export interface RunOptions {
+	language: RunLanguage;
+	timeoutMs: number;
+}
+
+// How to run a fence, or undefined when it is display-only
+export const runOptions = (
+	language: string,
+	meta: CodeMeta,
+): RunOptions | undefined =>
+	RUN_LANGUAGES[language] && meta.run
+		? {
+				language: RUN_LANGUAGES[language],
+				timeoutMs: meta.timeout ?? DEFAULT_TIMEOUT_MS,
+			}
+		: undefined;
+
+const LEVEL_CLASS: Record<ConsoleLine["level"], string> = {
+	log: "text-zinc-300",
+	info: "text-sky-300",
+	warn: "text-amber-300",
+	error: "text-red-400",
+	debug: "text-zinc-500",
+};
+
+const Truncated = ({ count, noun }: { count: number; noun: string }) =>
+	count > 0 ? (
+		<div className="mt-2 text-zinc-500">
+			… {count} more {noun}
+		</div>
+	) : null;
+
+// Bars for short series, a line for long ones
+const ResultChart = ({ values }: { values: number[] }) => {
+	const min = Math.min(0, ...values);
+	const max = Math.max(0, ...values);
+	const range = max - min || 1;
+	const y = (value: number) => 100 - ((value - min) / range) * 100;
+	const bars = values.length <= 64;
+	const width = bars ? values.length * 10 : values.length - 1 || 1;
+
+	return (
+		<div className="flex gap-3">
+			<div className="flex flex-col justify-between text-right text-zinc-500 text-[10px]">
+				<span>{max}</span>
+				<span>{min}</span>
+			</div>
+			<svg
+				viewBox={`0 0 ${width} 100`}
+				preserveAspectRatio="none"
+				className="h-32 flex-1 border-l border-b border-zinc-800"
+				role="img"
+				aria-label={`Chart of ${values.length} values`}
+			>
+				{bars ? (
+					values.map((value, i) => (
+						<rect
+							key={i}
+							x={i * 10 + 1.5}
+							width={7}
+							y={Math.min(y(value), y(0))}
+							height={Math.abs(y(value) - y(0))}
+							className="fill-indigo-500/70"
+						>
+							<title>{`[${i}] ${value}`}</title>
+						</rect>
+					))
+				) : (
+					<polyline
+						points={values.map((value, i) => `${i},${y(value)}`).join(" ")}
+						fill="none"
+						vectorEffect="non-scaling-stroke"
+						className="stroke-indigo-400"
+						strokeWidth={1.5}
+					/>
+				)}
+			</svg>
+		</div>
+	);
+};
+
+const ResultView = ({ result }: { result: ResultPreview }) => {
+	switch (result.kind) {
+		case "chart":
+			return (
+				<>
+					<ResultChart values={result.values} />
+					<Truncated count={result.truncated} noun="values" />
+				</>
+			);
+		case "table":
+			return (
+				<>
+					<div className="overflow-x-auto max-h-80 border border-zinc-800 rounded">
+						<table className="w-full text-left border-collapse">
+							<thead className="bg-zinc-900/80 sticky top-0">
+								<tr>
+									<th className="px-3 py-1.5 text-zinc-600 font-normal">#</th>
+									{result.columns.map((column) => (
+										<th key={column} className="px-3 py-1.5 text-zinc-300">
+											{column}
+										</th>
+									))}
+								</tr>
+							</thead>
+							<tbody>
+								{result.rows.map((row, i) => (
+									<tr key={i} className="border-t border-zinc-800/60">
+										<td className="px-3 py-1 text-zinc-600">{i}</td>
+										{row.map((value, j) => (
+											<td key={j} className="px-3 py-1 text-zinc-300">
+												{value}
+											</td>
+										))}
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+					<Truncated count={result.truncated} noun="rows" />
+				</>
+			);
+		case "text":
+			return (
+				<pre className="whitespace-pre-wrap break-words text-indigo-300">
+					{result.text}
+				</pre>
+			);
+	}
+};
+
+interface CodeCellProps extends RunOptions {
+	code: string;
+	label: string; // Language as written on the fence
+	number?: string; // e.g. "Listing 2"
+	id?: string;
+	fileName?: string;
+}
+
+export const CodeCell: React.FC<CodeCellProps> = ({
+	code,
+	label,
+	language,
+	timeoutMs,
+	number,
+	id,
+	fileName,
+}) => {
+	const [source, setSource] = useState(code);
+	const [editing, setEditing] = useState(false);
+	const [running, setRunning] = useState(false);
+	const [lines, setLines] = useState<ConsoleLine[]>([]);
+	const [run, setRun] = useState<RunResult | null>(null);
+	const [copied, setCopied] = useState(false);
+
+	const execute = async () => {
+		if (running) return;
+		setRunning(true);
+		setLines([]);
+		setRun(null);
+		const result = await runCode(source, {
+			language,
+			timeoutMs,
+			onConsole: (line) =>
+				setLines((prev) =>
+					prev.length < MAX_CONSOLE_LINES ? [...prev, line] : prev,
+				),
+		});
+		setRun(result);
+		setRunning(false);
+	};
+
+	const handleCopy = () => {
+		navigator.clipboard.writeText(source);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+		if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+			event.preventDefault();
+			execute();
+		}
+	};
+
+	const iconClass = "w-3.5 h-3.5";
+
+	return (
+		<CodeWindow
+			id={id}
+			label={`${label} · run`}
+			fileName={fileName}
+			number={number}
+			actions={
+				<>
+					{source !== code && (
+						<WindowButton
+							onClick={() => setSource(code)}
+							title="Reset to the original code"
+						>
+							<RotateCcw className={iconClass} />
+						</WindowButton>
+					)}
+					<WindowButton
+						onClick={() => setEditing(!editing)}
+						title={editing ? "Stop editing" : "Edit code"}
+						className={editing ? "text-indigo-400" : ""}
+					>
+						<Pencil className={iconClass} />
+					</WindowButton>
+					<WindowButton onClick={handleCopy} title="Copy Code">
+						{copied ? (
+							<Check className={`${iconClass} text-green-500`} />
+						) : (
+							<Copy className={iconClass} />
+						)}
+					</WindowButton>
+					<WindowButton
+						onClick={execute}
+						disabled={running}
+						title="Run (Ctrl+Enter while editing)"
+						className="text-emerald-400"
+					>
+						{running ? (
+							<Loader2 className={`${iconClass} animate-spin`} />
+						) : (
+							<Play className={iconClass} />
+						)}
+					</WindowButton>
+				</>
+			}
+		>
+			{editing ? (
+				<textarea
+					value={source}
+					onChange={(event) => setSource(event.target.value)}
+					onKeyDown={handleKeyDown}
+					rows={source.split("\n").length}
+					spellCheck={false}
+					autoFocus
+					aria-label="Code"
+					className="block w-full resize-y bg-transparent text-zinc-200 outline-none caret-indigo-400"
+					style={CODE_STYLE}
+				/>
+			) : (
+				<SyntaxHighlighter
+					style={vscDarkPlus as any}
+					language={language === "ts" ? "typescript" : "javascript"}
+					PreTag="div"
+					customStyle={CODE_STYLE}
+					showLineNumbers={true}
+					lineNumberStyle={LINE_NUMBER_STYLE}
+				>
+					{source}
+				</SyntaxHighlighter>
+			)}
+
+			{(running || run) && (
+				<div
+					className="border-t border-zinc-800 bg-black/40 px-6 py-4 font-mono text-xs space-y-3"
+					aria-live="polite"
+				>
+					{lines.length > 0 && (
+						<div className="space-y-0.5">
+							{lines.map((line, i) => (
+								<pre
+									key={i}
+									className={`whitespace-pre-wrap break-words ${LEVEL_CLASS[line.level]}`}
+								>
+									{line.text}
+								</pre>
+							))}
+							{lines.length === MAX_CONSOLE_LINES && (
+								<div className="text-zinc-500">… output truncated</div>
+							)}
+						</div>
+					)}
+					{run?.error && (
+						<pre className="whitespace-pre-wrap break-words text-red-400">
+							{run.error}
+						</pre>
+					)}
+					{run?.result && <ResultView result={run.result} />}
+					<div className="text-[10px] uppercase tracking-widest text-zinc-600">
+						{run ? `Finished in ${run.durationMs} ms` : "Running…"}
+					</div>
+				</div>
+			)}
+		</CodeWindow>
+	);
+};
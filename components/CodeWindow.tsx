@@ -0,0 +1,94 @@
+import React from "react";
+import { FileCode, Terminal } from "lucide-react";
+
+// The editor-window frame code blocks are drawn in: traffic lights, the
+// listing number with the file name or language in the middle of the title
+// bar (or tabs on the left) and actions on the right
+
+// Passed to react-syntax-highlighter
+export const CODE_STYLE: React.CSSProperties = {
+	margin: 0,
+	padding: "1.5rem",
+	background: "transparent",
+	fontSize: "0.875rem",
+	lineHeight: "1.6",
+	fontFamily: '"JetBrains Mono", monospace',
+};
+
+export const LINE_NUMBER_STYLE: React.CSSProperties = {
+	minWidth: "2.5em",
+	paddingRight: "1em",
+	color: "#52525b",
+	textAlign: "right",
+};
+
+interface CodeWindowProps extends React.HTMLAttributes<HTMLDivElement> {
+	label: string; // Language
+	fileName?: string;
+	number?: string; // e.g. "Listing 2", see utils/crossReferences.ts
+	tabs?: React.ReactNode; // Replaces the label
+	actions?: React.ReactNode;
+}
+
+export const CodeWindow: React.FC<CodeWindowProps> = ({
+	label,
+	fileName,
+	number,
+	tabs,
+	actions,
+	children,
+	className = "",
+	...props
+}) => (
+	<div
+		className={`rounded-xl overflow-hidden my-10 border border-zinc-800 shadow-2xl bg-[#0d0d0d] group relative scroll-mt-24 ${className}`}
+		{...props}
+	>
+		{/* Window Header */}
+		<div className="flex items-center justify-between gap-4 px-4 py-3 bg-zinc-900/80 border-b border-zinc-800 backdrop-blur-md">
+			<div className="flex items-center gap-4 min-w-0">
+				<div className="flex gap-2 shrink-0">
+					<div className="w-3 h-3 rounded-full bg-[#ff5f56] border border-[#e0443e]" />
+					<div className="w-3 h-3 rounded-full bg-[#ffbd2e] border border-[#dea123]" />
+					<div className="w-3 h-3 rounded-full bg-[#27c93f] border border-[#1aab29]" />
+				</div>
+				{tabs && number && (
+					<span className="shrink-0 text-xs text-zinc-500 font-mono font-medium">
+						{number}
+					</span>
+				)}
+				{tabs}
+			</div>
+			{!tabs && (
+				<div className="absolute left-1/2 -translate-x-1/2 flex items-center gap-2 text-xs text-zinc-500 font-mono font-medium opacity-60 group-hover:opacity-100 transition-opacity">
+					{number && <span className="text-zinc-300">{number} ·</span>}
+					{fileName ? (
+						<>
+							<FileCode className="w-3 h-3" />
+							{fileName}
+						</>
+					) : (
+						<>
+							<Terminal className="w-3 h-3" />
+							{label.toUpperCase()}
+						</>
+					)}
+				</div>
+			)}
+			<div className="flex items-center gap-1 shrink-0 print:hidden">
+				{actions}
+			</div>
+		</div>
+
+		{children}
+	</div>
+);
+
+export const WindowButton: React.FC<
+	React.ButtonHTMLAttributes<HTMLButtonElement>
+> = ({ className = "", ...props }) => (
+	<button
+		className={`text-zinc-500 hover:text-white transition-colors p-1.5 rounded hover:bg-white/10 disabled:opacity-40 disabled:pointer-events-none ${className}`}
+		{...props}
+	/>
+);
@@ -1,5 +1,7 @@
 import React from "react";
-import { Activity } from "lucide-react";
+import { Activity, Loader2 } from "lucide-react";
+import { useHydrated } from "../hooks/useHydrated";
+import { SimulationParamSpec, SimulationParams } from "../utils/simulations";
 import BrainMimeticSimulation from "./simulations/BrainMimeticSimulation";
 import DeepSeekMHCSimulation from "./simulations/DeepSeekMHCSimulation";
 import DeepSeekMoESimulation from "./simulations/DeepSeekMoESimulation";
@@ -16,9 +18,11 @@ import DigitalRedQueenSimulation from "./simulations/DigitalRedQueenSimulation";
 
 interface DemoViewProps {
 	simulationName?: string;
+	params?: SimulationParams; // Initial parameters, see SIMULATION_PARAMS
 }
 
-const REGISTRY: Record<string, React.FC> = {
+// Simulations take the props declared for them in SIMULATION_PARAMS
+export const REGISTRY = {
 	BrainMimetic: BrainMimeticSimulation,
 	DeepSeekMHC: DeepSeekMHCSimulation,
 	DeepSeekMoE: DeepSeekMoESimulation,
@@ -34,8 +38,57 @@ const REGISTRY: Record<string, React.FC> = {
 	DigitalRedQueen: DigitalRedQueenSimulation,
 };
 
-const DemoView: React.FC<DemoViewProps> = ({ simulationName }) => {
-	const Component = simulationName ? REGISTRY[simulationName] : null;
+export type SimulationName = keyof typeof REGISTRY;
+
+// The parameter type each prop calls for; props a fence cannot set are never
+type TypeOf<Value> = Value extends number
+	? "number"
+	: Value extends boolean
+		? "boolean"
+		: Value extends string
+			? "string"
+			: never;
+type ParamSpecOf<Props> = {
+	[Key in keyof Props]-?: TypeOf<NonNullable<Props[Key]>>;
+};
+
+// Initial parameters a simulation accepts from a `sim` fence in an article,
+// which must match the props of its component
+export const SIMULATION_PARAMS: {
+	[Name in SimulationName]?: ParamSpecOf<
+		React.ComponentProps<(typeof REGISTRY)[Name]>
+	>;
+} = {
+	DeepSeekMoE: { experts: "number", autoplay: "boolean" },
+};
+
+export const isSimulationName = (name: string): name is SimulationName =>
+	Object.hasOwn(REGISTRY, name);
+
+// The parameters a simulation declares; none for unknown simulations
+export const simulationParamSpec = (name: string): SimulationParamSpec =>
+	(isSimulationName(name) && SIMULATION_PARAMS[name]) || {};
+
+const DemoView: React.FC<DemoViewProps> = ({ simulationName, params }) => {
+	const hydrated = useHydrated();
+	// Fence parameters were checked against SIMULATION_PARAMS when resolved
+	const Component: React.FC<SimulationParams> | null =
+		simulationName && isSimulationName(simulationName)
+			? REGISTRY[simulationName]
+			: null;
+
+	// Simulations rely on timers, canvases and the window size, so static HTML
+	// only gets a placeholder
+	if (Component && !hydrated) {
+		return (
+			<div className="flex items-center justify-center h-96 border border-zinc-800 bg-zinc-900/50 rounded-xl">
+				<div className="text-center text-slate-500 font-mono">
+					<Loader2 className="w-12 h-12 mx-auto mb-4 opacity-20 animate-spin" />
+					<p>Loading interactive simulation...</p>
+				</div>
+			</div>
+		);
+	}
 
 	if (!Component) {
 		return (
@@ -48,7 +101,7 @@ const DemoView: React.FC<DemoViewProps> = ({ simulationName }) => {
 		);
 	}
 
-	return <Component />;
+	return <Component {...params} />;
 };
 
 export default DemoView;
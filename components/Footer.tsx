@@ -7,14 +7,15 @@ const Footer: React.FC = () => {
 	const { openContact } = useUI();
 
 	return (
-		<footer className="border-t border-zinc-800 bg-zinc-950 py-12 mt-12 relative z-50">
+		<footer className="border-t border-zinc-800 bg-zinc-950 py-12 mt-12 relative z-50 print:hidden">
 			<div className="container mx-auto px-4">
 				<div className="flex flex-col md:flex-row items-center justify-between gap-6">
 					<div className="text-center md:text-left">
 						<div className="font-bold text-white tracking-widest uppercase font-mono mb-2">
 							{USER_CONFIG.name}
 						</div>
-						<p className="text-zinc-500 text-sm mb-4">
+						{/* The year can differ from the one the page was pre-rendered in */}
+						<p className="text-zinc-500 text-sm mb-4" suppressHydrationWarning>
 							© {new Date().getFullYear()} {USER_CONFIG.lab}. All rights
 							reserved.
 						</p>
@@ -16,7 +16,7 @@ const Header: React.FC = () => {
 	const { openContact } = useUI();
 
 	return (
-		<header className="sticky top-0 z-50 w-full bg-zinc-950/90 backdrop-blur-sm border-b border-zinc-800">
+		<header className="sticky top-0 z-50 w-full bg-zinc-950/90 backdrop-blur-sm border-b border-zinc-800 print:hidden">
 			<div className="container mx-auto px-4 max-w-7xl h-14 flex items-center justify-between">
 				{/* Brand */}
 				<Link to="/" className="flex items-center gap-3 group">
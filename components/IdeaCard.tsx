@@ -12,6 +12,7 @@ interface IdeaCardProps {
 const IdeaCard: React.FC<IdeaCardProps> = ({ idea, variant = "standard" }) => {
 	const statusColor = {
 		CONCEPT: "text-blue-400 bg-blue-400/10 border-blue-400/20",
+		RESEARCH: "text-indigo-400 bg-indigo-400/10 border-indigo-400/20",
 		PROTOTYPE: "text-amber-400 bg-amber-400/10 border-amber-400/20",
 		ALPHA: "text-emerald-400 bg-emerald-400/10 border-emerald-400/20",
 		ARCHIVED: "text-zinc-500 bg-zinc-500/10 border-zinc-500/20",
@@ -29,6 +30,11 @@ const IdeaCard: React.FC<IdeaCardProps> = ({ idea, variant = "standard" }) => {
 						<div className="w-full md:w-5/12 aspect-video md:aspect-auto relative bg-zinc-950 border border-zinc-800 overflow-hidden group-hover:border-indigo-500/30 transition-colors">
 							<img
 								src={idea.coverImage}
+								width={idea.cover?.width}
+								height={idea.cover?.height}
+								srcSet={idea.cover?.srcSet}
+								sizes="(min-width: 768px) 40vw, 100vw"
+								loading="lazy"
 								alt={idea.title}
 								className="w-full h-full object-cover opacity-60 group-hover:opacity-100 transition-opacity duration-500 grayscale group-hover:grayscale-0"
 							/>
@@ -61,7 +67,10 @@ const IdeaCard: React.FC<IdeaCardProps> = ({ idea, variant = "standard" }) => {
 
 							<div className="grid grid-cols-2 gap-6 mb-6 bg-zinc-950/50 p-4 border border-zinc-800/50">
 								<DataReadout label="PROJECTED IMPACT" value={idea.impact} />
-								<DataReadout label="READ TIME" value={idea.readTime} />
+								<DataReadout
+									label="READ TIME"
+									value={`${idea.readTime} / ${idea.metrics.wordCount.toLocaleString("en-US")} words`}
+								/>
 							</div>
 
 							<div className="flex items-center gap-2 text-indigo-400 font-mono text-xs font-bold uppercase tracking-widest mt-auto">
@@ -116,7 +125,10 @@ const IdeaCard: React.FC<IdeaCardProps> = ({ idea, variant = "standard" }) => {
 						<span className="text-[9px] font-mono uppercase tracking-widest">
 							View Specs
 						</span>
-						<ArrowRight className="w-3 h-3" />
+						<span className="flex items-center gap-2 text-[9px] font-mono uppercase tracking-widest">
+							{idea.readTime} read
+							<ArrowRight className="w-3 h-3" />
+						</span>
 					</div>
 				</div>
 			</LabCard>
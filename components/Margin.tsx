@@ -0,0 +1,162 @@
+import React, {
+	createContext,
+	useCallback,
+	useContext,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import { createPortal } from "react-dom";
+
+// Tufte-style margin: sidenotes and margin figures move into a column beside
+// the article on wide screens, each level with the line it belongs to and
+// pushed down when it would overlap the one above. Without a MarginColumn on
+// the page (or before hydration) they stay in the text, as they do in print.
+
+// Space between margin items, in pixels
+const GAP = 16;
+
+interface MarginLayer {
+	column: HTMLElement | null;
+	setColumn: (column: HTMLElement | null) => void;
+	header: React.RefObject<HTMLDivElement | null>;
+	register: (item: HTMLElement, anchor: HTMLElement) => () => void;
+	count: number; // Items in the margin
+}
+
+const MarginContext = createContext<MarginLayer | null>(null);
+
+export const MarginProvider: React.FC<{ children?: React.ReactNode }> = ({
+	children,
+}) => {
+	const [column, setColumn] = useState<HTMLElement | null>(null);
+	const header = useRef<HTMLDivElement | null>(null);
+	const items = useRef(new Map<HTMLElement, HTMLElement>());
+	const [count, setCount] = useState(0);
+	const frame = useRef(0);
+
+	const layout = useCallback(() => {
+		if (!column) return;
+		const origin = column.getBoundingClientRect().top;
+		let floor = header.current?.offsetHeight
+			? header.current.offsetHeight + GAP * 2
+			: 0;
+
+		const entries = [...items.current].sort(([, a], [, b]) =>
+			a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+		);
+		for (const [item, anchor] of entries) {
+			const top = Math.max(anchor.getBoundingClientRect().top - origin, floor);
+			item.style.top = `${top}px`;
+			floor = top + item.offsetHeight + GAP;
+		}
+	}, [column]);
+
+	const schedule = useCallback(() => {
+		cancelAnimationFrame(frame.current);
+		frame.current = requestAnimationFrame(layout);
+	}, [layout]);
+
+	// The column is as tall as the article, so it resizes whenever the text
+	// reflows, images load or details open
+	const observer = useRef<ResizeObserver | null>(null);
+	useEffect(() => {
+		if (!column) return;
+		observer.current = new ResizeObserver(schedule);
+		observer.current.observe(column);
+		items.current.forEach((_, item) => observer.current!.observe(item));
+		return () => {
+			observer.current?.disconnect();
+			cancelAnimationFrame(frame.current);
+		};
+	}, [column, schedule]);
+
+	const register = useCallback(
+		(item: HTMLElement, anchor: HTMLElement) => {
+			items.current.set(item, anchor);
+			observer.current?.observe(item);
+			setCount(items.current.size);
+			schedule();
+			return () => {
+				items.current.delete(item);
+				observer.current?.unobserve(item);
+				setCount(items.current.size);
+				schedule();
+			};
+		},
+		[schedule],
+	);
+
+	return (
+		<MarginContext.Provider
+			value={{ column, setColumn, header, register, count }}
+		>
+			{children}
+		</MarginContext.Provider>
+	);
+};
+
+// The margin itself. `children` (the table of contents) stays at its top,
+// sticky while the margin is empty.
+export const MarginColumn: React.FC<{ children?: React.ReactNode }> = ({
+	children,
+}) => {
+	const margin = useContext(MarginContext);
+
+	return (
+		<div ref={margin?.setColumn} className="relative flex-1">
+			<div
+				ref={margin?.header}
+				className={margin?.count ? "" : "lg:sticky lg:top-20"}
+			>
+				{children}
+			</div>
+		</div>
+	);
+};
+
+interface MarginItemProps {
+	children?: React.ReactNode; // Shown in the margin
+	fallback: React.ReactNode; // Shown in the text
+	block?: boolean; // Whether the fallback is block content
+}
+
+// Places `children` in the margin beside where the item appears in the text.
+// The text keeps `fallback` for narrow screens.
+export const MarginItem: React.FC<MarginItemProps> = ({
+	children,
+	fallback,
+	block,
+}) => {
+	const margin = useContext(MarginContext);
+	const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+	const [item, setItem] = useState<HTMLElement | null>(null);
+	const register = margin?.register;
+
+	useEffect(() => {
+		if (register && anchor && item) return register(item, anchor);
+	}, [register, anchor, item]);
+
+	if (!margin?.column) return <>{fallback}</>;
+
+	const Wrapper = block ? "div" : "span";
+	return (
+		<>
+			<Wrapper ref={setAnchor} aria-hidden="true" />
+			<Wrapper
+				className={`lg:hidden ${block ? "print:!block" : "print:!inline"}`}
+			>
+				{fallback}
+			</Wrapper>
+			{createPortal(
+				<div
+					ref={setItem}
+					className="absolute inset-x-0 hidden lg:block print:!hidden"
+				>
+					{children}
+				</div>,
+				margin.column,
+			)}
+		</>
+	);
+};
@@ -1,77 +1,428 @@
-import React, { useEffect, useState, useId } from "react";
+import React, { useEffect, useMemo, useState, useId } from "react";
 import ReactMarkdown from "react-markdown";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { Terminal, Copy, Check } from "lucide-react";
-import mermaid from "mermaid";
+import { Link } from "react-router-dom";
+import { Activity, Copy, Check, Link2 } from "lucide-react";
 import remarkMath from "remark-math";
 import remarkGfm from "remark-gfm";
-import rehypeKatex from "rehype-katex";
+import remarkDirective from "remark-directive";
+import { remarkHeadingIds } from "../utils/headingIds";
+import { remarkPrerenderedMath } from "../utils/prerenderedMath";
+import { remarkCallouts } from "../utils/callouts";
+import { CodeTab, parseCodeMeta, remarkCodeBlocks } from "../utils/codeBlocks";
+import { remarkMarginFigures, remarkSidenotes } from "../utils/sidenotes";
+import { remarkNumbering } from "../utils/numbering";
+import { remarkLinkNotes } from "../utils/linkNotes";
+import {
+	parseSimulationEmbed,
+	remarkSimulations,
+	resolveSimulationParams,
+	SimulationParams,
+} from "../utils/simulations";
+import { referenceAnchor } from "../utils/citations";
+import { MERMAID_CONFIG } from "../utils/mermaid";
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+import { Callout, CalloutTitle } from "./Callout";
+import { CodeCell, runOptions } from "./CodeCell";
+import { CodeBlock, CodeTabs } from "./CodeBlock";
+import DemoView, { simulationParamSpec } from "./DemoView";
+import { MarginItem } from "./Margin";
 
 interface MarkdownRendererProps {
 	content: string;
+	references?: Reference[];
+	images?: Record<string, ImageAsset>;
+	diagrams?: Record<string, string>;
+	math?: RenderedMath[];
+	numbering?: NumberedBlock[];
+	// Print view: code expanded, tab groups and callouts open, simulations
+	// replaced by a summary and links numbered with their URLs at the end
+	print?: boolean;
 }
 
+const DIAGRAM_CLASS =
+	"my-10 flex justify-center bg-zinc-950/40 p-6 rounded-xl border border-zinc-800/50 overflow-x-auto shadow-inner";
+
+// Fences with the same source share one pre-rendered SVG, so each place it
+// shows gets ids of its own. Mermaid prefixes every id in the SVG, and the
+// selectors of its styles, with the id of the SVG element.
+const StaticDiagram = ({ svg }: { svg: string }) => {
+	const suffix = useId().replace(/[^\w-]/g, "");
+	const html = useMemo(() => {
+		const id = svg.match(/<svg[^>]*\sid="([^"]+)"/)?.[1];
+		return id ? svg.replaceAll(id, `${id}-${suffix}`) : svg;
+	}, [svg, suffix]);
+
+	return (
+		<div
+			data-diagram
+			className={DIAGRAM_CLASS}
+			dangerouslySetInnerHTML={{ __html: html }}
+		/>
+	);
+};
+
+// Production builds render diagrams to SVG (scripts/diagrams.ts) and fail when
+// they cannot; the dev server renders them in the browser, loading mermaid only
+// when needed. scripts/build.ts defines NODE_ENV, so the production bundle
+// leaves the client renderer and mermaid out.
+let mermaidLoader: Promise<typeof import("mermaid").default> | undefined;
+const loadMermaid = () =>
+	(mermaidLoader ??= import("mermaid").then(({ default: mermaid }) => {
+		mermaid.initialize(MERMAID_CONFIG);
+		return mermaid;
+	}));
+
 const MermaidDiagram = ({ chart }: { chart: string }) => {
 	const [svg, setSvg] = useState("");
+	const [failed, setFailed] = useState(false);
 	const id = useId().replace(/:/g, ""); // Ensure valid ID for DOM
 
 	useEffect(() => {
-		mermaid.initialize({
-			startOnLoad: false,
-			theme: "base",
-			securityLevel: "loose",
-			fontFamily: '"JetBrains Mono", monospace',
-			themeVariables: {
-				darkMode: true,
-				background: "#09090b",
-				primaryColor: "#18181b",
-				primaryTextColor: "#e4e4e7",
-				primaryBorderColor: "#3f3f46",
-				lineColor: "#6366f1",
-				secondaryColor: "#27272a",
-				tertiaryColor: "#18181b",
-				noteBkgColor: "#18181b",
-				noteTextColor: "#a1a1aa",
-			},
-		});
-
-		const renderChart = async () => {
-			try {
-				const { svg } = await mermaid.render(`mermaid-${id}`, chart);
-				setSvg(svg);
-			} catch (error) {
-				console.error("Mermaid render error:", error);
-				setSvg(
-					'<div class="text-red-500 font-mono text-xs p-4 border border-red-900/50 bg-red-950/20 rounded">Failed to render diagram syntax</div>',
-				);
-			}
+		let cancelled = false;
+		setFailed(false);
+		loadMermaid()
+			.then((mermaid) => mermaid.render(`mermaid-${id}`, chart))
+			.then(
+				({ svg }) => !cancelled && setSvg(svg),
+				(error) => {
+					console.error("Mermaid render error:", error);
+					if (!cancelled) setFailed(true);
+				},
+			);
+		return () => {
+			cancelled = true;
 		};
-		renderChart();
 	}, [chart, id]);
 
+	if (failed) {
+		return (
+			<div className="my-10 text-red-500 font-mono text-xs p-4 border border-red-900/50 bg-red-950/20 rounded">
+				Failed to render diagram syntax
+			</div>
+		);
+	}
+
 	return (
 		<div
-			className="my-10 flex justify-center bg-zinc-950/40 p-6 rounded-xl border border-zinc-800/50 overflow-x-auto shadow-inner"
+			data-diagram
+			className={DIAGRAM_CLASS}
 			dangerouslySetInnerHTML={{ __html: svg }}
 		/>
 	);
 };
 
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
-	const [copiedIndex, setCopiedIndex] = React.useState<number | null>(null);
+// Printed in place of a simulation, which needs a browser to run
+const SimulationSummary = ({
+	name,
+	params,
+}: {
+	name: string;
+	params: SimulationParams;
+}) => (
+	<div className="flex items-start gap-4 p-6 border border-dashed border-zinc-700 rounded-xl not-italic">
+		<Activity className="w-8 h-8 text-indigo-400 shrink-0" />
+		<div className="space-y-1">
+			<div className="font-mono text-xs uppercase tracking-widest text-zinc-500">
+				Interactive simulation
+			</div>
+			<div className="font-bold text-white">{name}</div>
+			{Object.keys(params).length > 0 && (
+				<div className="font-mono text-sm text-zinc-400">
+					{Object.entries(params)
+						.map(([key, value]) => (value === true ? key : `${key} = ${value}`))
+						.join(" · ")}
+				</div>
+			)}
+			<p className="text-sm text-zinc-400">
+				Open the article online to run it.
+			</p>
+		</div>
+	</div>
+);
+
+// A simulation from a `sim` fence (utils/simulations.ts). Parameters that do
+// not fit are left at their defaults; the content linter reports them.
+// Simulations only read their parameters when they mount, so an edited fence
+// mounts a fresh one.
+const InlineSimulation = ({
+	source,
+	print,
+}: {
+	source: string;
+	print?: boolean;
+}) => {
+	const embed = parseSimulationEmbed(source);
+	const { params } = resolveSimulationParams(
+		simulationParamSpec(embed.name),
+		embed,
+	);
+	const summary = <SimulationSummary name={embed.name} params={params} />;
+
+	if (print) return <div className="my-10">{summary}</div>;
+	return (
+		<>
+			<div className="my-10 not-italic print:hidden">
+				<DemoView key={source} simulationName={embed.name} params={params} />
+			</div>
+			<div className="my-10 hidden print:block">{summary}</div>
+		</>
+	);
+};
+
+// Copies a deep link to the heading and moves the URL hash there
+const HeadingAnchor = ({ id }: { id?: string }) => {
+	const [copied, setCopied] = useState(false);
+
+	if (!id) return null;
+
+	const handleCopy = () => {
+		const url = new URL(window.location.href);
+		url.hash = id;
+		navigator.clipboard.writeText(url.toString());
+		window.history.replaceState(window.history.state, "", url);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
+
+	return (
+		<button
+			onClick={handleCopy}
+			className="opacity-0 group-hover/heading:opacity-100 focus:opacity-100 text-zinc-600 hover:text-indigo-400 transition-opacity p-1"
+			title="Copy link to section"
+			aria-label="Copy link to section"
+		>
+			{copied ? (
+				<Check className="w-4 h-4 text-green-500" />
+			) : (
+				<Link2 className="w-4 h-4" />
+			)}
+		</button>
+	);
+};
+
+// A numbered citation linking to the References section, previewing the
+// entry on hover or keyboard focus
+const Citation = ({
+	reference,
+	children,
+	...props
+}: React.AnchorHTMLAttributes<HTMLAnchorElement> & {
+	reference: Reference;
+}) => (
+	<span className="relative inline-block group/cite">
+		<a
+			className="font-mono text-sm text-indigo-400 hover:text-white no-underline"
+			aria-describedby={`cite-preview-${reference.key}`}
+			{...props}
+		>
+			{children}
+		</a>
+		<span
+			id={`cite-preview-${reference.key}`}
+			role="tooltip"
+			className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-72 hidden group-hover/cite:block group-focus-within/cite:block z-30 bg-zinc-900 border border-zinc-700 p-4 shadow-2xl text-left leading-snug not-italic"
+		>
+			<span className="block text-xs font-mono text-zinc-500 mb-1">
+				{reference.authors}
+				{reference.year && ` · ${reference.year}`}
+			</span>
+			<span className="block text-sm font-medium text-zinc-100">
+				{reference.title}
+			</span>
+			{reference.venue && (
+				<span className="block text-xs text-zinc-400 italic mt-1">
+					{reference.venue}
+				</span>
+			)}
+		</span>
+	</span>
+);
 
-	const handleCopy = (code: string, index: number) => {
-		navigator.clipboard.writeText(code);
-		setCopiedIndex(index);
-		setTimeout(() => setCopiedIndex(null), 2000);
+// A footnote set in the margin beside its line on wide screens; on narrow
+// ones the number toggles the note inline. Pages without a margin float the
+// note beside the paragraph instead, and printed notes follow their line.
+const Sidenote = ({
+	number,
+	repeat,
+	print,
+	children,
+}: {
+	number: number;
+	repeat: boolean;
+	print?: boolean;
+	children?: React.ReactNode;
+}) => {
+	const [open, setOpen] = useState(false);
+
+	if (repeat) {
+		return (
+			<sup className="font-mono text-xs text-indigo-400 ml-0.5">{number}</sup>
+		);
+	}
+
+	const noteClass =
+		"border-l-2 border-indigo-500/40 pl-3 text-sm leading-6 text-zinc-500 font-normal not-italic tracking-normal";
+	const note = (
+		<>
+			<span className="font-mono text-xs text-indigo-400 mr-1.5">{number}</span>
+			{children}
+		</>
+	);
+
+	if (print) {
+		return (
+			<>
+				<sup className="font-mono text-xs text-indigo-400 ml-0.5">{number}</sup>
+				<small className={`block my-3 ${noteClass}`}>{note}</small>
+			</>
+		);
+	}
+
+	return (
+		<>
+			<button
+				onClick={() => setOpen(!open)}
+				className="align-super font-mono text-xs text-indigo-400 hover:text-white ml-0.5 lg:cursor-default"
+				aria-expanded={open}
+				aria-label={`Note ${number}`}
+			>
+				{number}
+			</button>
+			<MarginItem
+				fallback={
+					<small
+						className={`${open ? "block" : "hidden"} lg:block print:!block lg:float-right lg:clear-right lg:w-56 lg:ml-8 lg:-mr-2 my-3 lg:my-1 ${noteClass}`}
+					>
+						{note}
+					</small>
+				}
+			>
+				<small className={`block ${noteClass}`}>{note}</small>
+			</MarginItem>
+		</>
+	);
+};
+
+// A `:::margin` figure, small enough to sit beside the text
+const MarginFigure = ({ children }: { children?: React.ReactNode }) => (
+	<MarginItem
+		block
+		fallback={
+			<div className="my-10 max-w-sm mx-auto [&_figure]:my-0">{children}</div>
+		}
+	>
+		<div className="text-sm text-zinc-500 [&_figure]:my-0 [&_p]:text-sm [&_p]:leading-6 [&_p]:mb-2 [&>div]:my-0 [&>div]:p-3">
+			{children}
+		</div>
+	</MarginItem>
+);
+
+// "Figure 3 · caption" under a figure or table, numbered by
+// utils/crossReferences.ts
+const FigureCaption = ({
+	number,
+	children,
+}: {
+	number?: unknown;
+	children?: React.ReactNode;
+}) => {
+	const captioned = React.Children.toArray(children).some(
+		(child) => typeof child !== "string" || child.trim(),
+	);
+
+	return (
+		<figcaption className="text-center text-xs text-zinc-500 mt-3 font-mono uppercase tracking-widest [&_.katex]:normal-case">
+			{typeof number === "string" && (
+				<span className="text-zinc-300">{number}</span>
+			)}
+			{typeof number === "string" && captioned && " · "}
+			{children}
+		</figcaption>
+	);
+};
+
+// URLs of the links in a printed article (utils/linkNotes.ts)
+const LinkNotes = ({ urls }: { urls: string[] }) => (
+	<section className="mt-16">
+		<h2 className="text-2xl font-bold text-indigo-200 font-space mb-6">
+			Links
+		</h2>
+		<ol className="space-y-2">
+			{urls.map((url, index) => (
+				<li key={url} className="flex gap-4 text-sm">
+					<span className="font-mono text-zinc-600 w-8 shrink-0 text-right">
+						{index + 1}
+					</span>
+					<span className="text-zinc-400 break-all">{url}</span>
+				</li>
+			))}
+		</ol>
+	</section>
+);
+
+// A display equation, pre-rendered by utils/equations.ts, with a hover action
+// copying its LaTeX source
+const Equation = ({ math }: { math: RenderedMath }) => {
+	const [copied, setCopied] = useState(false);
+
+	const handleCopy = () => {
+		navigator.clipboard.writeText(math.tex);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
 	};
 
+	return (
+		<div
+			id={math.id}
+			className="group/equation relative my-8 scroll-mt-24 target:bg-indigo-500/10 transition-colors"
+		>
+			<div
+				className="overflow-x-auto overflow-y-hidden"
+				dangerouslySetInnerHTML={{ __html: math.html }}
+			/>
+			<button
+				onClick={handleCopy}
+				className="absolute -top-4 right-0 flex items-center gap-1 font-mono text-[10px] uppercase tracking-widest text-zinc-600 hover:text-indigo-400 opacity-0 group-hover/equation:opacity-100 focus:opacity-100 transition-opacity p-1 print:hidden"
+				title="Copy LaTeX"
+				aria-label="Copy LaTeX"
+			>
+				{copied ? (
+					<Check className="w-3 h-3 text-green-500" />
+				) : (
+					<Copy className="w-3 h-3" />
+				)}
+				LaTeX
+			</button>
+		</div>
+	);
+};
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({
+	content,
+	references = [],
+	images = {},
+	diagrams = {},
+	math = [],
+	numbering = [],
+	print = false,
+}) => {
 	return (
 		<div className="w-full">
 			<ReactMarkdown
-				remarkPlugins={[remarkMath, remarkGfm]}
-				rehypePlugins={[rehypeKatex]}
+				remarkPlugins={[
+					remarkMath,
+					remarkGfm,
+					remarkDirective,
+					remarkMarginFigures,
+					remarkCallouts,
+					[remarkNumbering, numbering],
+					remarkSimulations,
+					remarkCodeBlocks,
+					remarkPrerenderedMath,
+					remarkHeadingIds,
+					remarkSidenotes,
+					...(print ? [remarkLinkNotes] : []),
+				]}
 				components={{
 					table: ({ node, ...props }) => (
 						<div className="overflow-x-auto my-10 rounded-xl border border-zinc-800 bg-zinc-900/40 backdrop-blur-sm">
@@ -104,24 +455,30 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
 					),
 					h1: ({ node, ...props }) => (
 						<h1
-							className="text-4xl md:text-5xl font-bold text-white mb-8 mt-4 font-space tracking-tight leading-tight"
+							className="text-4xl md:text-5xl font-bold text-white mb-8 mt-4 font-space tracking-tight leading-tight scroll-mt-24"
 							{...props}
 						/>
 					),
-					h2: ({ node, ...props }) => (
+					h2: ({ node, children, ...props }) => (
 						<div className="mt-16 mb-6">
 							<h2
-								className="text-2xl md:text-3xl font-bold text-indigo-200 font-space flex items-center gap-3"
+								className="group/heading text-2xl md:text-3xl font-bold text-indigo-200 font-space flex items-center gap-3 scroll-mt-24"
 								{...props}
-							/>
+							>
+								{children}
+								<HeadingAnchor id={props.id} />
+							</h2>
 							<div className="h-px w-full bg-gradient-to-r from-indigo-500/50 to-transparent mt-4" />
 						</div>
 					),
-					h3: ({ node, ...props }) => (
+					h3: ({ node, children, ...props }) => (
 						<h3
-							className="text-xl md:text-2xl font-bold text-zinc-100 mt-10 mb-4 font-space"
+							className="group/heading text-xl md:text-2xl font-bold text-zinc-100 mt-10 mb-4 font-space flex items-center gap-2 scroll-mt-24"
 							{...props}
-						/>
+						>
+							{children}
+							<HeadingAnchor id={props.id} />
+						</h3>
 					),
 					p: ({ node, ...props }) => (
 						<p
@@ -152,101 +509,228 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
 							{props.children}
 						</blockquote>
 					),
-					a: ({ node, ...props }) => (
-						<a
-							className="text-indigo-400 hover:text-white font-medium underline underline-offset-4 decoration-indigo-500/30 hover:decoration-indigo-500 transition-all"
-							{...props}
-						/>
-					),
+					a: ({ node, ...props }) => {
+						const reference = references.find(
+							(r) => props.href === `#${referenceAnchor(r.key)}`,
+						);
+						if (reference) return <Citation reference={reference} {...props} />;
+
+						const className =
+							"text-indigo-400 hover:text-white font-medium underline underline-offset-4 decoration-indigo-500/30 hover:decoration-indigo-500 transition-all";
+						// Site links go through the router so they pick up the base path
+						const { href, ...rest } = props;
+						const link =
+							href?.startsWith("/") && !href.startsWith("//") ? (
+								<Link to={href} className={className} {...rest} />
+							) : (
+								<a className={className} {...props} />
+							);
+
+						// Printed, the number points to the URL in the link notes
+						const note = (props as Record<string, unknown>)["data-link-note"];
+						if (note === undefined) return link;
+						return (
+							<>
+								{link}
+								<sup className="font-mono text-xs text-indigo-400 ml-0.5">
+									{String(note)}
+								</sup>
+							</>
+						);
+					},
+					section: ({ node, ...props }) => {
+						const notes = (props as Record<string, unknown>)["data-link-notes"];
+						if (typeof notes !== "string") return <section {...props} />;
+
+						return <LinkNotes urls={JSON.parse(notes) as string[]} />;
+					},
+					aside: ({ node, ...props }) => {
+						const type = (props as Record<string, unknown>)["data-callout"];
+						if (typeof type !== "string") return <aside {...props} />;
+
+						return <Callout type={type}>{props.children}</Callout>;
+					},
+					details: ({ node, ...props }) => {
+						const type = (props as Record<string, unknown>)["data-callout"];
+						if (typeof type !== "string") return <details {...props} />;
+
+						return (
+							<Callout type={type} collapsible open={print || props.open}>
+								{props.children}
+							</Callout>
+						);
+					},
+					summary: ({ node, ...props }) => {
+						const type = (props as Record<string, unknown>)[
+							"data-callout-title"
+						];
+						if (typeof type !== "string") return <summary {...props} />;
+
+						return (
+							<CalloutTitle type={type} collapsible>
+								{props.children}
+							</CalloutTitle>
+						);
+					},
+					div: ({ node, ...props }) => {
+						const title = (props as Record<string, unknown>)[
+							"data-callout-title"
+						];
+						if (typeof title === "string") {
+							return <CalloutTitle type={title}>{props.children}</CalloutTitle>;
+						}
+
+						if ((props as Record<string, unknown>)["data-margin"]) {
+							return <MarginFigure>{props.children}</MarginFigure>;
+						}
+
+						// Printed, each tab is a block of its own
+						const tabs = (props as Record<string, unknown>)["data-code-tabs"];
+						if (typeof tabs === "string" && print) return <>{props.children}</>;
+						if (typeof tabs === "string") {
+							return (
+								<CodeTabs tabs={JSON.parse(tabs) as CodeTab[]}>
+									{props.children}
+								</CodeTabs>
+							);
+						}
+
+						const simulation = (props as Record<string, unknown>)[
+							"data-simulation"
+						];
+						if (typeof simulation === "string") {
+							return <InlineSimulation source={simulation} print={print} />;
+						}
+
+						const index = (props as Record<string, unknown>)["data-math"];
+						const rendered = math[Number(index)];
+						if (index === undefined || !rendered) return <div {...props} />;
+
+						return <Equation math={rendered} />;
+					},
+					span: ({ node, ...props }) => {
+						const index = (props as Record<string, unknown>)["data-math"];
+						const rendered = math[Number(index)];
+						if (index === undefined || !rendered) return <span {...props} />;
+
+						return <span dangerouslySetInnerHTML={{ __html: rendered.html }} />;
+					},
+					small: ({ node, ...props }) => {
+						const number = (props as Record<string, unknown>)["data-sidenote"];
+						if (number === undefined) return <small {...props} />;
+
+						return (
+							<Sidenote
+								number={Number(number)}
+								repeat={Boolean(
+									(props as Record<string, unknown>)["data-repeat"],
+								)}
+								print={print}
+							>
+								{props.children}
+							</Sidenote>
+						);
+					},
 					strong: ({ node, ...props }) => (
 						<strong className="text-white font-semibold" {...props} />
 					),
 					hr: ({ node, ...props }) => (
 						<hr className="border-zinc-800 my-12" {...props} />
 					),
-					img: ({ node, ...props }) => (
-						<figure className="my-10">
-							<img
-								className="rounded-xl shadow-2xl border border-zinc-800 w-full"
-								{...props}
-								alt={props.alt || ""}
-							/>
-							{props.alt && (
-								<figcaption className="text-center text-xs text-zinc-500 mt-3 font-mono uppercase tracking-widest">
-									{props.alt}
-								</figcaption>
-							)}
-						</figure>
+					figure: ({ node, ...props }) => (
+						<figure className="my-10 scroll-mt-24 [&>div]:my-0" {...props} />
+					),
+					figcaption: ({ node, children, ...props }) => (
+						<FigureCaption
+							number={(props as Record<string, unknown>)["data-number"]}
+						>
+							{children}
+						</FigureCaption>
 					),
+					img: ({ node, id, ...props }) => {
+						const image = props.src ? images[props.src] : undefined;
+						const number = (props as Record<string, unknown>)["data-number"];
+						return (
+							<figure id={id} className="my-10 scroll-mt-24">
+								<img
+									className="rounded-xl shadow-2xl border border-zinc-800 w-full h-auto"
+									{...props}
+									{...(image && {
+										width: image.width,
+										height: image.height,
+										srcSet: image.srcSet,
+										sizes: "(min-width: 1024px) 54rem, 100vw",
+									})}
+									loading="lazy"
+									decoding="async"
+									alt={props.alt || ""}
+								/>
+								{(props.alt || typeof number === "string") && (
+									<FigureCaption number={number}>{props.alt}</FigureCaption>
+								)}
+							</figure>
+						);
+					},
 					code(props: any) {
 						const { node, inline, className, children, ...rest } = props;
 						const match = /language-(\w+)/.exec(className || "");
 						const codeString = String(children).replace(/\n$/, "");
-						const codeId = codeString.length;
 
 						// Check for mermaid
 						if (!inline && match && match[1] === "mermaid") {
-							return <MermaidDiagram chart={codeString} />;
+							const svg = diagrams[codeString];
+							if (svg) return <StaticDiagram svg={svg} />;
+							return process.env.NODE_ENV !== "production" ? (
+								<MermaidDiagram chart={codeString} />
+							) : null;
 						}
 
-						return !inline && match ? (
-							<div className="rounded-xl overflow-hidden my-10 border border-zinc-800 shadow-2xl bg-[#0d0d0d] group relative">
-								{/* Window Header */}
-								<div className="flex items-center justify-between px-4 py-3 bg-zinc-900/80 border-b border-zinc-800 backdrop-blur-md">
-									<div className="flex gap-2">
-										<div className="w-3 h-3 rounded-full bg-[#ff5f56] border border-[#e0443e]" />
-										<div className="w-3 h-3 rounded-full bg-[#ffbd2e] border border-[#dea123]" />
-										<div className="w-3 h-3 rounded-full bg-[#27c93f] border border-[#1aab29]" />
-									</div>
-									<div className="absolute left-1/2 -translate-x-1/2 flex items-center gap-2 text-xs text-zinc-500 font-mono font-medium opacity-60 group-hover:opacity-100 transition-opacity">
-										<Terminal className="w-3 h-3" />
-										{match[1].toUpperCase()}
-									</div>
-									<button
-										onClick={() => handleCopy(codeString, codeId)}
-										className="text-zinc-500 hover:text-white transition-colors p-1.5 rounded hover:bg-white/10"
-										title="Copy Code"
-									>
-										{copiedIndex === codeId ? (
-											<Check className="w-3.5 h-3.5 text-green-500" />
-										) : (
-											<Copy className="w-3.5 h-3.5" />
-										)}
-									</button>
-								</div>
-
-								{/* Code Content */}
-								<SyntaxHighlighter
-									style={vscDarkPlus as any}
-									language={match[1]}
-									PreTag="div"
-									customStyle={{
-										margin: 0,
-										padding: "1.5rem",
-										background: "transparent",
-										fontSize: "0.875rem",
-										lineHeight: "1.6",
-										fontFamily: '"JetBrains Mono", monospace',
-									}}
-									showLineNumbers={true}
-									lineNumberStyle={{
-										minWidth: "2.5em",
-										paddingRight: "1em",
-										color: "#52525b",
-										textAlign: "right",
-									}}
+						if (inline || !match) {
+							return (
+								<code
+									className="bg-zinc-800/80 text-indigo-300 px-1.5 py-0.5 rounded font-mono text-sm border border-zinc-700/50 shadow-sm"
 									{...rest}
 								>
-									{codeString}
-								</SyntaxHighlighter>
-							</div>
-						) : (
-							<code
-								className="bg-zinc-800/80 text-indigo-300 px-1.5 py-0.5 rounded font-mono text-sm border border-zinc-700/50 shadow-sm"
-								{...rest}
-							>
-								{children}
-							</code>
+									{children}
+								</code>
+							);
+						}
+
+						const fence = parseCodeMeta(node?.data?.meta);
+						// Printed code is never collapsed and shows its tab's name
+						const meta = print
+							? {
+									...fence,
+									title: fence.title ?? fence.tab,
+									collapse: undefined,
+									noCollapse: true,
+								}
+							: fence;
+						// ```js run``` cells
+						const run = runOptions(match[1], meta);
+						if (run) {
+							return (
+								<CodeCell
+									code={codeString}
+									label={match[1]}
+									number={rest["data-number"]}
+									id={rest.id}
+									fileName={meta.title}
+									{...run}
+								/>
+							);
+						}
+
+						const tab = rest["data-tab"];
+						return (
+							<CodeBlock
+								code={codeString}
+								language={match[1]}
+								meta={meta}
+								number={rest["data-number"]}
+								id={rest.id}
+								tab={tab === undefined ? undefined : Number(tab)}
+							/>
 						);
 					},
 				}}
@@ -0,0 +1,60 @@
+import React from "react";
+import { ExternalLink } from "lucide-react";
+import { Reference } from "../types";
+import { REFERENCES_ID, referenceAnchor } from "../utils/citations";
+
+interface ReferencesProps {
+	references: Reference[];
+	print?: boolean; // Spells out URLs instead of linking them
+}
+
+const References: React.FC<ReferencesProps> = ({ references, print }) => {
+	if (references.length === 0) return null;
+
+	return (
+		<section id={REFERENCES_ID} className="not-prose mt-16 scroll-mt-24">
+			<h2 className="text-2xl md:text-3xl font-bold text-indigo-200 font-space">
+				References
+			</h2>
+			<div className="h-px w-full bg-gradient-to-r from-indigo-500/50 to-transparent mt-4 mb-8" />
+			<ol className="space-y-4">
+				{references.map((reference) => (
+					<li
+						key={reference.key}
+						id={referenceAnchor(reference.key)}
+						className="flex gap-4 scroll-mt-24 target:bg-indigo-500/10 transition-colors"
+					>
+						<span className="font-mono text-sm text-zinc-600 w-8 shrink-0 text-right">
+							[{reference.number}]
+						</span>
+						<p className="text-sm text-zinc-400 leading-relaxed">
+							{reference.authors}. {reference.title}
+							{reference.venue && (
+								<span className="italic">. {reference.venue}</span>
+							)}
+							{reference.year && `, ${reference.year}`}.
+							{reference.url && print && (
+								<span className="ml-2 font-mono text-xs break-all">
+									{reference.url}
+								</span>
+							)}
+							{reference.url && !print && (
+								<a
+									href={reference.url}
+									target="_blank"
+									rel="noreferrer"
+									className="inline-flex items-center gap-1 ml-2 font-mono text-xs text-indigo-400 hover:text-white"
+								>
+									Link
+									<ExternalLink className="w-3 h-3" />
+								</a>
+							)}
+						</p>
+					</li>
+				))}
+			</ol>
+		</section>
+	);
+};
+
+export default References;
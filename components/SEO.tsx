@@ -1,14 +1,19 @@
 import React from "react";
 import { Helmet } from "react-helmet-async";
+import { useLocation } from "react-router-dom";
 import { USER_CONFIG } from "../config";
+import { Idea } from "../types";
+import { siteUrl } from "../utils/site";
+import { ideaCitationMeta, ideaJsonLd } from "../utils/structuredData";
 
 interface SEOProps {
 	title?: string;
 	description?: string;
 	image?: string;
 	type?: "website" | "article";
-	url?: string;
-	date?: string;
+	idea?: Idea; // Describes the page as this article
+	noindex?: boolean;
+	path?: string; // Canonical route, when not the page's own (e.g. a print view)
 }
 
 const SEO: React.FC<SEOProps> = ({
@@ -16,51 +21,31 @@ const SEO: React.FC<SEOProps> = ({
 	description,
 	image,
 	type = "website",
-	url,
-	date,
+	idea,
+	noindex,
+	path,
 }) => {
 	const siteTitle = USER_CONFIG.name + " | " + USER_CONFIG.lab;
 	const pageTitle = title ? `${title} | ${USER_CONFIG.lab}` : siteTitle;
 	const metaDescription =
 		description || USER_CONFIG.bio.replace("%NAME%", USER_CONFIG.name);
-	const metaImage = image || USER_CONFIG.avatar;
-	const siteUrl = USER_CONFIG.social.website;
-	const currentUrl = url || siteUrl;
+	// Crawlers need absolute image URLs; build-generated cards are site paths
+	const metaImage = image?.startsWith("/")
+		? siteUrl(image)
+		: image || USER_CONFIG.avatar;
+	// The same URL scripts/build.ts writes into the static page
+	const { pathname } = useLocation();
+	const currentUrl = siteUrl(path ?? pathname);
 
-	// Structured Data (JSON-LD)
-	const schemaData =
-		type === "article"
-			? {
-					"@context": "https://schema.org",
-					"@type": "Article",
-					headline: title,
-					description: metaDescription,
-					image: metaImage,
-					author: {
-						"@type": "Person",
-						name: USER_CONFIG.name,
-						url: USER_CONFIG.social.website,
-					},
-					publisher: {
-						"@type": "Organization",
-						name: USER_CONFIG.lab,
-						logo: {
-							"@type": "ImageObject",
-							url: USER_CONFIG.avatar,
-						},
-					},
-					datePublished: date,
-					mainEntityOfPage: {
-						"@type": "WebPage",
-						"@id": currentUrl,
-					},
-				}
-			: {
-					"@context": "https://schema.org",
-					"@type": "WebSite",
-					name: USER_CONFIG.lab,
-					url: siteUrl,
-				};
+	// Structured Data (JSON-LD), shared with the static pages scripts/build.ts writes
+	const schemaData = idea
+		? ideaJsonLd(idea)
+		: {
+				"@context": "https://schema.org",
+				"@type": "WebSite",
+				name: USER_CONFIG.lab,
+				url: siteUrl(),
+			};
 
 	return (
 		<Helmet>
@@ -68,6 +53,8 @@ const SEO: React.FC<SEOProps> = ({
 			<title>{pageTitle}</title>
 			<meta name="description" content={metaDescription} />
 			<meta name="image" content={metaImage} />
+			<link rel="canonical" href={currentUrl} />
+			{noindex && <meta name="robots" content="noindex" />}
 
 			{/* Open Graph */}
 			<meta property="og:site_name" content={USER_CONFIG.lab} />
@@ -84,6 +71,12 @@ const SEO: React.FC<SEOProps> = ({
 			<meta name="twitter:description" content={metaDescription} />
 			<meta name="twitter:image" content={metaImage} />
 
+			{/* Citation (Google Scholar, Zotero) */}
+			{idea &&
+				ideaCitationMeta(idea).map(({ name, content }) => (
+					<meta key={name} name={name} content={content} />
+				))}
+
 			{/* Structured Data */}
 			<script type="application/ld+json">{JSON.stringify(schemaData)}</script>
 		</Helmet>
@@ -0,0 +1,66 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, ArrowRight, Layers } from "lucide-react";
+import { Idea } from "../types";
+import { Series } from "../utils/series";
+
+interface SeriesNavigatorProps {
+	series: Series;
+	current: Idea;
+}
+
+const SeriesNavigator: React.FC<SeriesNavigatorProps> = ({
+	series,
+	current,
+}) => {
+	const index = series.parts.findIndex((part) => part.id === current.id);
+	if (index === -1) return null;
+
+	const previous = series.parts[index - 1];
+	const next = series.parts[index + 1];
+
+	return (
+		<nav
+			aria-label={`Series: ${series.title}`}
+			className="not-prose mb-8 border border-zinc-800 bg-zinc-900/20"
+		>
+			<div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-zinc-800">
+				<Link
+					to={`/series/${series.id}`}
+					className="flex items-center gap-2 font-mono text-xs uppercase tracking-widest text-zinc-400 hover:text-white transition-colors"
+				>
+					<Layers className="w-3.5 h-3.5 text-indigo-400" />
+					{series.title}
+				</Link>
+				<span className="font-mono text-[10px] uppercase tracking-widest text-zinc-500">
+					Part {index + 1} of {series.parts.length}
+				</span>
+			</div>
+
+			<div className="grid grid-cols-2 divide-x divide-zinc-800">
+				{[previous, next].map((part, i) =>
+					part ? (
+						<Link
+							key={part.id}
+							to={`/idea/${part.id}`}
+							className={`group flex flex-col gap-1 px-4 py-3 hover:bg-zinc-900/50 transition-colors ${i === 1 ? "items-end text-right" : ""}`}
+						>
+							<span className="flex items-center gap-1 font-mono text-[10px] uppercase tracking-widest text-zinc-500">
+								{i === 0 && <ArrowLeft className="w-3 h-3" />}
+								{i === 0 ? "Previous" : "Next"}
+								{i === 1 && <ArrowRight className="w-3 h-3" />}
+							</span>
+							<span className="text-sm text-zinc-300 group-hover:text-indigo-300 transition-colors line-clamp-2">
+								{part.title}
+							</span>
+						</Link>
+					) : (
+						<div key={i} />
+					),
+				)}
+			</div>
+		</nav>
+	);
+};
+
+export default SeriesNavigator;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from "react";
+import { List } from "lucide-react";
+import { OutlineHeading } from "../types";
+
+interface TableOfContentsProps {
+	outline: OutlineHeading[];
+}
+
+// Distance from the top of the viewport at which a section counts as current,
+// clearing the sticky header.
+const ACTIVE_OFFSET = 120;
+
+const TableOfContents: React.FC<TableOfContentsProps> = ({ outline }) => {
+	const headings = outline.filter((h) => h.depth === 2 || h.depth === 3);
+	const [activeId, setActiveId] = useState<string | null>(null);
+
+	// Scroll-spy: the current section is the last heading above the offset
+	useEffect(() => {
+		let frame = 0;
+
+		const update = () => {
+			frame = 0;
+			let current: string | null = null;
+			for (const { id } of headings) {
+				const element = document.getElementById(id);
+				if (!element) continue;
+				if (element.getBoundingClientRect().top > ACTIVE_OFFSET) break;
+				current = id;
+			}
+			setActiveId(current);
+		};
+
+		const onScroll = () => {
+			if (!frame) frame = requestAnimationFrame(update);
+		};
+
+		update();
+		window.addEventListener("scroll", onScroll, { passive: true });
+		window.addEventListener("resize", onScroll);
+		return () => {
+			cancelAnimationFrame(frame);
+			window.removeEventListener("scroll", onScroll);
+			window.removeEventListener("resize", onScroll);
+		};
+	}, [outline]);
+
+	if (headings.length === 0) return null;
+
+	return (
+		<nav
+			aria-label="Table of contents"
+			className="border border-zinc-800 p-6 bg-zinc-900/20"
+		>
+			<h3 className="font-mono text-xs uppercase text-zinc-500 mb-4 tracking-widest flex items-center gap-2">
+				<List className="w-3.5 h-3.5" />
+				Contents
+			</h3>
+			<ul className="space-y-2 text-sm max-h-[60vh] overflow-y-auto pr-2">
+				{headings.map((heading) => {
+					const active = heading.id === activeId;
+					return (
+						<li
+							key={heading.id}
+							className={heading.depth === 3 ? "pl-4" : undefined}
+						>
+							<a
+								href={`#${heading.id}`}
+								aria-current={active ? "location" : undefined}
+								className={`block border-l-2 pl-3 py-0.5 leading-snug transition-colors ${
+									active
+										? "border-indigo-500 text-white"
+										: "border-transparent text-zinc-500 hover:text-zinc-300"
+								}`}
+							>
+								{heading.text}
+							</a>
+						</li>
+					);
+				})}
+			</ul>
+		</nav>
+	);
+};
+
+export default TableOfContents;
@@ -0,0 +1,35 @@
+import React from "react";
+import { EyeOff } from "lucide-react";
+import { PREVIEW } from "../generated-ideas";
+import { Idea } from "../types";
+
+interface VisibilityBannerProps {
+	idea: Pick<Idea, "visibility" | "date">;
+}
+
+// Dev-only notice on pages readers would not find through the site
+const VisibilityBanner: React.FC<VisibilityBannerProps> = ({ idea }) => {
+	if (!PREVIEW || idea.visibility === "public") return null;
+
+	const message = {
+		draft: "Draft: only visible in development builds.",
+		scheduled: `Scheduled: published with the first build on or after ${idea.date}.`,
+		unlisted:
+			"Unlisted: reachable by URL, but left out of the archive, RSS feed and sitemap.",
+	}[idea.visibility];
+
+	return (
+		<div
+			role="status"
+			className="mb-8 flex items-center gap-3 border border-dashed border-amber-400/40 bg-amber-400/5 px-4 py-3 font-mono text-xs text-amber-300"
+		>
+			<EyeOff className="w-4 h-4 shrink-0" />
+			<span className="uppercase tracking-widest font-bold">
+				{idea.visibility}
+			</span>
+			<span className="text-amber-200/70">{message}</span>
+		</div>
+	);
+};
+
+export default VisibilityBanner;
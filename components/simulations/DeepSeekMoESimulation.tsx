@@ -1,14 +1,23 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { useSimulation } from "../../hooks/useSimulation";
 import { SchematicCard, SchematicButton } from "../SketchElements";
 import { Brain } from "lucide-react";
 
 const EXPERT_COUNT = 8; // Reduced for visual clarity
 
-const DeepSeekMoESimulation: React.FC = () => {
-	const { isRunning, state, start, stop, reset } = useSimulation({
-		initialState: {
-			experts: Array(EXPERT_COUNT)
+interface DeepSeekMoESimulationProps {
+	experts?: number; // Routed experts per layer, 2 to 64
+	autoplay?: boolean;
+}
+
+const DeepSeekMoESimulation: React.FC<DeepSeekMoESimulationProps> = ({
+	experts = EXPERT_COUNT,
+	autoplay = false,
+}) => {
+	const expertCount = Math.min(Math.max(Math.round(experts), 2), 64);
+	const initialState = useMemo(
+		() => ({
+			experts: Array(expertCount)
 				.fill(0)
 				.map((_, i) => ({
 					id: i,
@@ -19,7 +28,13 @@ const DeepSeekMoESimulation: React.FC = () => {
 			tokensProcessed: 0,
 			activeIndices: [] as number[],
 			currentTask: "Idle",
-		},
+		}),
+		[expertCount],
+	);
+
+	const { isRunning, state, start, stop, reset } = useSimulation({
+		initialState,
+		autoStart: autoplay,
 		onTick: (prev) => {
 			// 1. Generate a random task
 			const tasks = [
@@ -87,7 +102,7 @@ const DeepSeekMoESimulation: React.FC = () => {
 							</div>
 
 							<div className="grid grid-cols-4 gap-2">
-								{Array(8)
+								{Array(expertCount)
 									.fill(0)
 									.map((_, i) => (
 										<div
@@ -18,3 +18,10 @@ export const USER_CONFIG = {
 		labState: "ACTIVE",
 	},
 };
+
+// Where the site is deployed. Canonical links, Open Graph and JSON-LD URLs,
+// the sitemap, the RSS feed and the router all derive from this.
+export const SITE_CONFIG = {
+	url: "https://paperlens.io", // Origin, without a trailing slash
+	basePath: "/", // Sub-path the site is served from, e.g. "/paperlens/"
+};
@@ -0,0 +1,18 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# Asahi Linux m1n1: The Hardware Puppeteer\n\n### Executive Summary\n\nThe transition to Apple Silicon presented a monumental challenge for the Linux community: a completely undocumented, proprietary hardware ecosystem. The Asahi Linux team's solution wasn't just to guess, but to build a sophisticated observation deck. **m1n1** is a lightweight hypervisor that acts as a \"man-in-the-middle\" between macOS and the hardware, allowing researchers to trace every single register access in real-time.\n\nBy trapping Memory-Mapped I/O (MMIO) accesses, the team can observe exactly how macOS drivers interact with the hardware, effectively turning the proprietary OS into a live documentation source.\n\n---\n\n## The Problem: The Black Box of Apple Silicon\n\nTraditional reverse engineering often involves disassembling binary drivers—a tedious, error-prone process that can run into legal gray areas. Apple's hardware is particularly complex, with thousands of undocumented registers controlling everything from the GPU to the power management controller.\n\nWithout documentation, writing a Linux driver is like trying to fly a plane where every button is unlabeled and some buttons might cause the engine to explode if pressed in the wrong order.\n\n---\n\n## The Solution: The m1n1 Hypervisor\n\nThe m1n1 hypervisor runs at **Exception Level 2 (EL2)**, the highest privilege level on ARM64. It boots macOS as a guest at EL1. \n\n### The MMIO Trap Mechanism\n\nThe core \"magic\" of m1n1 lies in its manipulation of the Stage 2 translation tables. \n1. **Direct Mapping**: Normal RAM is mapped 1:1, allowing macOS to run at near-native speed.\n2. **The Trap**: MMIO regions (where hardware registers live) are deliberately left unmapped or marked as \"faulting\" in the page tables.\n3. **The Abort**: When macOS tries to read or write to a hardware register, the CPU triggers a **Data Abort**.\n4. **The Trace**: m1n1 intercepts this abort, logs the access (Address, Value, PC), performs the operation on behalf of the guest, and resumes execution.\n\n```mermaid\nsequenceDiagram\n    participant macOS as macOS (EL1)\n    participant m1n1 as m1n1 Hypervisor (EL2)\n    participant HW as Apple Hardware\n\n    macOS->>HW: Write 0x1 to Register 0x238000\n    Note over macOS,HW: MMIO Region is Unmapped!\n    HW-->>m1n1: Data Abort Exception\n    Note over m1n1: Log: PC=0xffff... Write Addr=0x238000 Val=0x1\n    m1n1->>HW: Actual Hardware Write\n    m1n1-->>macOS: Resume Execution\n```\n\n---\n\n## Implementation: Python-Based Puppeteering\n\nWhat sets m1n1 apart is its **Python integration**. The hypervisor can be controlled via a USB connection from a host machine. This allows for \"live\" reverse engineering.\n\n### The Proxy Client\n\nThe `proxyclient` is a Python library that communicates with m1n1 over a serial port (UART over USB). It allows researchers to:\n- **Read/Write Memory**: Inspect and modify RAM and registers live.\n- **Trace MMIO**: Set up traps for specific address ranges.\n- **Chainload**: Load new versions of m1n1 or Linux kernels without rebooting.\n\n```python\n# Example of a m1n1 Python script tracing a specific device\nfrom m1n1.proxy import Proxy\n\np = Proxy()\n# Trace all accesses to the UART controller\np.trace_mmio(0x235e0000, 0x1000, \"UART\")\n\n# We can even intercept and modify values on the fly!\ndef on_mmio_write(addr, val):\n    print(f\"macOS tried to write {hex(val)} to {hex(addr)}\")\n    return val # Or return a modified value to see what happens\n\np.set_mmio_handler(0x235e0000, on_mmio_write)\n```\n\n---\n\n## The Boot Chain: Bridging Two Worlds\n\nApple Silicon Macs boot in a way that is closer to an iPhone than a PC. m1n1 acts as the bridge between Apple's proprietary `iBoot` and the standard Linux world.\n\n```mermaid\ngraph TD\n    SecureROM[SecureROM] --> iBoot1[iBoot1]\n    iBoot1 --> iBoot2[iBoot2]\n    iBoot2 --> m1n1[m1n1 Stage 1]\n    m1n1 --> m1n1_2[m1n1 Stage 2 + Payloads]\n    m1n1_2 --> UBoot[U-Boot]\n    UBoot --> GRUB[GRUB]\n    GRUB --> Linux[Linux Kernel]\n```\n\n---\n\n## Feasibility and Impact\n\nm1n1 has been the cornerstone of Asahi Linux's success. It allowed for the rapid development of drivers for the M1/M2/M3 GPUs, display controllers, and audio systems. \n\n### Hardware Targets\n* **Apple M1/M2/M3 Series**: Full support for tracing and debugging.\n* **Host Machine**: Any Linux/macOS machine with a USB-C connection to the target Mac.\n\n### Conclusion\n\nm1n1 proves that when hardware is a black box, the best tool isn't a static analyzer, but a dynamic one. By becoming the \"ground truth\" between the OS and the silicon, m1n1 has enabled a new era of hardware freedom on the most advanced consumer silicon available today.\n";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
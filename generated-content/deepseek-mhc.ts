@@ -0,0 +1,47 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# DeepSeek mHC: The Signal Survival Protocol\n## Manifold Constrained Hyper-Connections\n\n### Abstract\n\nAs we build deeper neural networks (100+ layers), a fundamental physics problem emerges: **Signal Survival**. In standard architectures, information acts like a game of \"Telephone\"—it gets distorted, amplified to infinity (exploding gradients), or silenced to zero (vanishing gradients) as it passes through the layers.\n\nDeepSeek's recent Multi-Head Latent Attention (MLA) and Manifold Constrained Hyper-Connections (mHC) papers propose a geometric solution. By forcing the weight matrices to exist on a specific mathematical manifold, we can ensure the signal survives intact, no matter how deep the network goes.\n\n---\n\n## 1. The \"Thinking Highway\" Problem\n\nImagine a neural network as a 100-story skyscraper. Data enters the ground floor and must take an elevator to the roof.\n*   **The Wild Mode (Standard):** The elevator cables are made of rubber. Sometimes they stretch (amplify), sometimes they slack (vanish). By floor 50, the passenger is either crushed by G-force or floating in zero-G.\n*   **The mHC Mode (DeepSeek):** The elevator uses a rigid track. The speed is mathematically constrained to be constant.\n\n### Visualizing Signal Decay\n\n```mermaid\ngraph LR\n    subgraph \"Standard Network (Wild Mode)\"\n        A1[Input Signal] -->|Variable Weights| B1(Layer 10)\n        B1 -->|Explosion| C1(Layer 50: NaN)\n        B1 -->|Vanishing| D1(Layer 50: 0.00)\n        style C1 fill:#450a0a,stroke:#ef4444\n        style D1 fill:#172554,stroke:#3b82f6\n    end\n    \n    subgraph \"DeepSeek mHC Protocol\"\n        A2[Input Signal] -->|Doubly Stochastic| B2(Layer 10)\n        B2 -->|Conserved Energy| C2(Layer 50: Stable)\n        C2 -->|Conserved Energy| D2(Layer 100: Stable)\n        style B2 fill:#052e16,stroke:#10b981\n        style C2 fill:#052e16,stroke:#10b981\n        style D2 fill:#052e16,stroke:#10b981\n    end\n```\n\n### The Mathematics of Stability\n\nIn a standard Dense layer, the output $y$ is:\n$$ y = Wx $$\nIf the eigenvalues of $W$ are $> 1$, $y$ grows exponentially. If $< 1$, it shrinks.\n\nDeepSeek proposes constraining $W$ to be **Doubly Stochastic**. This means:\n1.  Every row sums to exactly 1.0\n2.  Every column sums to exactly 1.0\n\nThis ensures that the total \"energy\" of the signal is conserved. It is neither created nor destroyed, only routed.\n\n---\n\n## 2. The Algorithm: Sinkhorn-Knopp\n\nHow do we force a random matrix of weights to obey these strict rules? We use an iterative normalization process called the **Sinkhorn-Knopp Algorithm**.\n\n```mermaid\ngraph TD\n    Start[Random Weight Matrix W] --> Loop{Sinkhorn Iteration}\n    Loop -->|Step 1| RowNorm[Normalize Rows]\n    RowNorm -->|Sum = 1.0| ColNorm[Normalize Cols]\n    ColNorm -->|Sum = 1.0| Check[Check Convergence]\n    Check -->|Not Stable| Loop\n    Check -->|Stable| End[Doubly Stochastic Matrix]\n    \n    style Start fill:#1e1e2e,stroke:#6366f1\n    style End fill:#064e3b,stroke:#10b981\n```\n\n```python\ndef make_doubly_stochastic(matrix, iterations=5):\n    for _ in range(iterations):\n        # 1. Normalize Rows\n        matrix = matrix / matrix.sum(dim=1, keepdim=True)\n        # 2. Normalize Columns\n        matrix = matrix / matrix.sum(dim=0, keepdim=True)\n    return matrix\n```\n\nThis simple traffic control rule allows DeepSeek to train networks that are significantly deeper and wider than previous architectures without instability.\n\n---\n\n## 3. Scaling Laws & Efficiency\n\nThis constraint doesn't just help stability; it changes the scaling laws. Because the signal doesn't degrade, smaller models using mHC can punch above their weight class, reasoning with the depth of a much larger model.\n\n> \"By forcing the matrix to be Doubly Stochastic, DeepSeek ensures that information is never lost and never amplified uncontrollably.\"\n";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>y</mi></mrow><annotation encoding=\"application/x-tex\">y</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.625em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span></span></span></span>",
+    "tex": "y"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>y</mi><mo>=</mo><mi>W</mi><mi>x</mi></mrow><annotation encoding=\"application/x-tex\">y = Wx</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.625em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span><span class=\"mrel\">=</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.1389em;\">W</span><span class=\"mord mathnormal\">x</span></span></span></span>",
+    "tex": "y = Wx"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>W</mi></mrow><annotation encoding=\"application/x-tex\">W</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.1389em;\">W</span></span></span></span>",
+    "tex": "W"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mo>&gt;</mo><mn>1</mn></mrow><annotation encoding=\"application/x-tex\">&gt; 1</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.5782em;vertical-align:-0.0391em;\"></span><span class=\"mrel\">&gt;</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.6444em;\"></span><span class=\"mord\">1</span></span></span></span>",
+    "tex": "> 1"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>y</mi></mrow><annotation encoding=\"application/x-tex\">y</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.625em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span></span></span></span>",
+    "tex": "y"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mo>&lt;</mo><mn>1</mn></mrow><annotation encoding=\"application/x-tex\">&lt; 1</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.5782em;vertical-align:-0.0391em;\"></span><span class=\"mrel\">&lt;</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.6444em;\"></span><span class=\"mord\">1</span></span></span></span>",
+    "tex": "< 1"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>W</mi></mrow><annotation encoding=\"application/x-tex\">W</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.1389em;\">W</span></span></span></span>",
+    "tex": "W"
+  }
+];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
@@ -0,0 +1,56 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# The DeepSeekMoE Revolution\n\nThe quest for larger models has traditionally been a battle against linear scaling costs. DeepSeek-V3 shatters this paradigm, utilizing a 671B parameter Mixture of Experts (MoE) architecture where only 37B parameters are activated per token \\[[1](#ref-deepseek2024v3)\\].[^active] This isn't just \"more experts\"—it's a fundamental rethink of how experts specialize.\n\n[^active]: Roughly 5.5% of the weights take part in any single forward pass, so per-token compute is closer to a 37B dense model than a 671B one.\n\n## 1. Executive Summary\nDeepSeek-V3 represents the pinnacle of sparse architecture. By evolving the standard MoE into **DeepSeekMoE**, the researchers introduced two critical innovations: **Fine-Grained Expert Segmentation** and **Shared Expert Isolation**. Combined with a novel **Auxiliary-Loss-Free** load balancing strategy, it achieves state-of-the-art performance with a fraction of the training cost (~2.8M H800 hours).\n\n## 2. The Problem: The \"Expert Redundancy\" Bottleneck\nIn traditional MoE (like GShard or Mixtral), a token is routed to one or two large experts. This creates two issues:\n1.  **Knowledge Hybridity**: Experts are forced to learn too many disparate concepts, reducing specialization.\n2.  **Knowledge Redundancy**: Common knowledge (like basic grammar) ends up being duplicated across all experts because every expert needs it to function.\n\n## 3. The Solution: DeepSeekMoE\nDeepSeek splits the FFN layer into two distinct types of experts:\n\n### A. Shared Experts ($N_s$)\nA set of experts that are **always activated** for every token.^[DeepSeek-V3 uses a single shared expert next to 256 routed ones, of which 8 are picked per token.] These act as the \"common knowledge\" backbone, capturing universal patterns and freeing the specialized experts to focus on niche details.\n\n### C. Auxiliary-Loss-Free Load Balancing\nTraditional MoE models use an \"auxiliary loss\" function to force the router to distribute tokens evenly. While this prevents expert collapse (where one expert does all the work), it actively hurts model performance by forcing the router to make sub-optimal choices just to satisfy the quota.\n\nDeepSeek-V3 removes this loss entirely. Instead, it uses a **dynamic bias term** ($b_i$) for each expert.\n- If Expert A is overloaded, its bias $b_A$ is decreased (making it less likely to be picked).\n- If Expert B is underloaded, its bias $b_B$ is increased.\n- The router selects experts based on $Score = Affinity + Bias$.\n\nThis ensures perfect load balancing *without* polluting the training objective with artificial constraints.\n\n```sim DeepSeekMoE experts=16\n```\n\n## 4. Visualizing the Architecture\n```\n        En[Expert N]\n    end\n    \n    TopK -.-> E1\n    TopK -.-> E3\n    \n    Shared --> Combiner[Weighted Sum + Residual]\n    E1 --> Combiner\n    E3 --> Combiner\n    Combiner --> Output[Output Representation]\n```\n\n## 4. Implementation: Bias-Driven Load Balancing\n\nThe most significant breakthrough in DeepSeek-V3 is moving away from auxiliary loss. Standard MoE uses a \"balancing loss\" to prevent all tokens from going to the same expert. However, this loss often conflicts with the actual learning objective.\n\nDeepSeek uses a dynamic bias $b_i$ added to the routing score during selection, but not used in the final weight.\n\n```python title=\"router.py\" {12-13}\nimport torch\nimport torch.nn.functional as F\n\ndef deepseek_moe_route(x, expert_weights, bias, top_k):\n    # x: [batch, hidden]\n    # expert_weights: [num_experts, hidden]\n    # bias: [num_experts] -> Dynamically updated based on load\n    \n    # 1. Calculate raw affinity scores\n    scores = torch.matmul(x, expert_weights.T) # [batch, num_experts]\n    \n    # 2. Add bias for selection ONLY (Load Balancing)\n    routing_scores = scores + bias\n    \n    # 3. Select Top-K experts\n    top_k_val, top_k_idx = torch.topk(routing_scores, k=top_k, dim=-1)\n    \n    # 4. Use RAW scores for the final output (Preserves expertise)\n    final_weights = F.softmax(scores.gather(1, top_k_idx), dim=-1)\n    \n    return final_weights, top_k_idx\n```\n\nThe update rule itself is a few lines. Edit the step size `gamma` and run it again to see how quickly the loads even out; the cell returns each expert's share of the last 1,000 tokens.\n\n```js run\nconst experts = 8, topK = 2, gamma = 0.01;\nconst skew = Array.from({ length: experts }, (_, i) => 1 - i * 0.08); // Expert 0 is the favourite\nconst bias = Array(experts).fill(0);\nlet load = Array(experts).fill(0);\n\nfor (let token = 1; token <= 20000; token++) {\n  const scores = skew.map((s, i) => s * Math.random() + bias[i]);\n  const chosen = scores.map((s, i) => [s, i]).sort((a, b) => b[0] - a[0]).slice(0, topK);\n  for (const [, i] of chosen) load[i]++;\n\n  if (token % 1000 === 0) {\n    const mean = load.reduce((a, b) => a + b) / experts;\n    if (token === 1000 || token === 20000) console.log(`step ${token}: max/mean load ${(Math.max(...load) / mean).toFixed(2)}`);\n    // Overloaded experts lose bias, underloaded ones gain it\n    load.forEach((l, i) => (bias[i] += gamma * Math.sign(mean - l)));\n    if (token < 20000) load = Array(experts).fill(0);\n  }\n}\nreturn load.map((l) => l / (1000 * topK));\n```\n\n## 5. Feasibility & Analysis\n\n*   **Training Stability**: DeepSeek-V3 reported zero irrecoverable loss spikes, a rarity for models of this scale.\n*   **Hardware Efficiency**: By utilizing FP8 precision and custom \"all-to-all\" communication kernels, they achieved nearly 100% computation-communication overlap.\n*   **Economic Impact**: Achieving GPT-4 level performance with an order of magnitude less compute democratizes high-tier LLM development.\n";
+
+export const references: Reference[] = [
+  {
+    "key": "deepseek2024v3",
+    "number": 1,
+    "authors": "DeepSeek-AI",
+    "title": "DeepSeek-V3 Technical Report",
+    "venue": "arXiv:2412.19437",
+    "year": "2024",
+    "url": "https://arxiv.org/abs/2412.19437"
+  }
+];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>N</mi><mi>s</mi></msub></mrow><annotation encoding=\"application/x-tex\">N_s</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8333em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:-0.109em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">s</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "N_s"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>b</mi><mi>i</mi></msub></mrow><annotation encoding=\"application/x-tex\">b_i</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8444em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">b</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.3117em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">i</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "b_i"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>b</mi><mi>A</mi></msub></mrow><annotation encoding=\"application/x-tex\">b_A</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8444em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">b</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.3283em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">A</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "b_A"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>b</mi><mi>B</mi></msub></mrow><annotation encoding=\"application/x-tex\">b_B</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8444em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">b</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.3283em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\" style=\"margin-right:0.0502em;\">B</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "b_B"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>S</mi><mi>c</mi><mi>o</mi><mi>r</mi><mi>e</mi><mo>=</mo><mi>A</mi><mi>f</mi><mi>f</mi><mi>i</mi><mi>n</mi><mi>i</mi><mi>t</mi><mi>y</mi><mo>+</mo><mi>B</mi><mi>i</mi><mi>a</mi><mi>s</mi></mrow><annotation encoding=\"application/x-tex\">Score = Affinity + Bias</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0576em;\">S</span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">cor</span><span class=\"mord mathnormal\">e</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span><span class=\"mrel\">=</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.8889em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\">A</span><span class=\"mord mathnormal\" style=\"margin-right:0.1076em;\">f</span><span class=\"mord mathnormal\" style=\"margin-right:0.1076em;\">f</span><span class=\"mord mathnormal\">ini</span><span class=\"mord mathnormal\">t</span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span><span class=\"mspace\" style=\"margin-right:0.2222em;\"></span><span class=\"mbin\">+</span><span class=\"mspace\" style=\"margin-right:0.2222em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0502em;\">B</span><span class=\"mord mathnormal\">ia</span><span class=\"mord mathnormal\">s</span></span></span></span>",
+    "tex": "Score = Affinity + Bias"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>b</mi><mi>i</mi></msub></mrow><annotation encoding=\"application/x-tex\">b_i</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8444em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">b</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.3117em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">i</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "b_i"
+  }
+];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  },
+  {
+    "label": "Listing 2"
+  }
+];
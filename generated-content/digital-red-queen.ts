@@ -0,0 +1,18 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# Digital Red Queen: The Arms Race of Bytecode Gladiators\n\nIn a stunning convergence of 1980s hacker culture and modern generative AI, researchers from MIT and Sakana AI have released **Digital Red Queen (DRQ)**. This system uses Large Language Models (LLMs) to breed assembly-language warriors for **Core War**, the legendary programming game where code fights for survival in a shared memory block.\n\nThe results are both fascinating and terrifying. Without any human guidance or handcrafted fitness functions—driven only by the raw binary desire to \"not crash\"—DRQ evolved strategies that mirror the most sophisticated human-designed warriors from the last 40 years.\n\n## The Problem: Static Benchmarks vs. Dynamic Warfare\n\nMost LLM benchmarks are static. We ask a model to write a Python script, we run it, and if it works, we give it a gold star. But the real world, especially in cybersecurity, is adversarial. Attackers evolve, defenders patch, and the cycle repeats.\n\nTraditional evolutionary algorithms struggle with code. Random bit-flipping mutations almost always result in crashes. The search space of functional programs is incredibly sparse. DRQ solves this by using LLMs as \"genetic operators\"—intelligently rewriting code based on battle outcomes rather than random chance.\n\n### Core War: Tron Meets Darwin\nCore War is played in a circular memory buffer. The goal is to force the opponent to execute an illegal instruction, crashing their process.\n\nAs shown in the paper's graphics (see the zoomed-in code snippet), the actual \"Redcode\" assembly is complex, utilizing intricate addressing modes (`$`, `#`, `@`, `>`) to create self-modifying code. The battle arena quickly becomes a chaotic dense grid of instruction pointers and data trails as warriors replicate and bombard memory.\n\n## Convergent Evolution: Finding the Robust Peak\n\nThe most striking finding is that **nature found the Nash equilibrium twice**.\n\nWith zero prior knowledge of Core War strategies, DRQ independently re-discovered the \"Rock-Paper-Scissors\" meta that human experts took decades to map out: **Imps** (fast replicators), **Dwarves** (heavy bombers), and **Scanners** (complex hunters).\n\nMapped onto a \"Warrior Behavior Space,\" independent evolutionary runs, starting from diverse random points at the outer edges, all converge towards the same central \"Generally Robust\" peak. Distinct AI populations independently discovered the same optimal survival strategies.\n\nAfter **1000 generations**, the AI-bred warriors achieved an **85% win rate** against the Grand Champions of the 1988 International Core War Society tournament. They evolved complex behaviors like \"Imp-spirals\"—warriors that rapidly replicate while simultaneously carpet-bombing memory blocks behind them.\n\n## Implications: The Automated Exploit Engine\n\nWe used to worry about AI hallucinations making up facts. Now, we have to worry about AI \"hallucinations\" evolving into optimized, self-replicating malware.\n\nIf an LLM can optimize assembly code to survive a hostile memory arena, it can theoretically optimize malicious payloads to evade web application firewalls (WAFs), find return-oriented programming (ROP) gadgets for buffer overflows, or maximize side-channel leakage. We are entering an era where software bugs aren't just static flaws; they are food for an evolving digital immune system.\n\n## Implementation: The Red Queen Loop\n\nThe core loop utilizes the LLM as a \"smart mutator\" within a MAP-Elites framework.\n\n```python\ndef evolve_warrior(parent_code, opponent_code, history_log):\n    prompt = f\"\"\"\n    You are an expert Redcode programmer. \n    Your previous warrior lost against this opponent:\n    {opponent_code}\n    \n    Battle Log: {history_log}\n    \n    Task: Analyze why you lost. Rewrite your warrior to \n    counter the opponent's strategy and survive.\n    \"\"\"\n    # The LLM generates a mutation aimed specifically at the current top warrior\n    return llm.generate(prompt)\n\n```\n\nThis simple loop creates a hyper-optimized feedback loop that brute-forces creativity through adversarial pressure.\n\n## Feasibility Analysis\n\nThe beauty of Core War is its lightness; simulating thousands of cycles takes microseconds. The bottleneck is solely LLM inference for mutation steps. While DRQ warriors are confined to the Redcode virtual machine, the *techniques* learned—polymorphism, stealth, anti-debugging—are highly transferable concepts to real-world cybersecurity.\n\n";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
@@ -0,0 +1,77 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# Executive Summary\n\nIn our previous analysis of the **Control-Theoretic Imperative**, we established that true AGI requires Model Predictive Control (MPC)—a \"System 2\" loop that plans rather than reacts. However, MPC has a fatal dependency: it requires an accurate, fast, and robust **World Model**.\n\nCurrent Generative AI (LLMs, Diffusion) fails as a World Model for planning because it operates in **observation space** (pixels/tokens). Predicting every leaf moving in the wind is computationally intractable and irrelevant to the task of driving a car.\n\nEnter **JEPA (Joint Embedding Predictive Architecture)**. Proposed by Yann LeCun, JEPA abandons the generative objective entirely. Instead of predicting the next pixel, it predicts the next **abstract representation** \\[[1](#ref-assran2023ijepa)\\]. This shift enables the creation of hierarchical world models capable of reasoning over long time horizons without drowning in noise.\n\n# The Problem: The Generative Trap\n\nTo plan effectively, an agent must simulate the future. Generative models simulate the future by reconstructing it entirely.\n\nIf you ask a video generation model to predict the outcome of dropping a glass, it dedicates massive compute to the texture of the floor, the lighting reflections, and the exact scatter pattern of shards. This is **aleatoric uncertainty**—details that are inherently unpredictable and often irrelevant to the outcome \"the glass broke.\"\n\nMathematically, generative models maximize the likelihood of the observation $x$:\n$$P(x|y)$$\nThis forces the model to allocate capacity to every stochastic detail. For an MPC agent running 50 simulations per step, this pixel-level rendering is prohibitively expensive and prone to \"hallucinating\" physics that look real but act wrong.\n\n# The Solution: Joint Embedding Prediction\n\nJEPA creates a **World Model** that functions like human intuition. It ignores the texture of the floor and focuses on the state of the glass (intact vs. broken).\n\n## The Architecture\n\nJEPA differs from Autoencoders and GANs in one critical way: **It does not decode.**\n\n1.  **Context Encoder**: Encodes the current state $x$ into a representation $s_x$.\n2.  **Target Encoder**: Encodes the future state $y$ into a representation $s_y$.\n3.  **Predictor**: A latent world model that attempts to predict $s_y$ given $s_x$ and a latent action/variable $z$.\n\n$$\\text{Loss} = D( \\text{Predictor}(s_x, z), \\text{SG}(s_y) )$$\n\n*Where $D$ is a distance metric (like $L_2$) and $SG$ stands for Stop Gradient.*\n\n### The Collapse Problem\nThe danger in representation learning is **mode collapse**. If the encoders output a constant vector (e.g., all zeros), the prediction error is zero, but the model has learned nothing.\nJEPA solves this not via contrastive loss (negative pairs are inefficient) but through **regularization** or asymmetric architectural updates (e.g., making the Target Encoder an Exponential Moving Average of the Context Encoder).\n\n# Visualizing the Flow\n\nThe shift from Generative to Joint Embedding is a shift from reconstruction to understanding.\n\n```mermaid\nflowchart LR\n    subgraph Generative [\"Generative Model (LLM/Diffusion)\"]\n        direction TB\n        X[Input x] --> E[Encoder]\n        E --> Z[Latent z]\n        Z --> D[Decoder]\n        D --> Y_hat[Predicted x']\n        Y_hat -- \"Loss in Pixel Space\" --> X\n    end\n\n    subgraph JEPA [\"JEPA (Joint Embedding)\"]\n        direction TB\n        X2[Input x] --> E2[Context Enc]\n        Y2[Target y] --> E3[Target Enc]\n        E2 --> S_x[Rep s_x]\n        E3 --> S_y[Rep s_y]\n        S_x --> P[Predictor]\n        P -- \"Predicts Rep\" --> S_y_pred\n        S_y_pred <--> S_y\n        style S_y_pred stroke:#f00,stroke-width:2px\n        style S_y stroke:#0f0,stroke-width:2px\n    end";
+
+export const references: Reference[] = [
+  {
+    "key": "assran2023ijepa",
+    "number": 1,
+    "authors": "M. Assran, Q. Duval, I. Misra et al.",
+    "title": "Self-Supervised Learning from Images with a Joint-Embedding Predictive Architecture",
+    "venue": "Proceedings of the IEEE/CVF Conference on Computer Vision and Pattern Recognition (CVPR)",
+    "year": "2023",
+    "url": "https://arxiv.org/abs/2301.08243"
+  }
+];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>x</mi></mrow><annotation encoding=\"application/x-tex\">x</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.4306em;\"></span><span class=\"mord mathnormal\">x</span></span></span></span>",
+    "tex": "x"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>P</mi><mo stretchy=\"false\">(</mo><mi>x</mi><mi mathvariant=\"normal\">∣</mi><mi>y</mi><mo stretchy=\"false\">)</mo></mrow><annotation encoding=\"application/x-tex\">P(x|y)</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:1em;vertical-align:-0.25em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.1389em;\">P</span><span class=\"mopen\">(</span><span class=\"mord mathnormal\">x</span><span class=\"mord\">∣</span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span><span class=\"mclose\">)</span></span></span></span>",
+    "tex": "P(x|y)"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>x</mi></mrow><annotation encoding=\"application/x-tex\">x</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.4306em;\"></span><span class=\"mord mathnormal\">x</span></span></span></span>",
+    "tex": "x"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>s</mi><mi>x</mi></msub></mrow><annotation encoding=\"application/x-tex\">s_x</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.5806em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">x</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "s_x"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>y</mi></mrow><annotation encoding=\"application/x-tex\">y</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.625em;vertical-align:-0.1944em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0359em;\">y</span></span></span></span>",
+    "tex": "y"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>s</mi><mi>y</mi></msub></mrow><annotation encoding=\"application/x-tex\">s_y</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.7167em;vertical-align:-0.2861em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\" style=\"margin-right:0.0359em;\">y</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2861em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "s_y"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>s</mi><mi>y</mi></msub></mrow><annotation encoding=\"application/x-tex\">s_y</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.7167em;vertical-align:-0.2861em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\" style=\"margin-right:0.0359em;\">y</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2861em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "s_y"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>s</mi><mi>x</mi></msub></mrow><annotation encoding=\"application/x-tex\">s_x</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.5806em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">x</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "s_x"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>z</mi></mrow><annotation encoding=\"application/x-tex\">z</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.4306em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.044em;\">z</span></span></span></span>",
+    "tex": "z"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mtext>Loss</mtext><mo>=</mo><mi>D</mi><mo stretchy=\"false\">(</mo><mtext>Predictor</mtext><mo stretchy=\"false\">(</mo><msub><mi>s</mi><mi>x</mi></msub><mo separator=\"true\">,</mo><mi>z</mi><mo stretchy=\"false\">)</mo><mo separator=\"true\">,</mo><mtext>SG</mtext><mo stretchy=\"false\">(</mo><msub><mi>s</mi><mi>y</mi></msub><mo stretchy=\"false\">)</mo><mo stretchy=\"false\">)</mo></mrow><annotation encoding=\"application/x-tex\">\\text{Loss} = D( \\text{Predictor}(s_x, z), \\text{SG}(s_y) )</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord text\"><span class=\"mord\">Loss</span></span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span><span class=\"mrel\">=</span><span class=\"mspace\" style=\"margin-right:0.2778em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:1.0361em;vertical-align:-0.2861em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">D</span><span class=\"mopen\">(</span><span class=\"mord text\"><span class=\"mord\">Predictor</span></span><span class=\"mopen\">(</span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\">x</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span><span class=\"mpunct\">,</span><span class=\"mspace\" style=\"margin-right:0.1667em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.044em;\">z</span><span class=\"mclose\">)</span><span class=\"mpunct\">,</span><span class=\"mspace\" style=\"margin-right:0.1667em;\"></span><span class=\"mord text\"><span class=\"mord\">SG</span></span><span class=\"mopen\">(</span><span class=\"mord\"><span class=\"mord mathnormal\">s</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.1514em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mathnormal mtight\" style=\"margin-right:0.0359em;\">y</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.2861em;\"><span></span></span></span></span></span></span><span class=\"mclose\">))</span></span></span></span>",
+    "tex": "\\text{Loss} = D( \\text{Predictor}(s_x, z), \\text{SG}(s_y) )"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>D</mi></mrow><annotation encoding=\"application/x-tex\">D</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">D</span></span></span></span>",
+    "tex": "D"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><msub><mi>L</mi><mn>2</mn></msub></mrow><annotation encoding=\"application/x-tex\">L_2</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.8333em;vertical-align:-0.15em;\"></span><span class=\"mord\"><span class=\"mord mathnormal\">L</span><span class=\"msupsub\"><span class=\"vlist-t vlist-t2\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.3011em;\"><span style=\"top:-2.55em;margin-left:0em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mtight\">2</span></span></span></span><span class=\"vlist-s\">​</span></span><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.15em;\"><span></span></span></span></span></span></span></span></span></span>",
+    "tex": "L_2"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>S</mi><mi>G</mi></mrow><annotation encoding=\"application/x-tex\">SG</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0576em;\">S</span><span class=\"mord mathnormal\">G</span></span></span></span>",
+    "tex": "SG"
+  }
+];
+
+export const numbering: NumberedBlock[] = [];
@@ -0,0 +1,28 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# The Rosetta Stone of Neural Networks\n\nLarge Language Models (LLMs) are notoriously opaque. While they can reason about quantum physics or write poetry, if you look at their individual neurons, you find a mess. A single neuron might fire for \"The Golden Gate Bridge,\" \"DNA sequences,\" and \"legal disclaimers\" all at once. This phenomenon is known as **Polysemanticity**.\n\nSparse Autoencoders (SAEs) act as a \"Rosetta Stone.\" By training these smaller, wider helper models on the internal activations of a giant LLM, we can disentangle these overlapping signals into discrete, **monosemantic features**—single dimensions that correspond to specific, human-understandable concepts \\[[1](#ref-gao2024sae)\\].\n\n## The Problem: Superposition\nWhy are LLM neurons messy? The **Superposition Hypothesis** suggests that models try to represent more features than they have dimensions. If a model has 4,096 neurons in a layer but needs to understand 100,000 concepts, it packs them together using \"interference-tolerant\" codes. \n\nTo us, this looks like noise. To the model, it's efficient storage.\n\n## The Solution: Sparse Autoencoders\nAn SAE is a simple unsupervised model trained to reconstruct the activations of the LLM. It consists of:\n1.  **An Encoder**: Projects the dense activations into a much higher-dimensional space (often 16x to 64x wider).\n2.  **A Sparsity Constraint**: A \"bottleneck\" that forces only a handful of these millions of features to be active at any one time (using L1 regularization or Top-K activation).\n3.  **A Decoder**: Attempts to reconstruct the original dense activation from this sparse set.\n\n### Architecture Flow\n```mermaid\ngraph LR\n    A[Input Activation] --> B[Encoder Matrix]\n    B --> C{Sparsity Filter}\n    C -- \"Only k features active\" --> D[Sparse Latents]\n    D --> E[Decoder Matrix]\n    E --> F[Reconstructed Activation]\n    \n    style D fill:#f96,stroke:#333,stroke-width:4px\n    style C fill:#fff,stroke:#333,stroke-dasharray: 5 5\n```\n\n## Implementation: The SAE Core logic\nIn modern research (like OpenAI's June 2024 paper), Top-K SAEs are preferred because they allow direct control over the number of active features, preventing \"dead latents.\"\n\n```python\nimport torch\nimport torch.nn as nn\nimport torch.nn.functional as F\n\nclass TopKSAE(nn.Module):\n    def __init__(self, d_model, d_sae, k=32):\n        super().__init__()\n        self.k = k\n        self.encoder = nn.Linear(d_model, d_sae)\n        self.decoder = nn.Linear(d_sae, d_model)\n        self.b_dec = nn.Parameter(torch.zeros(d_model))\n\n    def forward(self, x):\n        # 1. Encode to high-dimensional space\n        latents_pre = self.encoder(x - self.b_dec)\n        \n        # 2. Top-K Sparsity: Only keep the top k activations\n        topk_values, topk_indices = torch.topk(latents_pre, self.k, dim=-1)\n        latents = torch.zeros_like(latents_pre)\n        latents.scatter_(-1, topk_indices, F.relu(topk_values))\n        \n        # 3. Reconstruct original activations\n        reconstruction = self.decoder(latents) + self.b_dec\n        return reconstruction, latents\n\n# Usage: d_model=4096 (LLM), d_sae=131072 (32x expansion)\n```\n\n## Why This Matters: Model Steering\nOnce we have the SAE, we can \"reach inside\" the model. By manually boosting a specific feature—say, the \"Honesty\" feature—we can actually steer the model's behavior in real-time. Anthropic famously demonstrated this by boosting a \"Golden Gate Bridge\" feature in Claude, causing the model to mention the bridge in every single response, regardless of the prompt.\n\n## Feasibility & Hardware\nTraining SAEs is computationally expensive because they are massive (often having more parameters than the layer they are interpreting). However, once trained, they are highly efficient \"observers.\"\n\n*   **Target**: Middle-layer residual streams.\n*   **Scaling**: OpenAI recently scaled SAEs to 16 million features on GPT-4.\n*   **Impact**: Essential for auditing \"Black Box\" models for hidden biases or dangerous capabilities.\n";
+
+export const references: Reference[] = [
+  {
+    "key": "gao2024sae",
+    "number": 1,
+    "authors": "L. Gao, T. Dupré la Tour, H. Tillman et al.",
+    "title": "Scaling and Evaluating Sparse Autoencoders",
+    "venue": "arXiv:2406.04093",
+    "year": "2024",
+    "url": "https://arxiv.org/abs/2406.04093"
+  }
+];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
@@ -0,0 +1,21 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# Executive Summary\n\nThe \"vibes-based\" era of AI alignment is ending. For years, Reinforcement Learning from Human Feedback (RLHF) has been the gold standard, but it suffers from a fatal flaw: humans are inconsistent, expensive, and easily \"hacked\" by pleasing-but-wrong answers. \n\nThe industry is pivoting toward **Reinforcement Learning from Verifiable Rewards (RLVR)**. In this paradigm, models are trained in environments that provide absolute truth. If a model writes code, it is executed; if it solves math, it is checked by a formal verifier like **Lean** or **Coq**. Coupled with **Synthetic Data Curriculums**, where reasoning models generate error-free \"textbooks,\" we are building a recursive loop of intelligence that no longer depends on the limited supply of high-quality human text.\n\n# The Problem: The Human Feedback Bottleneck\n\nTraditional LLM training relies on two primary data sources:\n1. **The Public Web**: We have largely \"exhausted\" the high-quality human text available.\n2. **Human Labelers**: Humans are slow and struggle to verify complex reasoning (e.g., verifying a 50-step mathematical proof).\n\nWhen models are trained on human preferences, they often learn **sycophancy**—telling the user what they want to hear rather than what is factually correct. To reach \"System 2\" thinking (deliberative reasoning), models need a hard \"No\" when they are wrong.\n\n# The Solution: Objective Verification & RLVR\n\n### 1. The RLVR Paradigm\nRLVR (Reinforcement Learning from Verifiable Rewards) replaces the neural Reward Model (which predicts what a human would like) with a **Programmatic Verifier**. \n\n- **Code Execution**: The model writes Python/SQL; the trainer runs the code against unit tests. Success = Reward (1), Failure = Penalty (0).\n- **Formal Math**: The model writes proofs in Lean 4. The Lean compiler checks the logic. If the proof is \"Closed,\" the model is reinforced.\n- **Rule-Based Formatting**: Models like DeepSeek-R1 are rewarded for correctly using `<think>` tags, ensuring the reasoning process remains transparent.\n\n### 2. Synthetic Data Curriculums\nMicrosoft’s **Phi-4** and **DeepSeek-Prover** represent the new frontier: using \"Teacher\" models to create \"Synthetic Textbooks.\"\n- **Recursive Decomposition**: A large model breaks a complex problem into 100 small, verifiable steps.\n- **Error-Free Synthesis**: Only paths that pass the Verifier are kept, creating a \"perfect\" dataset of reasoning trajectories.\n- **Curriculum Learning**: Training starts with \"Grade 1\" synthetic problems and scales in complexity as the model converges.\n\n### 3. The \"Aha Moment\" and Self-Correction\nOne of the most fascinating emergent behaviors observed in DeepSeek-R1 is **self-correction**. Because the model is only rewarded for the *final* correct answer, it learns to treat its own output as a scratchpad.\n\nDuring training, the model might output:\n> \"The integral of x^2 is 2x... wait, no, that's the derivative. Let me backtrack. The integral should be x^3/3.\"\n\nThis \"Aha moment\" isn't explicitly programmed. It emerges naturally because the RL policy discovers that catching and fixing errors leads to higher rewards than blindly guessing. This mimics human \"System 2\" thinking—slow, deliberative, and self-critical.\n\n# Visualizing the Verifier Loop\n\n```mermaid\ngraph TD\n    A[Base Model] -->|Generates CoT| B(Reasoning Trajectory)\n    B --> C{The Verifier}\n    C -->|Code Check| D[REPL / Compiler]\n    C -->|Math Check| E[Lean / Coq Kernel]\n    D -->|Fail| F[Error Logs]\n    E -->|Success| G[Reward +1]\n    F -->|Feedback| A\n    G -->|Reinforce| A\n    H[Synthetic Textbook Generator] -->|Curriculum Seeds| A\n```\n\n## Implementation: A Simple RLVR Trainer (Pseudocode)\nBelow is a conceptual implementation of a Group Relative Policy Optimization (GRPO) loop using a Code Execution Verifier.\n\n```python\nimport torch\nfrom code_executor import PythonREPL\n\ndef compute_verifiable_reward(prompt, completion):\n    \"\"\"\n    Objective reward function: \n    1. Check format (<think> tags)\n    2. Execute code and check output\n    \"\"\"\n    reward = 0.0\n    \n    # 1. Format Reward\n    if \"<think>\" in completion and \"</think>\" in completion:\n        reward += 0.2\n        \n    # 2. Functional Reward (Code Execution)\n    code_block = extract_code(completion)\n    result = PythonREPL.run(code_block, timeout=5)\n    \n    if result.is_correct:\n        reward += 0.8\n    elif result.has_error:\n        reward -= 0.5 # Penalty for syntax errors\n        \n    return reward\n\n# GRPO Training Step (Simplified)\ndef grpo_step(model, prompts):\n    # Sample a group of outputs for each prompt\n    outputs = model.generate(prompts, num_samples=8)\n    \n    # Get rewards for the group\n    rewards = [compute_verifiable_reward(p, o) for p, o in zip(prompts, outputs)]\n    \n    # Normalize rewards within the group (The 'Group Relative' part)\n    mean_reward = torch.mean(rewards)\n    std_reward = torch.std(rewards)\n    advantages = (rewards - mean_reward) / (std_reward + 1e-8)\n    \n    # Update model policy to favor high-advantage paths\n    loss = compute_grpo_loss(model, outputs, advantages)\n    loss.backward()\n    optimizer.step()\n```\n\n## Feasibility & Analysis\n\n| Method | Verification Difficulty | Target Hardwares | Scaling Potential |\n| :--- | :--- | :--- | :--- |\n| Code (Python) | Low (Unit Tests) | H100/A100 Clusters | Infinite (Self-Play) |\n| Math (Lean4) | High (Formalization) | L40S / H100 | Massive (Mathlib growth) |\n| Logic (Truth) | Medium (Consistency) | Edge (Phi-4) | High (Synthetic Textbooks) |\n\nThe transition to objective verification is the key to unlocking \"Expert-Level\" AI. By moving away from human imitation, we allow models to explore reasoning paths that humans might never have considered, as long as they arrive at the provably correct answer.\n";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  },
+  {
+    "label": "Table 1"
+  }
+];
@@ -0,0 +1,18 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# The Rubin Revolution: Engineering for the Trillion-Parameter Era\n\nWith the transition from Blackwell to the **Rubin Architecture**, NVIDIA is moving beyond the \"GPU-first\" mindset into a holistic \"Data Center-as-a-Chip\" philosophy. Rubin isn't just a spec bump; it is a fundamental reconfiguration of compute density and memory bandwidth designed specifically for agentic AI and million-token reasoning.\n\n## 1. Executive Summary\nThe Rubin platform (Production 2H 2026) is not just a GPU; it is a unified AI supercomputer built on **six key chips** designed for extreme co-design. Centered on the **Vera Rubin Superchip**, it combines the custom **Vera CPU** (Arm-based \"Olympus\" cores) with the **Rubin GPU**. Key breakthroughs include the adoption of **HBM4** (delivering 22 TB/s bandwidth), the **NVLink 6** interconnect (3.6 TB/s per GPU), and a specialized **Rubin CPX** accelerator for massive-context inference.\n\n## 2. The Problem: The \"Memory Wall\" and Attention Bottlenecks\nCurrent architectures (Hopper/Blackwell) struggle with two primary constraints:\n1. **Memory Bandwidth:** LLMs are often IO-bound. Even HBM3e cannot feed the sheer FLOPs available in modern SMs (Streaming Multiprocessors).\n2. **Context Fragmentation:** Processing million-token contexts requires massive KV-cache storage, often forcing disaggregated inference which introduces latency.\n\n## 3. The Solution: The \"Six Key Chips\" Architecture\n\nNVIDIA's strict co-design philosophy unites six specialized components into a single logical entity:\n\n### 1. Vera CPU: The \"Olympus\" Cores\nThe **Vera CPU** features **88 custom Arm cores** (codenamed \"Olympus\"), fully compatible with Armv9.2.\n- **Role**: OS management, agentic logic, and data preprocessing.\n- **Throughput**: Optimized for AI factories with high power efficiency.\n- **Interconnect**: NVLink-C2C provides cohesive CPU-GPU memory addressing.\n\n### 2. Rubin GPU: The Engine\nThe **Rubin GPU** is the heavy lifter for training and generation.\n- **Specs**: ~336 billion transistors on TSMC 3nm.\n- **Memory**: **288GB HBM4** delivering a staggering **22 TB/s** bandwidth.\n- **Compute**: **50 PFLOPS** of NVFP4 tensor performance.\n- **Features**: 3rd Gen Transformer Engine with adaptive hardware compression.\n\n### 3. NVLink 6 Switch\nThe backbone of the rack, enabling 3.6 TB/s of bidirectional bandwidth per GPU. It allows 72 GPUs to function as a single 20.7TB HBM4 memory domain.\n\n### 4. ConnectX-9 SuperNIC\nProvides ultra-high throughput network endpoints for scale-out, critical for multi-rack training runs.\n\n### 5. BlueField-4 DPU\nA dual-die package (combining a Grace CPU core) that handles security offload and powers the **Inference Context Memory Storage** platform, enabling efficient KV-cache reuse.\n\n### 6. Spectrum-6 Ethernet Switch\nThe first switch to integrate **Co-Packaged Optics (CPO)**, significantly reducing power and latency for east-west cluster traffic.\n\n### Rubin CPX: The Specialized Accelerator\nDistinct from the main Rubin GPU, the **Rubin CPX** is a cost-optimized, monolithic die featuring **128GB of GDDR7**.\n- **Purpose**: \"Prefill\" / Context Phase. GDDR7 offers massive capacity at lower cost/bandwidth than HBM4, perfect for storing million-token contexts before the compute-heavy decode phase.\n- **Performance**: 30 PFLOPS (NVFP4) and 3x faster attention mechanisms than prior generations.\n\n## 4. Visual Architecture\nThe following diagram illustrates the Vera Rubin NVL144 node topology:\n\n```mermaid\ngraph TD\n    subgraph Vera_Rubin_Superchip\n        CPU[Vera CPU: 88 Custom Cores] <--> C2C[NVLink-C2C 900GB/s]\n        C2C <--> GPU1[Rubin GPU A: 288GB HBM4]\n        C2C <--> GPU2[Rubin GPU B: 288GB HBM4]\n    end\n\n    subgraph Rack_Scale_NVL144\n        Node1[Superchip Node 1] --- NV6[NVLink 6 Switch: 260TB/s]\n        Node2[Superchip Node 2] --- NV6\n        NodeN[Superchip Node 36] --- NV6\n        CPX[Rubin CPX Accelerator] --- NV6\n    end\n\n    NV6 --- CX9[ConnectX-9 SuperNIC: 1.6Tbps]\n```\n\n## 5. Implementation: Disaggregated Attention Logic\nRubin architecture encourages \"Disaggregated Inference,\" where the Context Phase (prefill) is handled by CPX units, and the Generation Phase (decode) is handled by standard Rubin GPUs.\n\n```python\n# Conceptual Python logic for Rubin Disaggregated Inference\nclass RubinInferenceEngine:\n    def __init__(self):\n        self.cpx_cluster = \"Context_Processing_Extension\" # Optimized for Prefill\n        self.rubin_cluster = \"Standard_Rubin_GPU\"        # Optimized for Decoding\n\n    def run_inference(self, prompt_tokens):\n        # Phase 1: Context Prefill on CPX\n        # CPX utilizes 3x faster attention hardware\n        kv_cache = self.cpx_cluster.prefill(prompt_tokens)\n        \n        # Phase 2: Handover via NVLink 6\n        # 3.6 TB/s transfer speed minimizes handover latency\n        self.rubin_cluster.receive_cache(kv_cache)\n        \n        # Phase 3: Token Generation\n        return self.rubin_cluster.generate_tokens()\n\n# Rubin NVL144 achieves 3.6 EFLOPS of FP4 performance\n```\n\n## 6. Feasibility & Future Scaling\n*   **Power**: The Rubin Ultra (2027) will push rack density to 600kW, requiring total liquid immersion (zero fans).\n*   **Thermal**: Vera Rubin systems use 40°C inlet water cooling to manage the 2000W+ TGP of the combined Superchip.\n*   **Roadmap**: Rubin (2026) -> Rubin Ultra (2027) -> Feynman (2028).\n";
+
+export const references: Reference[] = [];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
@@ -0,0 +1,41 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# Executive Summary\nFor years, the Transformer’s self-attention mechanism was the gold standard, but it carried a hidden tax: computational and memory costs that grow quadratically ($O(N^2)$) with text length. In 2026, we are witnessing a paradigm shift. Sub-quadratic architectures—led by State Space Models (SSMs) and Hybrid designs—are delivering linear scaling ($O(N)$), enabling 256K+ token contexts on consumer hardware without the massive KV-cache overhead.\n\n# The Problem: The Quadratic Tax\nIn a standard Transformer, every token must attend to every other token. This creates an $N \\times N$ attention matrix.\n- **Computation**: Doubling the sequence length quadruples the operations.\n- **Memory**: The Key-Value (KV) cache grows linearly, eventually swallowing all available VRAM, leading to the \"context ceiling.\"\n\n# The Solution: Selective State Space Models (SSMs)\nThe breakthrough came with **Mamba** and its evolution, **Mamba-2**. Unlike traditional RNNs that lose information over time, Mamba uses a **Selective Scan** mechanism \\[[1](#ref-gu2023mamba)\\]. It allows the model to \"choose\" what to remember and what to forget based on the input, effectively mimicking the reasoning of attention but through a recurrent linear state.\n\n### The Hybrid Era: Jamba\nThe current \"production\" favorite isn't pure SSM, but the **Jamba-style hybrid**. \n- **Transformer Layers**: Retained for high-quality associative recall and complex reasoning (e.g., 1 out of every 8 layers).\n- **SSM Layers (Mamba)**: Used for the bulk of processing to keep memory usage flat.\n- **MoE (Mixture of Experts)**: Layers are further expanded via MoE to increase capacity without increasing active parameter counts.\n\n# Visualizing the Architecture\nBelow is the data flow for a Jamba-style hybrid block, alternating between dense attention and selective state transitions.\n\n```mermaid\ngraph TD\n    Input[Input Tokens] --> Emb[Embedding]\n    Emb --> H1[Mamba Layer 1: Linear Scaling]\n    H1 --> H2[Mamba Layer 2: Linear Scaling]\n    H2 --> H3[Attention Layer: Global Reasoning]\n    H3 --> H4[Mamba Layer 3: Linear Scaling]\n    H4 --> MoE[MoE MLP Block]\n    MoE --> Output[Output Logits]\n    \n    subgraph \"SSM State\"\n    H1 -.-> |h_t| H2\n    H2 -.-> |h_t| H4\n    end\n```\n\n## Implementation: Selective State Logic\nThe core of sub-quadratic scaling lies in the discretization of the continuous state space. In PyTorch-like logic:\n\n```python\nimport torch\nimport torch.nn as nn\n\nclass SelectiveSSM(nn.Module):\n    def __init__(self, d_model, d_state=16):\n        super().__init__()\n        self.A = nn.Parameter(torch.randn(d_model, d_state))\n        self.B_proj = nn.Linear(d_model, d_state) # Input dependent\n        self.C_proj = nn.Linear(d_model, d_state) # Input dependent\n        self.dt_proj = nn.Linear(d_model, 1)       # Input dependent step size\n\n    def forward(self, x):\n        # x: [batch, seq_len, d_model]\n        # Calculate input-dependent parameters (The \"Selection\")\n        B = self.B_proj(x)\n        C = self.C_proj(x)\n        dt = torch.exp(self.dt_proj(x))\n        \n        # Discretization (Simplified)\n        # h_t = (A * dt)h_{t-1} + (B * dt)x_t\n        # This can be computed in O(N) using a parallel scan algorithm\n        return self.parallel_scan(x, dt, self.A, B, C)\n```\n\n## Feasibility & 2026 Hardware Targets\n*   **Inference**: SSMs achieve 5x higher throughput than Transformers for long sequences.\n*   **VRAM**: A Jamba-style model can handle a 256K context with 10x less KV-cache memory compared to a Llama-3 variant.\n*   **Target**: NVIDIA RTX 50-series and specialized edge NPU architectures are now optimized for the \"Scan\" primitive, making these models faster than Transformers even at short sequence lengths.\n";
+
+export const references: Reference[] = [
+  {
+    "key": "gu2023mamba",
+    "number": 1,
+    "authors": "A. Gu, T. Dao",
+    "title": "Mamba: Linear-Time Sequence Modeling with Selective State Spaces",
+    "venue": "arXiv:2312.00752",
+    "year": "2023",
+    "url": "https://arxiv.org/abs/2312.00752"
+  }
+];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>O</mi><mo stretchy=\"false\">(</mo><msup><mi>N</mi><mn>2</mn></msup><mo stretchy=\"false\">)</mo></mrow><annotation encoding=\"application/x-tex\">O(N^2)</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:1.0641em;vertical-align:-0.25em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">O</span><span class=\"mopen\">(</span><span class=\"mord\"><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span><span class=\"msupsub\"><span class=\"vlist-t\"><span class=\"vlist-r\"><span class=\"vlist\" style=\"height:0.8141em;\"><span style=\"top:-3.063em;margin-right:0.05em;\"><span class=\"pstrut\" style=\"height:2.7em;\"></span><span class=\"sizing reset-size6 size3 mtight\"><span class=\"mord mtight\">2</span></span></span></span></span></span></span></span><span class=\"mclose\">)</span></span></span></span>",
+    "tex": "O(N^2)"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>O</mi><mo stretchy=\"false\">(</mo><mi>N</mi><mo stretchy=\"false\">)</mo></mrow><annotation encoding=\"application/x-tex\">O(N)</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:1em;vertical-align:-0.25em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.0278em;\">O</span><span class=\"mopen\">(</span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span><span class=\"mclose\">)</span></span></span></span>",
+    "tex": "O(N)"
+  },
+  {
+    "html": "<span class=\"katex\"><span class=\"katex-mathml\"><math xmlns=\"http://www.w3.org/1998/Math/MathML\"><semantics><mrow><mi>N</mi><mo>×</mo><mi>N</mi></mrow><annotation encoding=\"application/x-tex\">N \\times N</annotation></semantics></math></span><span class=\"katex-html\" aria-hidden=\"true\"><span class=\"base\"><span class=\"strut\" style=\"height:0.7667em;vertical-align:-0.0833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span><span class=\"mspace\" style=\"margin-right:0.2222em;\"></span><span class=\"mbin\">×</span><span class=\"mspace\" style=\"margin-right:0.2222em;\"></span></span><span class=\"base\"><span class=\"strut\" style=\"height:0.6833em;\"></span><span class=\"mord mathnormal\" style=\"margin-right:0.109em;\">N</span></span></span></span>",
+    "tex": "N \\times N"
+  }
+];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
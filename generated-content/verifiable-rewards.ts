@@ -0,0 +1,28 @@
+// This file is auto-generated. Do not edit manually.
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = "\n# The Death of the \"Vibe Check\"\n\nFor years, Large Language Models (LLMs) were aligned using **RLHF** (Reinforcement Learning from Human Feedback). We hired humans to rank outputs, effectively teaching models to \"sound\" smart, polite, and helpful. \n\nBut RLHF has a ceiling. Humans are subjective, expensive, and easily fooled by **sycophancy**—where a model gives a wrong answer simply because it sounds more confident or aligns with the user's bias. \n\nEnter **Reinforcement Learning from Verifiable Rewards (RLVR)**. This is the \"secret sauce\" behind the recent reasoning breakthrough. Instead of asking a human \"Does this look right?\", we ask a compiler, a math solver, or a logic engine: **\"Does this work?\"**\n\n## The Problem: The RLHF Bottleneck\nRLHF relies on a **Reward Model (RM)** that is itself a neural network trained on human preferences. This creates two major issues:\n1. **Reward Hacking**: Models find loopholes in the RM to get high scores without being actually correct.\n2. **Signal Noise**: If a math problem is too complex for the human annotator, the feedback becomes garbage.\n\n## The Solution: Verifiable Rewards\nRLVR replaces the subjective Reward Model with a **deterministic verifier**. \n\n- **Math**: Check the final answer against a symbolic solver (e.g., LaTeX/SymPy).\n- **Code**: Run the generated code against unit tests.\n- **Logic**: Verify the constraints of a puzzle using a SAT solver.\n\n### The Architecture: GRPO and the Verification Loop\nDeepSeek-R1 popularized **Group Relative Policy Optimization (GRPO)** \\[[1](#ref-deepseek2025r1)\\]. Unlike traditional PPO, which requires a massive \"Critic\" model to estimate rewards, GRPO samples a group of outputs and rewards them based on their relative performance against the **ground truth**.\n\n```mermaid\ngraph TD\n    A[Prompt: Solve for X] --> B[Base Model]\n    B --> C{Sample K Responses}\n    C --> D1[Response 1]\n    C --> D2[Response 2]\n    C --> D3[Response 3]\n    D1 --> E[Verifier / Compiler]\n    D2 --> E\n    D3 --> E\n    E --> F{Correct?}\n    F -- Yes --> G[+1 Reward]\n    F -- No --> H[0 Reward]\n    G --> I[Update Model Policy]\n    H --> I\n```\n\n## Why it's Groundbreaking\nRLVR enables Test-Time Scaling. By rewarding the process of reasoning (long Chains of Thought), models learn to:\n\n*   **Self-Correct**: \"Wait, that calculation is wrong... let me restart.\"\n*   **Backtrack**: \"This logic path leads to a contradiction; let's try another way.\"\n*   **Verify**: The model becomes its own harshest critic because it knows exactly what \"success\" looks like.\n\n## Implementation: A Simple Math Verifier\nIn an RLVR pipeline, the reward function is often a hard-coded script rather than a neural network.\n\n```python\nimport re\n\ndef compute_reward(model_output, ground_truth):\n    \"\"\"\n    A simplified RLVR reward function for Math.\n    Rewards both the presence of thinking tags and the correct answer.\n    \"\"\"\n    # 1. Format Reward: Did the model use <think> tags?\n    format_reward = 0.1 if \"<think>\" in model_output and \"</think>\" in model_output else 0.0\n    \n    # 2. Accuracy Reward: Is the final answer correct?\n    # Extracting the content inside <answer> tags\n    match = re.search(r\"<answer>(.*?)</answer>\", model_output)\n    if match:\n        extracted_answer = match.group(1).strip()\n        if extracted_answer == str(ground_truth):\n            return 1.0 + format_reward\n            \n    return 0.0 + format_reward\n\n# During training, the model explores thousands of reasoning paths.\n# Only the ones that hit the ground truth are reinforced.\n```\n\n## Feasibility & Analysis\nThe beauty of RLVR is its efficiency. DeepSeek-R1-Zero proved that you don't even need Supervised Fine-Tuning (SFT) to start—the model can discover reasoning purely through RL if the rewards are verifiable. This shifts the bottleneck from human labor to compute power, allowing us to scale intelligence by simply letting models \"think\" longer during training.\n";
+
+export const references: Reference[] = [
+  {
+    "key": "deepseek2025r1",
+    "number": 1,
+    "authors": "DeepSeek-AI",
+    "title": "DeepSeek-R1: Incentivizing Reasoning Capability in LLMs via Reinforcement Learning",
+    "venue": "arXiv:2501.12948",
+    "year": "2025",
+    "url": "https://arxiv.org/abs/2501.12948"
+  }
+];
+
+export const images: Record<string, ImageAsset> = {};
+
+export const diagrams: Record<string, string> = {};
+
+export const math: RenderedMath[] = [];
+
+export const numbering: NumberedBlock[] = [
+  {
+    "label": "Listing 1"
+  }
+];
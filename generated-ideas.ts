@@ -1,14 +1,20 @@
 // This file is auto-generated. Do not edit manually.
-import { Idea } from "./types";
+import { Idea, IdeaContent, IdeaLink } from "./types";
 
-export interface IdeaWithContent extends Idea {
-	content: string;
-}
+// True outside production builds: drafts and scheduled ideas are included
+// and pages that are not public show a banner saying so
+export const PREVIEW = true;
 
-export const IDEAS: IdeaWithContent[] = [
+export const IDEAS: Idea[] = [
   {
     "id": "digital-red-queen",
     "markdownPath": "./content/digital-red-queen.md",
+    "title": "Digital Red Queen",
+    "subtitle": "Adversarial Evolution and Weaponized LLMs in Core War",
+    "date": "2026-01-08",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Automated Malware Evolution",
     "tags": [
       "Evolutionary Algorithms",
       "LLMs",
@@ -16,22 +22,66 @@ export const IDEAS: IdeaWithContent[] = [
       "Sakana AI",
       "Cybersecurity"
     ],
-    "title": "\"Digital Red Queen\"",
-    "subtitle": "\"Adversarial Evolution and Weaponized LLMs in Core War\"",
-    "date": "2026-01-08",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"Automated Malware Evolution\"",
-    "readTime": "\"12m\"",
     "coverImage": "https://picsum.photos/seed/redqueen/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/abs/2601.03335",
     "featured": true,
     "simulation": "DigitalRedQueen",
-    "pdfUrl": "https://arxiv.org/abs/2601.03335",
-    "content": "\n# Digital Red Queen: The Arms Race of Bytecode Gladiators\n\nIn a stunning convergence of 1980s hacker culture and modern generative AI, researchers from MIT and Sakana AI have released **Digital Red Queen (DRQ)**. This system uses Large Language Models (LLMs) to breed assembly-language warriors for **Core War**, the legendary programming game where code fights for survival in a shared memory block.\n\nThe results are both fascinating and terrifying. Without any human guidance or handcrafted fitness functions—driven only by the raw binary desire to \"not crash\"—DRQ evolved strategies that mirror the most sophisticated human-designed warriors from the last 40 years.\n\n## The Problem: Static Benchmarks vs. Dynamic Warfare\n\nMost LLM benchmarks are static. We ask a model to write a Python script, we run it, and if it works, we give it a gold star. But the real world, especially in cybersecurity, is adversarial. Attackers evolve, defenders patch, and the cycle repeats.\n\nTraditional evolutionary algorithms struggle with code. Random bit-flipping mutations almost always result in crashes. The search space of functional programs is incredibly sparse. DRQ solves this by using LLMs as \"genetic operators\"—intelligently rewriting code based on battle outcomes rather than random chance.\n\n### Core War: Tron Meets Darwin\nCore War is played in a circular memory buffer. The goal is to force the opponent to execute an illegal instruction, crashing their process.\n\nAs shown in the paper's graphics (see the zoomed-in code snippet), the actual \"Redcode\" assembly is complex, utilizing intricate addressing modes (`$`, `#`, `@`, `>`) to create self-modifying code. The battle arena quickly becomes a chaotic dense grid of instruction pointers and data trails as warriors replicate and bombard memory.\n\n## Convergent Evolution: Finding the Robust Peak\n\nThe most striking finding is that **nature found the Nash equilibrium twice**.\n\nWith zero prior knowledge of Core War strategies, DRQ independently re-discovered the \"Rock-Paper-Scissors\" meta that human experts took decades to map out: **Imps** (fast replicators), **Dwarves** (heavy bombers), and **Scanners** (complex hunters).\n\n![Warrior Behavior Space showing convergent evolution](image_0.png)\n*Visualizing Convergence: The graphic above depicts the \"Warrior Behavior Space.\" Independent evolutionary runs, starting from diverse random points (the outer edges), all converge towards the same central \"Generally Robust\" peak. This visually proves that distinct AI populations independently discovered the same optimal survival strategies.*\n\nAfter **1000 generations**, the AI-bred warriors achieved an **85% win rate** against the Grand Champions of the 1988 International Core War Society tournament. They evolved complex behaviors like \"Imp-spirals\"—warriors that rapidly replicate while simultaneously carpet-bombing memory blocks behind them.\n\n## Implications: The Automated Exploit Engine\n\nWe used to worry about AI hallucinations making up facts. Now, we have to worry about AI \"hallucinations\" evolving into optimized, self-replicating malware.\n\nIf an LLM can optimize assembly code to survive a hostile memory arena, it can theoretically optimize malicious payloads to evade web application firewalls (WAFs), find return-oriented programming (ROP) gadgets for buffer overflows, or maximize side-channel leakage. We are entering an era where software bugs aren't just static flaws; they are food for an evolving digital immune system.\n\n## Implementation: The Red Queen Loop\n\nThe core loop utilizes the LLM as a \"smart mutator\" within a MAP-Elites framework.\n\n```python\ndef evolve_warrior(parent_code, opponent_code, history_log):\n    prompt = f\"\"\"\n    You are an expert Redcode programmer. \n    Your previous warrior lost against this opponent:\n    {opponent_code}\n    \n    Battle Log: {history_log}\n    \n    Task: Analyze why you lost. Rewrite your warrior to \n    counter the opponent's strategy and survive.\n    \"\"\"\n    # The LLM generates a mutation aimed specifically at the current top warrior\n    return llm.generate(prompt)\n\n```\n\nThis simple loop creates a hyper-optimized feedback loop that brute-forces creativity through adversarial pressure.\n\n## Feasibility Analysis\n\nThe beauty of Core War is its lightness; simulating thousands of cycles takes microseconds. The bottleneck is solely LLM inference for mutation steps. While DRQ warriors are confined to the Redcode virtual machine, the *techniques* learned—polymorphism, stealth, anti-debugging—are highly transferable concepts to real-world cybersecurity.\n\n"
+    "visibility": "public",
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 571,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 0
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Digital Red Queen: The Arms Race of Bytecode Gladiators",
+        "id": "digital-red-queen-the-arms-race-of-bytecode-gladiators"
+      },
+      {
+        "depth": 2,
+        "text": "The Problem: Static Benchmarks vs. Dynamic Warfare",
+        "id": "the-problem-static-benchmarks-vs-dynamic-warfare"
+      },
+      {
+        "depth": 3,
+        "text": "Core War: Tron Meets Darwin",
+        "id": "core-war-tron-meets-darwin"
+      },
+      {
+        "depth": 2,
+        "text": "Convergent Evolution: Finding the Robust Peak",
+        "id": "convergent-evolution-finding-the-robust-peak"
+      },
+      {
+        "depth": 2,
+        "text": "Implications: The Automated Exploit Engine",
+        "id": "implications-the-automated-exploit-engine"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: The Red Queen Loop",
+        "id": "implementation-the-red-queen-loop"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility Analysis",
+        "id": "feasibility-analysis"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "control-theoretic-imperative",
     "markdownPath": "./content/control-theoretic-imperative.md",
+    "title": "The Control-Theoretic Imperative",
+    "subtitle": "Why Model Predictive Control, Not Autoregression, Is the Architecture of General Intelligence",
+    "date": "2026-01-07",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "AGI Architecture",
     "tags": [
       "MPC",
       "World Models",
@@ -39,65 +89,176 @@ export const IDEAS: IdeaWithContent[] = [
       "System 2",
       "JEPA"
     ],
-    "title": "\"The Control-Theoretic Imperative\"",
-    "subtitle": "\"Why Model Predictive Control, Not Autoregression, Is the Architecture of General Intelligence\"",
-    "date": "2026-01-07",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"AGI Architecture\"",
-    "readTime": "\"20m\"",
     "coverImage": "https://picsum.photos/seed/mpc/800/600?grayscale",
     "featured": true,
     "simulation": "ControlTheoretic",
-    "content": "\n# The Control-Theoretic Imperative\n## Shifting from Amortized Reflexes to Online Optimization\n\n### Executive Summary\n\nThe contemporary landscape of Artificial Intelligence stands at a paradoxical inflection point. While autoregressive Large Language Models (LLMs) and model-free Deep Reinforcement Learning (DRL) have achieved remarkable feats, they are asymptotically approaching a \"competence wall.\" This report advances a structural thesis: to achieve Artificial General Intelligence (AGI), we must shift from **learning a policy** (amortized reflexes) to **learning a model for planning**. This defines the **Control-Theoretic Imperative**, advocating for Model Predictive Control (MPC) as the cognitive engine of AGI.\n\n### The Problem: The Stagnation of Reflexive Intelligence\n\nCurrent architectures—both autoregressive LLMs and model-free RL policies—are fundamentally **\"System 1\" technologies**. They rely on \"amortized intelligence,\" where computational heavy lifting is performed during training, compressing the solution space into static weights.\n\n*   **Reflexive Execution**: At inference time, these models function reflexively, executing a forward pass that maps states to tokens based on historical correlations.\n*   **The Competence Wall**: They cannot reason over long horizons or adapt to novel physics without retraining. They do not \"think\"; they retrieve.\n\n### The Solution: Model Predictive Control (MPC)\n\nMPC is not merely an algorithm but a cognitive framework predicated on **online, receding-horizon optimization**. Unlike RL, which memorizes optimal actions, MPC solves a fresh optimization problem at every time step.\n\n#### The MPC Loop (System 2)\n1.  **Observe**: Measure the current state $x_k$.\n2.  **Imagine**: Use an internal World Model $f(x, u)$ to stimulate future trajectories.\n3.  **Evaluate**: Score trajectories against a cost function $J$.\n4.  **Act**: Execute the first optimal action $u^*_{k|k}$.\n5.  **Repeat**: At $k+1$, re-measure and re-plan.\n\n### Visualizing the Architecture\n\nThe difference between Amortized RL and MPC is the difference between a cached lookup table and an active reasoning engine.\n\n```mermaid\ngraph TD\n    subgraph \"System 1: Model-Free RL / Autoregression\"\n    S1_Input[State / Context] --> |Policy Value Network| S1_Action[Action / Token]\n    S1_Action --> S1_Env[Environment]\n    S1_Env --> S1_Input\n    end\n\n    subgraph \"System 2: Model Predictive Control\"\n    S2_Input[State x_k] --> S2_Planner{Online Optimizer}\n    S2_Planner --> |Simulate| S2_Model[World Model f]\n    S2_Model --> |Predicted State| S2_Cost[Cost Function J]\n    S2_Cost --> |Gradients / Value| S2_Planner\n    S2_Planner --> |Select Best u| S2_Action[Action u_k]\n    S2_Action --> S2_Env[Environment]\n    S2_Env --> S2_Input\n    end\n```\n\n### Theoretical Foundations: The Divergence\n\nTo rigorously evaluate the suitability of MPC versus RL for AGI, we deconstruct their mathematical formulations. Both solve the Optimal Control Problem, but diverge in handling time.\n\n**Reinforcement Learning (The Bellman Trap)**\n$$V^\\pi(s) = \\mathbb{E}_{a \\sim \\pi, s' \\sim \\mathcal{P}} [r(s,a) + \\gamma V^\\pi(s')]$$\nThe policy $\\pi_\\theta$ is \"compiled\" during training. If the environment shifts, the policy is mathematically incapable of adapting without gradient updates.\n\n**Model Predictive Control (Receding Horizon)**\nAt time $k$, solve:\n$$\\min_{\\mathbf{u}} J_N(x_k, \\mathbf{u}) = \\sum_{i=0}^{N-1} \\ell(x_{k+i|k}, u_{k+i|k}) + V_f(x_{k+N|k})$$\nSubject to dynamics $x_{k+i+1|k} = f(x_{k+i|k}, u_{k+i|k})$ and constraints. This loop implies the agent is never \"done\" thinking. It constantly re-derives the optimal policy locally.\n\n### Comparative Analysis\n\n| Feature | Reinforcement Learning (Model-Free) | Large Language Models (Autoregressive) | Model Predictive Control (Hybrid/AGI) |\n| :--- | :--- | :--- | :--- |\n| **Core Mechanism** | Amortized Policy $\\pi(s)$ | Next-Token Prediction $P(x_{t+1} \\mid x_t)$ | Online Optimization $\\min \\sum Cost$ |\n| **Inference Type** | $O(1)$ Forward Pass (Reflexive) | $O(N)$ Sequential Gen (Reflexive) | Iterative Search/Optimization (Deliberative) |\n| **OOD Robustness** | Low (Fails if $s \\notin \\mathcal{D}_{train}$) | Low (Hallucinates) | High (Re-optimizes for new $s$) |\n| **Sample Efficiency** | Very Low (Billions of steps) | Medium (Trillions of tokens) | High (World Model learns from observation) |\n| **Cognitive Analogy** | System 1 (Intuition/Habit) | System 1 (Association/Speech) | System 2 (Reasoning/Planning) |\n\n### Implementation: The Differentiable MPC Loop\n\nIn modern AGI research (e.g., DiffTORI), the planning process itself is differentiable. Here is a conceptual PyTorch implementation of a simplified MPC planner using a learned World Model.\n\n```python\nimport torch\nimport torch.nn as nn\n\nclass DifferentiableMPC(nn.Module):\n    def __init__(self, world_model, cost_fn, horizon=5):\n        super().__init__()\n        self.world_model = world_model # f(x, u) -> x_next\n        self.cost_fn = cost_fn         # l(x, u) -> scalar\n        self.horizon = horizon\n\n    def forward(self, state, initial_action_guess):\n        # We want to find actions 'u' that minimize cost\n        u_seq = initial_action_guess.clone().requires_grad_(True)\n        optimizer = torch.optim.SGD([u_seq], lr=0.1)\n\n        for optimization_step in range(10): # \"Thinking\" steps\n            optimizer.zero_grad()\n            current_state = state\n            total_cost = 0\n\n            # 1. Unroll the trajectory (Simulate)\n            for t in range(self.horizon):\n                action = u_seq[t]\n                next_state = self.world_model(current_state, action)\n                step_cost = self.cost_fn(next_state, action)\n                \n                total_cost += step_cost\n                current_state = next_state # Recurrent connection\n\n            # 2. Backpropagate through time (Optimization)\n            total_cost.backward()\n            \n            # 3. Update the plan\n            optimizer.step()\n\n        # Return the first optimized action (Receding Horizon)\n        return u_seq[0].detach()\n```\n\n### The Autoregressive Trap & Inference-Time Compute\n\nRecent investigations into scaling laws suggest that parameter scaling is hitting diminishing returns. The breakthrough, exemplified by models like OpenAI's o1 or DeepMind's MuZero, is to introduce **\"thinking time\"**—effectively performing search/optimization at inference.\n\nStandard LLMs lack **Lookahead** and **Backtracking**. They pick a token and commit. This is Single-Shooting without terminal cost. MPC, by contrast, explores the tree of thoughts.\n\n> \"The research indicates that no single inference-time technique consistently performs well... simply scaling search-based inference often diminishes due to Error Propagation.\"\n\nThis reinforces the need for a **Learned World Model** separate from the policy.\n\n### The Convergence: Latent World Models\n\nThe future of AGI is in **Latent World Models** (like **DreamerV3** and **JEPA**).\n*   **DreamerV3**: Performs MPC in a latent space ($z_t$). It imagines trajectories of latent states and optimizes a policy within this \"dream.\"\n*   **JEPA (Yann LeCun)**: Rejects pixel prediction. Predicts abstract **representation**. A house cat has a better world model than GPT-4 because it understands physics, not just texture.\n\n### Conclusion: The \"System 2\" Era\n\nThe era of \"Pure RL\" and \"Pure Autoregression\" is ending. The future AGI architecture will be a Hierarchical Model Predictive Control System:\n1.  **Perception**: Compressing the world into abstract states (JEPA).\n2.  **Memory**: A learned World Model predicting evolution.\n3.  **Values**: A learned Value Function estimating long-term utility.\n4.  **Reasoning**: An online MPC Planner (ToT/DiffTORI) effectively \"thinking\" by simulating trajectories.\n\nIn this paradigm, intelligence is defined not by static knowledge, but by the dynamic capacity to simulate, evaluate, and choose.\n"
-  },
-  {
-    "id": "sub-quadratic-scaling",
-    "markdownPath": "./content/sub-quadratic-scaling.md",
-    "tags": [
-      "Mamba",
-      "Jamba",
-      "State Space Models",
-      "Efficient AI"
+    "visibility": "public",
+    "readTime": "5m",
+    "metrics": {
+      "wordCount": 761,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "The Control-Theoretic Imperative",
+        "id": "the-control-theoretic-imperative"
+      },
+      {
+        "depth": 2,
+        "text": "Shifting from Amortized Reflexes to Online Optimization",
+        "id": "shifting-from-amortized-reflexes-to-online-optimization"
+      },
+      {
+        "depth": 3,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 3,
+        "text": "The Problem: The Stagnation of Reflexive Intelligence",
+        "id": "the-problem-the-stagnation-of-reflexive-intelligence"
+      },
+      {
+        "depth": 3,
+        "text": "The Solution: Model Predictive Control (MPC)",
+        "id": "the-solution-model-predictive-control-mpc"
+      },
+      {
+        "depth": 4,
+        "text": "The MPC Loop (System 2)",
+        "id": "the-mpc-loop-system-2"
+      },
+      {
+        "depth": 3,
+        "text": "Visualizing the Architecture",
+        "id": "visualizing-the-architecture"
+      },
+      {
+        "depth": 3,
+        "text": "Theoretical Foundations: The Divergence",
+        "id": "theoretical-foundations-the-divergence"
+      },
+      {
+        "depth": 3,
+        "text": "Comparative Analysis",
+        "id": "comparative-analysis"
+      },
+      {
+        "depth": 3,
+        "text": "Implementation: The Differentiable MPC Loop",
+        "id": "implementation-the-differentiable-mpc-loop"
+      },
+      {
+        "depth": 3,
+        "text": "The Autoregressive Trap & Inference-Time Compute",
+        "id": "the-autoregressive-trap-inference-time-compute"
+      },
+      {
+        "depth": 3,
+        "text": "The Convergence: Latent World Models",
+        "id": "the-convergence-latent-world-models"
+      },
+      {
+        "depth": 3,
+        "text": "Conclusion: The \"System 2\" Era",
+        "id": "conclusion-the-system-2-era"
+      }
     ],
-    "title": "\"Breaking the Quadratic Wall: The Rise of Sub-Quadratic Scaling\"",
-    "subtitle": "\"Moving beyond Transformers with Mamba, Jamba, and the shift toward linear-time sequence modeling.\"",
-    "date": "2026-01-04",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "Linear Scaling & Constant Memory Inference",
-    "readTime": "\"18m\"",
-    "coverImage": "https://picsum.photos/seed/mamba/800/600?grayscale",
-    "featured": true,
-    "simulation": "SubQuadratic",
-    "pdfUrl": "https://arxiv.org/pdf/2312.00752",
-    "content": "\n# Executive Summary\nFor years, the Transformer’s self-attention mechanism was the gold standard, but it carried a hidden tax: computational and memory costs that grow quadratically ($O(N^2)$) with text length. In 2026, we are witnessing a paradigm shift. Sub-quadratic architectures—led by State Space Models (SSMs) and Hybrid designs—are delivering linear scaling ($O(N)$), enabling 256K+ token contexts on consumer hardware without the massive KV-cache overhead.\n\n# The Problem: The Quadratic Tax\nIn a standard Transformer, every token must attend to every other token. This creates an $N \\times N$ attention matrix.\n- **Computation**: Doubling the sequence length quadruples the operations.\n- **Memory**: The Key-Value (KV) cache grows linearly, eventually swallowing all available VRAM, leading to the \"context ceiling.\"\n\n# The Solution: Selective State Space Models (SSMs)\nThe breakthrough came with **Mamba** and its evolution, **Mamba-2**. Unlike traditional RNNs that lose information over time, Mamba uses a **Selective Scan** mechanism. It allows the model to \"choose\" what to remember and what to forget based on the input, effectively mimicking the reasoning of attention but through a recurrent linear state.\n\n### The Hybrid Era: Jamba\nThe current \"production\" favorite isn't pure SSM, but the **Jamba-style hybrid**. \n- **Transformer Layers**: Retained for high-quality associative recall and complex reasoning (e.g., 1 out of every 8 layers).\n- **SSM Layers (Mamba)**: Used for the bulk of processing to keep memory usage flat.\n- **MoE (Mixture of Experts)**: Layers are further expanded via MoE to increase capacity without increasing active parameter counts.\n\n# Visualizing the Architecture\nBelow is the data flow for a Jamba-style hybrid block, alternating between dense attention and selective state transitions.\n\n```mermaid\ngraph TD\n    Input[Input Tokens] --> Emb[Embedding]\n    Emb --> H1[Mamba Layer 1: Linear Scaling]\n    H1 --> H2[Mamba Layer 2: Linear Scaling]\n    H2 --> H3[Attention Layer: Global Reasoning]\n    H3 --> H4[Mamba Layer 3: Linear Scaling]\n    H4 --> MoE[MoE MLP Block]\n    MoE --> Output[Output Logits]\n    \n    subgraph \"SSM State\"\n    H1 -.-> |h_t| H2\n    H2 -.-> |h_t| H4\n    end\n```\n\n## Implementation: Selective State Logic\nThe core of sub-quadratic scaling lies in the discretization of the continuous state space. In PyTorch-like logic:\n\n```python\nimport torch\nimport torch.nn as nn\n\nclass SelectiveSSM(nn.Module):\n    def __init__(self, d_model, d_state=16):\n        super().__init__()\n        self.A = nn.Parameter(torch.randn(d_model, d_state))\n        self.B_proj = nn.Linear(d_model, d_state) # Input dependent\n        self.C_proj = nn.Linear(d_model, d_state) # Input dependent\n        self.dt_proj = nn.Linear(d_model, 1)       # Input dependent step size\n\n    def forward(self, x):\n        # x: [batch, seq_len, d_model]\n        # Calculate input-dependent parameters (The \"Selection\")\n        B = self.B_proj(x)\n        C = self.C_proj(x)\n        dt = torch.exp(self.dt_proj(x))\n        \n        # Discretization (Simplified)\n        # h_t = (A * dt)h_{t-1} + (B * dt)x_t\n        # This can be computed in O(N) using a parallel scan algorithm\n        return self.parallel_scan(x, dt, self.A, B, C)\n```\n\n## Feasibility & 2026 Hardware Targets\n*   **Inference**: SSMs achieve 5x higher throughput than Transformers for long sequences.\n*   **VRAM**: A Jamba-style model can handle a 256K context with 10x less KV-cache memory compared to a Llama-3 variant.\n*   **Target**: NVIDIA RTX 50-series and specialized edge NPU architectures are now optimized for the \"Scan\" primitive, making these models faster than Transformers even at short sequence lengths.\n"
+    "backlinks": []
   },
   {
     "id": "multi-head-latent-attention",
     "markdownPath": "./content/multi-head-latent-attention.md",
+    "title": "Multi-Head Latent Attention: The Memory-Efficient Future of LLMs",
+    "subtitle": "How DeepSeek-V3 compresses KV caches by 93% using low-rank latent projections and weight absorption.",
+    "date": "2026-01-04",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Massive KV-Cache Reduction",
     "tags": [
       "DeepSeek",
       "MLA",
       "Transformer",
       "Efficiency"
     ],
-    "title": "\"Multi-Head Latent Attention: The Memory-Efficient Future of LLMs\"",
-    "subtitle": "\"How DeepSeek-V3 compresses KV caches by 93% using low-rank latent projections and weight absorption.\"",
-    "date": "2026-01-04",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"Massive KV-Cache Reduction\"",
-    "readTime": "\"15m\"",
     "coverImage": "https://picsum.photos/seed/mla/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2502.07864v1",
     "featured": true,
     "simulation": "MLASimulation",
-    "pdfUrl": "https://arxiv.org/pdf/2502.07864v1",
-    "content": "\n# Executive Summary\n\nAs Large Language Models (LLMs) scale to hundreds of billions of parameters and 100k+ context windows, the **Key-Value (KV) cache** has become the primary bottleneck for inference. Traditional Multi-Head Attention (MHA) and even Grouped-Query Attention (GQA) struggle with memory bandwidth limits. \n\n**Multi-Head Latent Attention (MLA)**, introduced in the DeepSeek-V2 paper, solves this by compressing KV pairs into a low-rank latent vector. Unlike previous compression methods that trade quality for speed, MLA maintains MHA-level performance while reducing the KV cache footprint to roughly **1/57th** of standard MHA.\n\n# The Problem: The KV Cache Wall\n\nIn autoregressive generation, we store the Keys and Values of all previous tokens to avoid recomputing them. \n- **Memory Consumption**: For a model like Llama-3-70B, the KV cache can consume dozens of gigabytes for long sequences.\n- **Bandwidth Bottleneck**: Modern GPUs are so fast that they spend most of their time waiting to fetch KV vectors from VRAM to the processor.\n\n# The Solution: Latent Compression & Weight Absorption\n\nMLA introduces three key innovations:\n\n### 1. Low-Rank KV Compression\nInstead of storing full-dimensional $K$ and $V$ matrices, MLA projects them into a compressed latent vector $c_{KV}$.\n$$c_{KV} = W_{DKV} x_t$$\nwhere $W_{DKV}$ is a down-projection matrix. This $c_{KV}$ is all that is stored in the cache.\n\n### 2. Weight Absorption\nDuring inference, the up-projection matrices used to reconstruct $K$ and $V$ from the latent space can be **mathematically \"absorbed\"** into the Query projection ($W_Q$) and Output projection ($W_O$). \n\nThis is the \"magic trick\" of MLA:\n$$ Attention(Q, K, V) = Softmax(\\frac{Q(W_{UK}c_{KV})^T}{\\sqrt{d}}) (W_{UV}c_{KV}) $$\nBecause matrix multiplication is associative, we can pre-multiply $W_Q$ with $W_{UK}$ (the up-projection for Keys). This means the model **never actually needs to expand the compressed KV cache back to full size in memory**. It computes attention directly against the compressed latent.\n\n### 3. Decoupled RoPE\nRotary Positional Embeddings (RoPE) are sensitive to linear transformations. To allow weight absorption, MLA splits the attention into:\n- **Content Pathway**: Compressed via low-rank latent.\n- **Position Pathway**: A small, separate vector that handles RoPE, ensuring positional information isn't lost during compression.\n\n# Visualizing the MLA Architecture\n\n```mermaid\ngraph TD\n    Input[Input Token X] --> Q_Path[Query Projection]\n    Input --> KV_Path[KV Down-Projection]\n    \n    subgraph Compression_Layer\n        KV_Path --> Latent[Latent Vector c_KV]\n    end\n    \n    Latent --> Cache[(KV Cache)]\n    \n    subgraph Inference_Optimization\n        Cache --> Weight_Absorption{Weight Absorption}\n        Weight_Absorption --> Attn_Score[Attention Computation]\n    end\n    \n    Q_Path --> Attn_Score\n    Attn_Score --> Output[Final Context Vector]\n```\n\n# Implementation (PyTorch)\n\nHere is a simplified version of the MLA logic focusing on the latent compression and weight absorption mechanism.\n\n```python\nimport torch\nimport torch.nn as nn\nimport torch.nn.functional as F\n\nclass MultiHeadLatentAttention(nn.Module):\n    def __init__(self, d_model, n_heads, d_latent, d_head):\n        super().__init__()\n        self.n_heads = n_heads\n        self.d_head = d_head\n        \n        # KV Compression\n        self.kv_down_proj = nn.Linear(d_model, d_latent)\n        self.kv_up_proj = nn.Linear(d_latent, n_heads * d_head * 2) # Keys and Values\n        \n        # Query Projection\n        self.q_proj = nn.Linear(d_model, n_heads * d_head)\n\n    def forward(self, x, cache=None):\n        batch, seq, _ = x.shape\n        \n        # Compress KV\n        latent_kv = self.kv_down_proj(x) # [B, S, d_latent]\n        \n        # In a real MLA implementation, we store latent_kv in the cache\n        # and only up-project during the attention step.\n        kv = self.kv_up_proj(latent_kv)\n        k, v = torch.split(kv, self.n_heads * self.d_head, dim=-1)\n        \n        q = self.q_proj(x)\n        \n        # Reshape for multi-head\n        q = q.view(batch, seq, self.n_heads, self.d_head).transpose(1, 2)\n        k = k.view(batch, seq, self.n_heads, self.d_head).transpose(1, 2)\n        v = v.view(batch, seq, self.n_heads, self.d_head).transpose(1, 2)\n        \n        # Standard Attention logic on the reconstructed/absorbed heads\n        attn = (q @ k.transpose(-2, -1)) * (self.d_head ** -0.5)\n        attn = F.softmax(attn, dim=-1)\n        out = (attn @ v).transpose(1, 2).reshape(batch, seq, -1)\n        \n        return out\n```\n\n# Feasibility Analysis\n\nMLA is currently the gold standard for high-throughput, long-context models. DeepSeek-V3 utilizes it to handle 128k context windows on standard H100 hardware where MHA-based models would OOM (Out of Memory) at 32k. The main constraint is the complexity of implementation; traditional kernels (like FlashAttention) require specific modifications to support the \"weight absorption\" trick efficiently.\n"
+    "visibility": "public",
+    "series": {
+      "id": "deepseek-architecture",
+      "title": "DeepSeek Architecture",
+      "order": 2
+    },
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 405,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 1,
+        "text": "The Problem: The KV Cache Wall",
+        "id": "the-problem-the-kv-cache-wall"
+      },
+      {
+        "depth": 1,
+        "text": "The Solution: Latent Compression & Weight Absorption",
+        "id": "the-solution-latent-compression-weight-absorption"
+      },
+      {
+        "depth": 3,
+        "text": "1. Low-Rank KV Compression",
+        "id": "1-low-rank-kv-compression"
+      },
+      {
+        "depth": 3,
+        "text": "2. Weight Absorption",
+        "id": "2-weight-absorption"
+      },
+      {
+        "depth": 3,
+        "text": "3. Decoupled RoPE",
+        "id": "3-decoupled-rope"
+      },
+      {
+        "depth": 1,
+        "text": "Visualizing the MLA Architecture",
+        "id": "visualizing-the-mla-architecture"
+      },
+      {
+        "depth": 1,
+        "text": "Implementation (PyTorch)",
+        "id": "implementation-pytorch"
+      },
+      {
+        "depth": 1,
+        "text": "Feasibility Analysis",
+        "id": "feasibility-analysis"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "rubin-architecture",
     "markdownPath": "./content/rubin-architecture.md",
+    "title": "Gigascale Intelligence: Deciphering the NVIDIA Rubin Architecture",
+    "subtitle": "Beyond Blackwell: Engineering Million-Token Contexts with HBM4, Vera CPUs, and CPX Accelerators.",
+    "date": "2026-01-04",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Million-Token Context & 600kW Rack Density",
     "tags": [
       "NVIDIA",
       "Rubin",
@@ -105,22 +266,172 @@ export const IDEAS: IdeaWithContent[] = [
       "Vera-CPU",
       "Infrastructure"
     ],
-    "title": "\"Gigascale Intelligence: Deciphering the NVIDIA Rubin Architecture\"",
-    "subtitle": "\"Beyond Blackwell: Engineering Million-Token Contexts with HBM4, Vera CPUs, and CPX Accelerators.\"",
+    "coverImage": "https://picsum.photos/seed/rubin/800/600?grayscale",
+    "pdfUrl": "https://s201.q4cdn.com/141608511/files/doc_downloads/2025/03/GTC2025_Keynote.pdf",
+    "featured": true,
+    "simulation": "RubinArchitecture",
+    "visibility": "public",
+    "readTime": "4m",
+    "metrics": {
+      "wordCount": 559,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "The Rubin Revolution: Engineering for the Trillion-Parameter Era",
+        "id": "the-rubin-revolution-engineering-for-the-trillion-parameter-era"
+      },
+      {
+        "depth": 2,
+        "text": "1. Executive Summary",
+        "id": "1-executive-summary"
+      },
+      {
+        "depth": 2,
+        "text": "2. The Problem: The \"Memory Wall\" and Attention Bottlenecks",
+        "id": "2-the-problem-the-memory-wall-and-attention-bottlenecks"
+      },
+      {
+        "depth": 2,
+        "text": "3. The Solution: The \"Six Key Chips\" Architecture",
+        "id": "3-the-solution-the-six-key-chips-architecture"
+      },
+      {
+        "depth": 3,
+        "text": "1. Vera CPU: The \"Olympus\" Cores",
+        "id": "1-vera-cpu-the-olympus-cores"
+      },
+      {
+        "depth": 3,
+        "text": "2. Rubin GPU: The Engine",
+        "id": "2-rubin-gpu-the-engine"
+      },
+      {
+        "depth": 3,
+        "text": "3. NVLink 6 Switch",
+        "id": "3-nvlink-6-switch"
+      },
+      {
+        "depth": 3,
+        "text": "4. ConnectX-9 SuperNIC",
+        "id": "4-connectx-9-supernic"
+      },
+      {
+        "depth": 3,
+        "text": "5. BlueField-4 DPU",
+        "id": "5-bluefield-4-dpu"
+      },
+      {
+        "depth": 3,
+        "text": "6. Spectrum-6 Ethernet Switch",
+        "id": "6-spectrum-6-ethernet-switch"
+      },
+      {
+        "depth": 3,
+        "text": "Rubin CPX: The Specialized Accelerator",
+        "id": "rubin-cpx-the-specialized-accelerator"
+      },
+      {
+        "depth": 2,
+        "text": "4. Visual Architecture",
+        "id": "4-visual-architecture"
+      },
+      {
+        "depth": 2,
+        "text": "5. Implementation: Disaggregated Attention Logic",
+        "id": "5-implementation-disaggregated-attention-logic"
+      },
+      {
+        "depth": 2,
+        "text": "6. Feasibility & Future Scaling",
+        "id": "6-feasibility-future-scaling"
+      }
+    ],
+    "backlinks": []
+  },
+  {
+    "id": "sub-quadratic-scaling",
+    "markdownPath": "./content/sub-quadratic-scaling.md",
+    "title": "Breaking the Quadratic Wall: The Rise of Sub-Quadratic Scaling",
+    "subtitle": "Moving beyond Transformers with Mamba, Jamba, and the shift toward linear-time sequence modeling.",
     "date": "2026-01-04",
     "status": "RESEARCH",
     "category": "deep-dive",
-    "impact": "Million-Token Context & 600kW Rack Density",
-    "readTime": "\"22m\"",
-    "coverImage": "https://picsum.photos/seed/rubin/800/600?grayscale",
+    "impact": "Linear Scaling & Constant Memory Inference",
+    "tags": [
+      "Mamba",
+      "Jamba",
+      "State Space Models",
+      "Efficient AI"
+    ],
+    "coverImage": "https://picsum.photos/seed/mamba/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2312.00752",
     "featured": true,
-    "simulation": "RubinArchitecture",
-    "pdfUrl": "https://s201.q4cdn.com/141608511/files/doc_downloads/2025/03/GTC2025_Keynote.pdf",
-    "content": "\n# The Rubin Revolution: Engineering for the Trillion-Parameter Era\n\nWith the transition from Blackwell to the **Rubin Architecture**, NVIDIA is moving beyond the \"GPU-first\" mindset into a holistic \"Data Center-as-a-Chip\" philosophy. Rubin isn't just a spec bump; it is a fundamental reconfiguration of compute density and memory bandwidth designed specifically for agentic AI and million-token reasoning.\n\n## 1. Executive Summary\nThe Rubin platform (Production 2H 2026) is not just a GPU; it is a unified AI supercomputer built on **six key chips** designed for extreme co-design. Centered on the **Vera Rubin Superchip**, it combines the custom **Vera CPU** (Arm-based \"Olympus\" cores) with the **Rubin GPU**. Key breakthroughs include the adoption of **HBM4** (delivering 22 TB/s bandwidth), the **NVLink 6** interconnect (3.6 TB/s per GPU), and a specialized **Rubin CPX** accelerator for massive-context inference.\n\n## 2. The Problem: The \"Memory Wall\" and Attention Bottlenecks\nCurrent architectures (Hopper/Blackwell) struggle with two primary constraints:\n1. **Memory Bandwidth:** LLMs are often IO-bound. Even HBM3e cannot feed the sheer FLOPs available in modern SMs (Streaming Multiprocessors).\n2. **Context Fragmentation:** Processing million-token contexts requires massive KV-cache storage, often forcing disaggregated inference which introduces latency.\n\n## 3. The Solution: The \"Six Key Chips\" Architecture\n\nNVIDIA's strict co-design philosophy unites six specialized components into a single logical entity:\n\n### 1. Vera CPU: The \"Olympus\" Cores\nThe **Vera CPU** features **88 custom Arm cores** (codenamed \"Olympus\"), fully compatible with Armv9.2.\n- **Role**: OS management, agentic logic, and data preprocessing.\n- **Throughput**: Optimized for AI factories with high power efficiency.\n- **Interconnect**: NVLink-C2C provides cohesive CPU-GPU memory addressing.\n\n### 2. Rubin GPU: The Engine\nThe **Rubin GPU** is the heavy lifter for training and generation.\n- **Specs**: ~336 billion transistors on TSMC 3nm.\n- **Memory**: **288GB HBM4** delivering a staggering **22 TB/s** bandwidth.\n- **Compute**: **50 PFLOPS** of NVFP4 tensor performance.\n- **Features**: 3rd Gen Transformer Engine with adaptive hardware compression.\n\n### 3. NVLink 6 Switch\nThe backbone of the rack, enabling 3.6 TB/s of bidirectional bandwidth per GPU. It allows 72 GPUs to function as a single 20.7TB HBM4 memory domain.\n\n### 4. ConnectX-9 SuperNIC\nProvides ultra-high throughput network endpoints for scale-out, critical for multi-rack training runs.\n\n### 5. BlueField-4 DPU\nA dual-die package (combining a Grace CPU core) that handles security offload and powers the **Inference Context Memory Storage** platform, enabling efficient KV-cache reuse.\n\n### 6. Spectrum-6 Ethernet Switch\nThe first switch to integrate **Co-Packaged Optics (CPO)**, significantly reducing power and latency for east-west cluster traffic.\n\n### Rubin CPX: The Specialized Accelerator\nDistinct from the main Rubin GPU, the **Rubin CPX** is a cost-optimized, monolithic die featuring **128GB of GDDR7**.\n- **Purpose**: \"Prefill\" / Context Phase. GDDR7 offers massive capacity at lower cost/bandwidth than HBM4, perfect for storing million-token contexts before the compute-heavy decode phase.\n- **Performance**: 30 PFLOPS (NVFP4) and 3x faster attention mechanisms than prior generations.\n\n## 4. Visual Architecture\nThe following diagram illustrates the Vera Rubin NVL144 node topology:\n\n```mermaid\ngraph TD\n    subgraph Vera_Rubin_Superchip\n        CPU[Vera CPU: 88 Custom Cores] <--> C2C[NVLink-C2C 900GB/s]\n        C2C <--> GPU1[Rubin GPU A: 288GB HBM4]\n        C2C <--> GPU2[Rubin GPU B: 288GB HBM4]\n    end\n\n    subgraph Rack_Scale_NVL144\n        Node1[Superchip Node 1] --- NV6[NVLink 6 Switch: 260TB/s]\n        Node2[Superchip Node 2] --- NV6\n        NodeN[Superchip Node 36] --- NV6\n        CPX[Rubin CPX Accelerator] --- NV6\n    end\n\n    NV6 --- CX9[ConnectX-9 SuperNIC: 1.6Tbps]\n```\n\n## 5. Implementation: Disaggregated Attention Logic\nRubin architecture encourages \"Disaggregated Inference,\" where the Context Phase (prefill) is handled by CPX units, and the Generation Phase (decode) is handled by standard Rubin GPUs.\n\n```python\n# Conceptual Python logic for Rubin Disaggregated Inference\nclass RubinInferenceEngine:\n    def __init__(self):\n        self.cpx_cluster = \"Context_Processing_Extension\" # Optimized for Prefill\n        self.rubin_cluster = \"Standard_Rubin_GPU\"        # Optimized for Decoding\n\n    def run_inference(self, prompt_tokens):\n        # Phase 1: Context Prefill on CPX\n        # CPX utilizes 3x faster attention hardware\n        kv_cache = self.cpx_cluster.prefill(prompt_tokens)\n        \n        # Phase 2: Handover via NVLink 6\n        # 3.6 TB/s transfer speed minimizes handover latency\n        self.rubin_cluster.receive_cache(kv_cache)\n        \n        # Phase 3: Token Generation\n        return self.rubin_cluster.generate_tokens()\n\n# Rubin NVL144 achieves 3.6 EFLOPS of FP4 performance\n```\n\n## 6. Feasibility & Future Scaling\n*   **Power**: The Rubin Ultra (2027) will push rack density to 600kW, requiring total liquid immersion (zero fans).\n*   **Thermal**: Vera Rubin systems use 40°C inlet water cooling to manage the 2000W+ TGP of the combined Superchip.\n*   **Roadmap**: Rubin (2026) -> Rubin Ultra (2027) -> Feynman (2028).\n"
+    "simulation": "SubQuadratic",
+    "visibility": "public",
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 352,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 1,
+        "text": "The Problem: The Quadratic Tax",
+        "id": "the-problem-the-quadratic-tax"
+      },
+      {
+        "depth": 1,
+        "text": "The Solution: Selective State Space Models (SSMs)",
+        "id": "the-solution-selective-state-space-models-ssms"
+      },
+      {
+        "depth": 3,
+        "text": "The Hybrid Era: Jamba",
+        "id": "the-hybrid-era-jamba"
+      },
+      {
+        "depth": 1,
+        "text": "Visualizing the Architecture",
+        "id": "visualizing-the-architecture"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: Selective State Logic",
+        "id": "implementation-selective-state-logic"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility & 2026 Hardware Targets",
+        "id": "feasibility-2026-hardware-targets"
+      },
+      {
+        "depth": 2,
+        "text": "References",
+        "id": "references"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "asahi-m1n1",
     "markdownPath": "./content/asahi-m1n1.md",
+    "title": "Asahi Linux m1n1: The Hardware Puppeteer",
+    "subtitle": "Reverse engineering Apple Silicon through real-time MMIO tracing and Python-based hypervisors.",
+    "date": "2026-01-02",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Hardware Freedom",
     "tags": [
       "Asahi Linux",
       "Hypervisor",
@@ -128,22 +439,86 @@ export const IDEAS: IdeaWithContent[] = [
       "Apple Silicon",
       "ARM64"
     ],
-    "title": "Asahi Linux m1n1: The Hardware Puppeteer",
-    "subtitle": "Reverse engineering Apple Silicon through real-time MMIO tracing and Python-based hypervisors.",
-    "date": "2026-01-02",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "Hardware Freedom",
-    "readTime": "15m",
     "coverImage": "https://picsum.photos/seed/asahi/800/600?grayscale",
+    "githubUrl": "https://github.com/AsahiLinux/m1n1",
     "featured": false,
     "simulation": "AsahiM1n1",
-    "githubUrl": "https://github.com/AsahiLinux/m1n1",
-    "content": "\n# Asahi Linux m1n1: The Hardware Puppeteer\n\n### Executive Summary\n\nThe transition to Apple Silicon presented a monumental challenge for the Linux community: a completely undocumented, proprietary hardware ecosystem. The Asahi Linux team's solution wasn't just to guess, but to build a sophisticated observation deck. **m1n1** is a lightweight hypervisor that acts as a \"man-in-the-middle\" between macOS and the hardware, allowing researchers to trace every single register access in real-time.\n\nBy trapping Memory-Mapped I/O (MMIO) accesses, the team can observe exactly how macOS drivers interact with the hardware, effectively turning the proprietary OS into a live documentation source.\n\n---\n\n## The Problem: The Black Box of Apple Silicon\n\nTraditional reverse engineering often involves disassembling binary drivers—a tedious, error-prone process that can run into legal gray areas. Apple's hardware is particularly complex, with thousands of undocumented registers controlling everything from the GPU to the power management controller.\n\nWithout documentation, writing a Linux driver is like trying to fly a plane where every button is unlabeled and some buttons might cause the engine to explode if pressed in the wrong order.\n\n---\n\n## The Solution: The m1n1 Hypervisor\n\nThe m1n1 hypervisor runs at **Exception Level 2 (EL2)**, the highest privilege level on ARM64. It boots macOS as a guest at EL1. \n\n### The MMIO Trap Mechanism\n\nThe core \"magic\" of m1n1 lies in its manipulation of the Stage 2 translation tables. \n1. **Direct Mapping**: Normal RAM is mapped 1:1, allowing macOS to run at near-native speed.\n2. **The Trap**: MMIO regions (where hardware registers live) are deliberately left unmapped or marked as \"faulting\" in the page tables.\n3. **The Abort**: When macOS tries to read or write to a hardware register, the CPU triggers a **Data Abort**.\n4. **The Trace**: m1n1 intercepts this abort, logs the access (Address, Value, PC), performs the operation on behalf of the guest, and resumes execution.\n\n```mermaid\nsequenceDiagram\n    participant macOS as macOS (EL1)\n    participant m1n1 as m1n1 Hypervisor (EL2)\n    participant HW as Apple Hardware\n\n    macOS->>HW: Write 0x1 to Register 0x238000\n    Note over macOS,HW: MMIO Region is Unmapped!\n    HW-->>m1n1: Data Abort Exception\n    Note over m1n1: Log: PC=0xffff... Write Addr=0x238000 Val=0x1\n    m1n1->>HW: Actual Hardware Write\n    m1n1-->>macOS: Resume Execution\n```\n\n---\n\n## Implementation: Python-Based Puppeteering\n\nWhat sets m1n1 apart is its **Python integration**. The hypervisor can be controlled via a USB connection from a host machine. This allows for \"live\" reverse engineering.\n\n### The Proxy Client\n\nThe `proxyclient` is a Python library that communicates with m1n1 over a serial port (UART over USB). It allows researchers to:\n- **Read/Write Memory**: Inspect and modify RAM and registers live.\n- **Trace MMIO**: Set up traps for specific address ranges.\n- **Chainload**: Load new versions of m1n1 or Linux kernels without rebooting.\n\n```python\n# Example of a m1n1 Python script tracing a specific device\nfrom m1n1.proxy import Proxy\n\np = Proxy()\n# Trace all accesses to the UART controller\np.trace_mmio(0x235e0000, 0x1000, \"UART\")\n\n# We can even intercept and modify values on the fly!\ndef on_mmio_write(addr, val):\n    print(f\"macOS tried to write {hex(val)} to {hex(addr)}\")\n    return val # Or return a modified value to see what happens\n\np.set_mmio_handler(0x235e0000, on_mmio_write)\n```\n\n---\n\n## The Boot Chain: Bridging Two Worlds\n\nApple Silicon Macs boot in a way that is closer to an iPhone than a PC. m1n1 acts as the bridge between Apple's proprietary `iBoot` and the standard Linux world.\n\n```mermaid\ngraph TD\n    SecureROM[SecureROM] --> iBoot1[iBoot1]\n    iBoot1 --> iBoot2[iBoot2]\n    iBoot2 --> m1n1[m1n1 Stage 1]\n    m1n1 --> m1n1_2[m1n1 Stage 2 + Payloads]\n    m1n1_2 --> UBoot[U-Boot]\n    UBoot --> GRUB[GRUB]\n    GRUB --> Linux[Linux Kernel]\n```\n\n---\n\n## Feasibility and Impact\n\nm1n1 has been the cornerstone of Asahi Linux's success. It allowed for the rapid development of drivers for the M1/M2/M3 GPUs, display controllers, and audio systems. \n\n### Hardware Targets\n* **Apple M1/M2/M3 Series**: Full support for tracing and debugging.\n* **Host Machine**: Any Linux/macOS machine with a USB-C connection to the target Mac.\n\n### Conclusion\n\nm1n1 proves that when hardware is a black box, the best tool isn't a static analyzer, but a dynamic one. By becoming the \"ground truth\" between the OS and the silicon, m1n1 has enabled a new era of hardware freedom on the most advanced consumer silicon available today.\n"
+    "visibility": "public",
+    "readTime": "4m",
+    "metrics": {
+      "wordCount": 533,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 2
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Asahi Linux m1n1: The Hardware Puppeteer",
+        "id": "asahi-linux-m1n1-the-hardware-puppeteer"
+      },
+      {
+        "depth": 3,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 2,
+        "text": "The Problem: The Black Box of Apple Silicon",
+        "id": "the-problem-the-black-box-of-apple-silicon"
+      },
+      {
+        "depth": 2,
+        "text": "The Solution: The m1n1 Hypervisor",
+        "id": "the-solution-the-m1n1-hypervisor"
+      },
+      {
+        "depth": 3,
+        "text": "The MMIO Trap Mechanism",
+        "id": "the-mmio-trap-mechanism"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: Python-Based Puppeteering",
+        "id": "implementation-python-based-puppeteering"
+      },
+      {
+        "depth": 3,
+        "text": "The Proxy Client",
+        "id": "the-proxy-client"
+      },
+      {
+        "depth": 2,
+        "text": "The Boot Chain: Bridging Two Worlds",
+        "id": "the-boot-chain-bridging-two-worlds"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility and Impact",
+        "id": "feasibility-and-impact"
+      },
+      {
+        "depth": 3,
+        "text": "Hardware Targets",
+        "id": "hardware-targets"
+      },
+      {
+        "depth": 3,
+        "text": "Conclusion",
+        "id": "conclusion"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "verifiable-rewards",
     "markdownPath": "./content/verifiable-rewards.md",
+    "title": "Beyond the Vibes: Why Verifiable Rewards (RLVR) is the New Scaling Law",
+    "subtitle": "Moving from subjective human 'vibes' to objective ground-truth verification in the quest for AGI reasoning.",
+    "date": "2025-01-24",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Reliable Machine Reasoning",
     "tags": [
       "Reinforcement Learning",
       "RLVR",
@@ -151,22 +526,76 @@ export const IDEAS: IdeaWithContent[] = [
       "GRPO",
       "AI Safety"
     ],
-    "title": "\"Beyond the Vibes: Why Verifiable Rewards (RLVR) is the New Scaling Law\"",
-    "subtitle": "\"Moving from subjective human 'vibes' to objective ground-truth verification in the quest for AGI reasoning.\"",
-    "date": "2025-01-24",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"Reliable Machine Reasoning\"",
-    "readTime": "\"12m\"",
     "coverImage": "https://picsum.photos/seed/reasoning/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2501.12948",
     "featured": true,
     "simulation": "RLVR",
-    "pdfUrl": "https://arxiv.org/pdf/2501.12948",
-    "content": "\n# The Death of the \"Vibe Check\"\n\nFor years, Large Language Models (LLMs) were aligned using **RLHF** (Reinforcement Learning from Human Feedback). We hired humans to rank outputs, effectively teaching models to \"sound\" smart, polite, and helpful. \n\nBut RLHF has a ceiling. Humans are subjective, expensive, and easily fooled by **sycophancy**—where a model gives a wrong answer simply because it sounds more confident or aligns with the user's bias. \n\nEnter **Reinforcement Learning from Verifiable Rewards (RLVR)**. This is the \"secret sauce\" behind the recent reasoning breakthrough. Instead of asking a human \"Does this look right?\", we ask a compiler, a math solver, or a logic engine: **\"Does this work?\"**\n\n## The Problem: The RLHF Bottleneck\nRLHF relies on a **Reward Model (RM)** that is itself a neural network trained on human preferences. This creates two major issues:\n1. **Reward Hacking**: Models find loopholes in the RM to get high scores without being actually correct.\n2. **Signal Noise**: If a math problem is too complex for the human annotator, the feedback becomes garbage.\n\n## The Solution: Verifiable Rewards\nRLVR replaces the subjective Reward Model with a **deterministic verifier**. \n\n- **Math**: Check the final answer against a symbolic solver (e.g., LaTeX/SymPy).\n- **Code**: Run the generated code against unit tests.\n- **Logic**: Verify the constraints of a puzzle using a SAT solver.\n\n### The Architecture: GRPO and the Verification Loop\nDeepSeek-R1 popularized **Group Relative Policy Optimization (GRPO)**. Unlike traditional PPO, which requires a massive \"Critic\" model to estimate rewards, GRPO samples a group of outputs and rewards them based on their relative performance against the **ground truth**.\n\n```mermaid\ngraph TD\n    A[Prompt: Solve for X] --> B[Base Model]\n    B --> C{Sample K Responses}\n    C --> D1[Response 1]\n    C --> D2[Response 2]\n    C --> D3[Response 3]\n    D1 --> E[Verifier / Compiler]\n    D2 --> E\n    D3 --> E\n    E --> F{Correct?}\n    F -- Yes --> G[+1 Reward]\n    F -- No --> H[0 Reward]\n    G --> I[Update Model Policy]\n    H --> I\n```\n\n## Why it's Groundbreaking\nRLVR enables Test-Time Scaling. By rewarding the process of reasoning (long Chains of Thought), models learn to:\n\n*   **Self-Correct**: \"Wait, that calculation is wrong... let me restart.\"\n*   **Backtrack**: \"This logic path leads to a contradiction; let's try another way.\"\n*   **Verify**: The model becomes its own harshest critic because it knows exactly what \"success\" looks like.\n\n## Implementation: A Simple Math Verifier\nIn an RLVR pipeline, the reward function is often a hard-coded script rather than a neural network.\n\n```python\nimport re\n\ndef compute_reward(model_output, ground_truth):\n    \"\"\"\n    A simplified RLVR reward function for Math.\n    Rewards both the presence of thinking tags and the correct answer.\n    \"\"\"\n    # 1. Format Reward: Did the model use <think> tags?\n    format_reward = 0.1 if \"<think>\" in model_output and \"</think>\" in model_output else 0.0\n    \n    # 2. Accuracy Reward: Is the final answer correct?\n    # Extracting the content inside <answer> tags\n    match = re.search(r\"<answer>(.*?)</answer>\", model_output)\n    if match:\n        extracted_answer = match.group(1).strip()\n        if extracted_answer == str(ground_truth):\n            return 1.0 + format_reward\n            \n    return 0.0 + format_reward\n\n# During training, the model explores thousands of reasoning paths.\n# Only the ones that hit the ground truth are reinforced.\n```\n\n## Feasibility & Analysis\nThe beauty of RLVR is its efficiency. DeepSeek-R1-Zero proved that you don't even need Supervised Fine-Tuning (SFT) to start—the model can discover reasoning purely through RL if the rewards are verifiable. This shifts the bottleneck from human labor to compute power, allowing us to scale intelligence by simply letting models \"think\" longer during training.\n"
+    "visibility": "public",
+    "series": {
+      "id": "verifiable-rewards",
+      "title": "Verifiable Rewards",
+      "order": 2
+    },
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 407,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "The Death of the \"Vibe Check\"",
+        "id": "the-death-of-the-vibe-check"
+      },
+      {
+        "depth": 2,
+        "text": "The Problem: The RLHF Bottleneck",
+        "id": "the-problem-the-rlhf-bottleneck"
+      },
+      {
+        "depth": 2,
+        "text": "The Solution: Verifiable Rewards",
+        "id": "the-solution-verifiable-rewards"
+      },
+      {
+        "depth": 3,
+        "text": "The Architecture: GRPO and the Verification Loop",
+        "id": "the-architecture-grpo-and-the-verification-loop"
+      },
+      {
+        "depth": 2,
+        "text": "Why it's Groundbreaking",
+        "id": "why-its-groundbreaking"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: A Simple Math Verifier",
+        "id": "implementation-a-simple-math-verifier"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility & Analysis",
+        "id": "feasibility-analysis"
+      },
+      {
+        "depth": 2,
+        "text": "References",
+        "id": "references"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "objective-verification-rlvr",
     "markdownPath": "./content/objective-verification-rlvr.md",
+    "title": "The Shift to Objective Verification",
+    "subtitle": "Moving from human 'vibes' to ground-truth feedback loops with RLVR and Synthetic Textbooks.",
+    "date": "2025-01-04",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Reliable Reasoning",
     "tags": [
       "RLVR",
       "Synthetic Data",
@@ -174,125 +603,537 @@ export const IDEAS: IdeaWithContent[] = [
       "Formal Verification",
       "Lean4"
     ],
-    "title": "\"The Shift to Objective Verification\"",
-    "subtitle": "\"Moving from human 'vibes' to ground-truth feedback loops with RLVR and Synthetic Textbooks.\"",
-    "date": "2025-01-04",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "Reliable Reasoning",
-    "readTime": "\"15m\"",
     "coverImage": "https://picsum.photos/seed/verification/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2501.12948",
     "featured": true,
     "simulation": "ObjectiveVerifier",
-    "pdfUrl": "https://arxiv.org/pdf/2501.12948 # DeepSeek-R1 Paper",
-    "content": "\n# Executive Summary\n\nThe \"vibes-based\" era of AI alignment is ending. For years, Reinforcement Learning from Human Feedback (RLHF) has been the gold standard, but it suffers from a fatal flaw: humans are inconsistent, expensive, and easily \"hacked\" by pleasing-but-wrong answers. \n\nThe industry is pivoting toward **Reinforcement Learning from Verifiable Rewards (RLVR)**. In this paradigm, models are trained in environments that provide absolute truth. If a model writes code, it is executed; if it solves math, it is checked by a formal verifier like **Lean** or **Coq**. Coupled with **Synthetic Data Curriculums**, where reasoning models generate error-free \"textbooks,\" we are building a recursive loop of intelligence that no longer depends on the limited supply of high-quality human text.\n\n# The Problem: The Human Feedback Bottleneck\n\nTraditional LLM training relies on two primary data sources:\n1. **The Public Web**: We have largely \"exhausted\" the high-quality human text available.\n2. **Human Labelers**: Humans are slow and struggle to verify complex reasoning (e.g., verifying a 50-step mathematical proof).\n\nWhen models are trained on human preferences, they often learn **sycophancy**—telling the user what they want to hear rather than what is factually correct. To reach \"System 2\" thinking (deliberative reasoning), models need a hard \"No\" when they are wrong.\n\n# The Solution: Objective Verification & RLVR\n\n### 1. The RLVR Paradigm\nRLVR (Reinforcement Learning from Verifiable Rewards) replaces the neural Reward Model (which predicts what a human would like) with a **Programmatic Verifier**. \n\n- **Code Execution**: The model writes Python/SQL; the trainer runs the code against unit tests. Success = Reward (1), Failure = Penalty (0).\n- **Formal Math**: The model writes proofs in Lean 4. The Lean compiler checks the logic. If the proof is \"Closed,\" the model is reinforced.\n- **Rule-Based Formatting**: Models like DeepSeek-R1 are rewarded for correctly using `<think>` tags, ensuring the reasoning process remains transparent.\n\n### 2. Synthetic Data Curriculums\nMicrosoft’s **Phi-4** and **DeepSeek-Prover** represent the new frontier: using \"Teacher\" models to create \"Synthetic Textbooks.\"\n- **Recursive Decomposition**: A large model breaks a complex problem into 100 small, verifiable steps.\n- **Error-Free Synthesis**: Only paths that pass the Verifier are kept, creating a \"perfect\" dataset of reasoning trajectories.\n- **Curriculum Learning**: Training starts with \"Grade 1\" synthetic problems and scales in complexity as the model converges.\n\n### 3. The \"Aha Moment\" and Self-Correction\nOne of the most fascinating emergent behaviors observed in DeepSeek-R1 is **self-correction**. Because the model is only rewarded for the *final* correct answer, it learns to treat its own output as a scratchpad.\n\nDuring training, the model might output:\n> \"The integral of x^2 is 2x... wait, no, that's the derivative. Let me backtrack. The integral should be x^3/3.\"\n\nThis \"Aha moment\" isn't explicitly programmed. It emerges naturally because the RL policy discovers that catching and fixing errors leads to higher rewards than blindly guessing. This mimics human \"System 2\" thinking—slow, deliberative, and self-critical.\n\n# Visualizing the Verifier Loop\n\n```mermaid\ngraph TD\n    A[Base Model] -->|Generates CoT| B(Reasoning Trajectory)\n    B --> C{The Verifier}\n    C -->|Code Check| D[REPL / Compiler]\n    C -->|Math Check| E[Lean / Coq Kernel]\n    D -->|Fail| F[Error Logs]\n    E -->|Success| G[Reward +1]\n    F -->|Feedback| A\n    G -->|Reinforce| A\n    H[Synthetic Textbook Generator] -->|Curriculum Seeds| A\n```\n\n## Implementation: A Simple RLVR Trainer (Pseudocode)\nBelow is a conceptual implementation of a Group Relative Policy Optimization (GRPO) loop using a Code Execution Verifier.\n\n```python\nimport torch\nfrom code_executor import PythonREPL\n\ndef compute_verifiable_reward(prompt, completion):\n    \"\"\"\n    Objective reward function: \n    1. Check format (<think> tags)\n    2. Execute code and check output\n    \"\"\"\n    reward = 0.0\n    \n    # 1. Format Reward\n    if \"<think>\" in completion and \"</think>\" in completion:\n        reward += 0.2\n        \n    # 2. Functional Reward (Code Execution)\n    code_block = extract_code(completion)\n    result = PythonREPL.run(code_block, timeout=5)\n    \n    if result.is_correct:\n        reward += 0.8\n    elif result.has_error:\n        reward -= 0.5 # Penalty for syntax errors\n        \n    return reward\n\n# GRPO Training Step (Simplified)\ndef grpo_step(model, prompts):\n    # Sample a group of outputs for each prompt\n    outputs = model.generate(prompts, num_samples=8)\n    \n    # Get rewards for the group\n    rewards = [compute_verifiable_reward(p, o) for p, o in zip(prompts, outputs)]\n    \n    # Normalize rewards within the group (The 'Group Relative' part)\n    mean_reward = torch.mean(rewards)\n    std_reward = torch.std(rewards)\n    advantages = (rewards - mean_reward) / (std_reward + 1e-8)\n    \n    # Update model policy to favor high-advantage paths\n    loss = compute_grpo_loss(model, outputs, advantages)\n    loss.backward()\n    optimizer.step()\n```\n\n## Feasibility & Analysis\n\n| Method | Verification Difficulty | Target Hardwares | Scaling Potential |\n| :--- | :--- | :--- | :--- |\n| Code (Python) | Low (Unit Tests) | H100/A100 Clusters | Infinite (Self-Play) |\n| Math (Lean4) | High (Formalization) | L40S / H100 | Massive (Mathlib growth) |\n| Logic (Truth) | Medium (Consistency) | Edge (Phi-4) | High (Synthetic Textbooks) |\n\nThe transition to objective verification is the key to unlocking \"Expert-Level\" AI. By moving away from human imitation, we allow models to explore reasoning paths that humans might never have considered, as long as they arrive at the provably correct answer.\n"
+    "visibility": "public",
+    "series": {
+      "id": "verifiable-rewards",
+      "title": "Verifiable Rewards",
+      "order": 1
+    },
+    "readTime": "4m",
+    "metrics": {
+      "wordCount": 584,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 1,
+        "text": "The Problem: The Human Feedback Bottleneck",
+        "id": "the-problem-the-human-feedback-bottleneck"
+      },
+      {
+        "depth": 1,
+        "text": "The Solution: Objective Verification & RLVR",
+        "id": "the-solution-objective-verification-rlvr"
+      },
+      {
+        "depth": 3,
+        "text": "1. The RLVR Paradigm",
+        "id": "1-the-rlvr-paradigm"
+      },
+      {
+        "depth": 3,
+        "text": "2. Synthetic Data Curriculums",
+        "id": "2-synthetic-data-curriculums"
+      },
+      {
+        "depth": 3,
+        "text": "3. The \"Aha Moment\" and Self-Correction",
+        "id": "3-the-aha-moment-and-self-correction"
+      },
+      {
+        "depth": 1,
+        "text": "Visualizing the Verifier Loop",
+        "id": "visualizing-the-verifier-loop"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: A Simple RLVR Trainer (Pseudocode)",
+        "id": "implementation-a-simple-rlvr-trainer-pseudocode"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility & Analysis",
+        "id": "feasibility-analysis"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "deepseek-moe",
     "markdownPath": "./content/deepseek-moe.md",
+    "title": "Advanced Mixture of Experts: The DeepSeek-V3 Architecture",
+    "subtitle": "Mastering efficiency through Shared Experts and Bias-Driven Load Balancing.",
+    "date": "2024-12-28",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Efficient Scaling (671B parameters / 37B active)",
     "tags": [
       "DeepSeek",
       "MoE",
       "Sparse-Models",
       "Machine-Learning"
     ],
-    "title": "\"Advanced Mixture of Experts: The DeepSeek-V3 Architecture\"",
-    "subtitle": "\"Mastering efficiency through Shared Experts and Bias-Driven Load Balancing.\"",
-    "date": "2024-12-28",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"Efficient Scaling (671B parameters / 37B active)\"",
-    "readTime": "\"15m\"",
     "coverImage": "https://picsum.photos/seed/deepseek/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2412.19437",
     "featured": true,
     "simulation": "DeepSeekMoE",
-    "pdfUrl": "https://arxiv.org/pdf/2412.19437",
-    "content": "\n# The DeepSeekMoE Revolution\n\nThe quest for larger models has traditionally been a battle against linear scaling costs. DeepSeek-V3 shatters this paradigm, utilizing a 671B parameter Mixture of Experts (MoE) architecture where only 37B parameters are activated per token. This isn't just \"more experts\"—it's a fundamental rethink of how experts specialize.\n\n## 1. Executive Summary\nDeepSeek-V3 represents the pinnacle of sparse architecture. By evolving the standard MoE into **DeepSeekMoE**, the researchers introduced two critical innovations: **Fine-Grained Expert Segmentation** and **Shared Expert Isolation**. Combined with a novel **Auxiliary-Loss-Free** load balancing strategy, it achieves state-of-the-art performance with a fraction of the training cost (~2.8M H800 hours).\n\n## 2. The Problem: The \"Expert Redundancy\" Bottleneck\nIn traditional MoE (like GShard or Mixtral), a token is routed to one or two large experts. This creates two issues:\n1.  **Knowledge Hybridity**: Experts are forced to learn too many disparate concepts, reducing specialization.\n2.  **Knowledge Redundancy**: Common knowledge (like basic grammar) ends up being duplicated across all experts because every expert needs it to function.\n\n## 3. The Solution: DeepSeekMoE\nDeepSeek splits the FFN layer into two distinct types of experts:\n\n### A. Shared Experts ($N_s$)\nA set of experts that are **always activated** for every token. These act as the \"common knowledge\" backbone, capturing universal patterns and freeing the specialized experts to focus on niche details.\n\n### C. Auxiliary-Loss-Free Load Balancing\nTraditional MoE models use an \"auxiliary loss\" function to force the router to distribute tokens evenly. While this prevents expert collapse (where one expert does all the work), it actively hurts model performance by forcing the router to make sub-optimal choices just to satisfy the quota.\n\nDeepSeek-V3 removes this loss entirely. Instead, it uses a **dynamic bias term** ($b_i$) for each expert.\n- If Expert A is overloaded, its bias $b_A$ is decreased (making it less likely to be picked).\n- If Expert B is underloaded, its bias $b_B$ is increased.\n- The router selects experts based on $Score = Affinity + Bias$.\n\nThis ensures perfect load balancing *without* polluting the training objective with artificial constraints.\n\n## 4. Visualizing the Architecture\n```\n        En[Expert N]\n    end\n    \n    TopK -.-> E1\n    TopK -.-> E3\n    \n    Shared --> Combiner[Weighted Sum + Residual]\n    E1 --> Combiner\n    E3 --> Combiner\n    Combiner --> Output[Output Representation]\n```\n\n## 4. Implementation: Bias-Driven Load Balancing\n\nThe most significant breakthrough in DeepSeek-V3 is moving away from auxiliary loss. Standard MoE uses a \"balancing loss\" to prevent all tokens from going to the same expert. However, this loss often conflicts with the actual learning objective.\n\nDeepSeek uses a dynamic bias $b_i$ added to the routing score during selection, but not used in the final weight.\n\n```python\nimport torch\nimport torch.nn.functional as F\n\ndef deepseek_moe_route(x, expert_weights, bias, top_k):\n    # x: [batch, hidden]\n    # expert_weights: [num_experts, hidden]\n    # bias: [num_experts] -> Dynamically updated based on load\n    \n    # 1. Calculate raw affinity scores\n    scores = torch.matmul(x, expert_weights.T) # [batch, num_experts]\n    \n    # 2. Add bias for selection ONLY (Load Balancing)\n    routing_scores = scores + bias\n    \n    # 3. Select Top-K experts\n    top_k_val, top_k_idx = torch.topk(routing_scores, k=top_k, dim=-1)\n    \n    # 4. Use RAW scores for the final output (Preserves expertise)\n    final_weights = F.softmax(scores.gather(1, top_k_idx), dim=-1)\n    \n    return final_weights, top_k_idx\n```\n\n## 5. Feasibility & Analysis\n\n*   **Training Stability**: DeepSeek-V3 reported zero irrecoverable loss spikes, a rarity for models of this scale.\n*   **Hardware Efficiency**: By utilizing FP8 precision and custom \"all-to-all\" communication kernels, they achieved nearly 100% computation-communication overlap.\n*   **Economic Impact**: Achieving GPT-4 level performance with an order of magnitude less compute democratizes high-tier LLM development.\n"
+    "visibility": "public",
+    "series": {
+      "id": "deepseek-architecture",
+      "title": "DeepSeek Architecture",
+      "order": 1
+    },
+    "readTime": "4m",
+    "metrics": {
+      "wordCount": 535,
+      "codeBlocks": 3,
+      "mathBlocks": 0,
+      "diagrams": 0
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "The DeepSeekMoE Revolution",
+        "id": "the-deepseekmoe-revolution"
+      },
+      {
+        "depth": 2,
+        "text": "1. Executive Summary",
+        "id": "1-executive-summary"
+      },
+      {
+        "depth": 2,
+        "text": "2. The Problem: The \"Expert Redundancy\" Bottleneck",
+        "id": "2-the-problem-the-expert-redundancy-bottleneck"
+      },
+      {
+        "depth": 2,
+        "text": "3. The Solution: DeepSeekMoE",
+        "id": "3-the-solution-deepseekmoe"
+      },
+      {
+        "depth": 3,
+        "text": "A. Shared Experts (N_s)",
+        "id": "a-shared-experts-ns"
+      },
+      {
+        "depth": 3,
+        "text": "C. Auxiliary-Loss-Free Load Balancing",
+        "id": "c-auxiliary-loss-free-load-balancing"
+      },
+      {
+        "depth": 2,
+        "text": "4. Visualizing the Architecture",
+        "id": "4-visualizing-the-architecture"
+      },
+      {
+        "depth": 2,
+        "text": "4. Implementation: Bias-Driven Load Balancing",
+        "id": "4-implementation-bias-driven-load-balancing"
+      },
+      {
+        "depth": 2,
+        "text": "5. Feasibility & Analysis",
+        "id": "5-feasibility-analysis"
+      },
+      {
+        "depth": 2,
+        "text": "References",
+        "id": "references"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "mapping-the-mind",
     "markdownPath": "./content/mapping-the-mind.md",
+    "title": "Mapping the Mind: Decoding LLMs with Sparse Autoencoders",
+    "subtitle": "Using smaller helper models to translate millions of cryptic neurons into human-understandable concepts.",
+    "date": "2024-06-15",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "Mechanistic Interpretability & AI Safety",
     "tags": [
       "Mechanistic Interpretability",
       "SAEs",
       "AI Safety",
       "Monosemanticity"
     ],
-    "title": "\"Mapping the Mind: Decoding LLMs with Sparse Autoencoders\"",
-    "subtitle": "\"Using smaller helper models to translate millions of cryptic neurons into human-understandable concepts.\"",
-    "date": "2024-06-15",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"Mechanistic Interpretability & AI Safety\"",
-    "readTime": "\"18m\"",
     "coverImage": "https://picsum.photos/seed/interpret/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2406.04093.pdf",
     "featured": true,
     "simulation": "MappingTheMind",
-    "pdfUrl": "https://arxiv.org/pdf/2406.04093.pdf",
-    "content": "\n# The Rosetta Stone of Neural Networks\n\nLarge Language Models (LLMs) are notoriously opaque. While they can reason about quantum physics or write poetry, if you look at their individual neurons, you find a mess. A single neuron might fire for \"The Golden Gate Bridge,\" \"DNA sequences,\" and \"legal disclaimers\" all at once. This phenomenon is known as **Polysemanticity**.\n\nSparse Autoencoders (SAEs) act as a \"Rosetta Stone.\" By training these smaller, wider helper models on the internal activations of a giant LLM, we can disentangle these overlapping signals into discrete, **monosemantic features**—single dimensions that correspond to specific, human-understandable concepts.\n\n## The Problem: Superposition\nWhy are LLM neurons messy? The **Superposition Hypothesis** suggests that models try to represent more features than they have dimensions. If a model has 4,096 neurons in a layer but needs to understand 100,000 concepts, it packs them together using \"interference-tolerant\" codes. \n\nTo us, this looks like noise. To the model, it's efficient storage.\n\n## The Solution: Sparse Autoencoders\nAn SAE is a simple unsupervised model trained to reconstruct the activations of the LLM. It consists of:\n1.  **An Encoder**: Projects the dense activations into a much higher-dimensional space (often 16x to 64x wider).\n2.  **A Sparsity Constraint**: A \"bottleneck\" that forces only a handful of these millions of features to be active at any one time (using L1 regularization or Top-K activation).\n3.  **A Decoder**: Attempts to reconstruct the original dense activation from this sparse set.\n\n### Architecture Flow\n```mermaid\ngraph LR\n    A[Input Activation] --> B[Encoder Matrix]\n    B --> C{Sparsity Filter}\n    C -- \"Only k features active\" --> D[Sparse Latents]\n    D --> E[Decoder Matrix]\n    E --> F[Reconstructed Activation]\n    \n    style D fill:#f96,stroke:#333,stroke-width:4px\n    style C fill:#fff,stroke:#333,stroke-dasharray: 5 5\n```\n\n## Implementation: The SAE Core logic\nIn modern research (like OpenAI's June 2024 paper), Top-K SAEs are preferred because they allow direct control over the number of active features, preventing \"dead latents.\"\n\n```python\nimport torch\nimport torch.nn as nn\nimport torch.nn.functional as F\n\nclass TopKSAE(nn.Module):\n    def __init__(self, d_model, d_sae, k=32):\n        super().__init__()\n        self.k = k\n        self.encoder = nn.Linear(d_model, d_sae)\n        self.decoder = nn.Linear(d_sae, d_model)\n        self.b_dec = nn.Parameter(torch.zeros(d_model))\n\n    def forward(self, x):\n        # 1. Encode to high-dimensional space\n        latents_pre = self.encoder(x - self.b_dec)\n        \n        # 2. Top-K Sparsity: Only keep the top k activations\n        topk_values, topk_indices = torch.topk(latents_pre, self.k, dim=-1)\n        latents = torch.zeros_like(latents_pre)\n        latents.scatter_(-1, topk_indices, F.relu(topk_values))\n        \n        # 3. Reconstruct original activations\n        reconstruction = self.decoder(latents) + self.b_dec\n        return reconstruction, latents\n\n# Usage: d_model=4096 (LLM), d_sae=131072 (32x expansion)\n```\n\n## Why This Matters: Model Steering\nOnce we have the SAE, we can \"reach inside\" the model. By manually boosting a specific feature—say, the \"Honesty\" feature—we can actually steer the model's behavior in real-time. Anthropic famously demonstrated this by boosting a \"Golden Gate Bridge\" feature in Claude, causing the model to mention the bridge in every single response, regardless of the prompt.\n\n## Feasibility & Hardware\nTraining SAEs is computationally expensive because they are massive (often having more parameters than the layer they are interpreting). However, once trained, they are highly efficient \"observers.\"\n\n*   **Target**: Middle-layer residual streams.\n*   **Scaling**: OpenAI recently scaled SAEs to 16 million features on GPT-4.\n*   **Impact**: Essential for auditing \"Black Box\" models for hidden biases or dangerous capabilities.\n"
+    "visibility": "public",
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 397,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "The Rosetta Stone of Neural Networks",
+        "id": "the-rosetta-stone-of-neural-networks"
+      },
+      {
+        "depth": 2,
+        "text": "The Problem: Superposition",
+        "id": "the-problem-superposition"
+      },
+      {
+        "depth": 2,
+        "text": "The Solution: Sparse Autoencoders",
+        "id": "the-solution-sparse-autoencoders"
+      },
+      {
+        "depth": 3,
+        "text": "Architecture Flow",
+        "id": "architecture-flow"
+      },
+      {
+        "depth": 2,
+        "text": "Implementation: The SAE Core logic",
+        "id": "implementation-the-sae-core-logic"
+      },
+      {
+        "depth": 2,
+        "text": "Why This Matters: Model Steering",
+        "id": "why-this-matters-model-steering"
+      },
+      {
+        "depth": 2,
+        "text": "Feasibility & Hardware",
+        "id": "feasibility-hardware"
+      },
+      {
+        "depth": 2,
+        "text": "References",
+        "id": "references"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "jepa-world-models",
     "markdownPath": "./content/jepa-world-models.md",
+    "title": "JEPA: The Architecture of Reasoning",
+    "subtitle": "Why AGI requires predicting representations, not pixels.",
+    "date": "2024-05-24",
+    "status": "RESEARCH",
+    "category": "deep-dive",
+    "impact": "World Models & Planning",
     "tags": [
       "JEPA",
       "LeCun",
       "Self-Supervised Learning",
       "World Models"
     ],
-    "title": "\"JEPA: The Architecture of Reasoning\"",
-    "subtitle": "\"Why AGI requires predicting representations, not pixels.\"",
-    "date": "2024-05-24",
-    "status": "RESEARCH",
-    "category": "deep-dive",
-    "impact": "\"World Models & Planning\"",
-    "readTime": "\"18m\"",
     "coverImage": "https://picsum.photos/seed/jepa/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2301.08243.pdf",
     "featured": true,
     "simulation": "JEPASimulation",
-    "pdfUrl": "https://arxiv.org/pdf/2301.08243.pdf",
-    "content": "\n# Executive Summary\n\nIn our previous analysis of the **Control-Theoretic Imperative**, we established that true AGI requires Model Predictive Control (MPC)—a \"System 2\" loop that plans rather than reacts. However, MPC has a fatal dependency: it requires an accurate, fast, and robust **World Model**.\n\nCurrent Generative AI (LLMs, Diffusion) fails as a World Model for planning because it operates in **observation space** (pixels/tokens). Predicting every leaf moving in the wind is computationally intractable and irrelevant to the task of driving a car.\n\nEnter **JEPA (Joint Embedding Predictive Architecture)**. Proposed by Yann LeCun, JEPA abandons the generative objective entirely. Instead of predicting the next pixel, it predicts the next **abstract representation**. This shift enables the creation of hierarchical world models capable of reasoning over long time horizons without drowning in noise.\n\n# The Problem: The Generative Trap\n\nTo plan effectively, an agent must simulate the future. Generative models simulate the future by reconstructing it entirely.\n\nIf you ask a video generation model to predict the outcome of dropping a glass, it dedicates massive compute to the texture of the floor, the lighting reflections, and the exact scatter pattern of shards. This is **aleatoric uncertainty**—details that are inherently unpredictable and often irrelevant to the outcome \"the glass broke.\"\n\nMathematically, generative models maximize the likelihood of the observation $x$:\n$$P(x|y)$$\nThis forces the model to allocate capacity to every stochastic detail. For an MPC agent running 50 simulations per step, this pixel-level rendering is prohibitively expensive and prone to \"hallucinating\" physics that look real but act wrong.\n\n# The Solution: Joint Embedding Prediction\n\nJEPA creates a **World Model** that functions like human intuition. It ignores the texture of the floor and focuses on the state of the glass (intact vs. broken).\n\n## The Architecture\n\nJEPA differs from Autoencoders and GANs in one critical way: **It does not decode.**\n\n1.  **Context Encoder**: Encodes the current state $x$ into a representation $s_x$.\n2.  **Target Encoder**: Encodes the future state $y$ into a representation $s_y$.\n3.  **Predictor**: A latent world model that attempts to predict $s_y$ given $s_x$ and a latent action/variable $z$.\n\n$$\\text{Loss} = D( \\text{Predictor}(s_x, z), \\text{SG}(s_y) )$$\n\n*Where $D$ is a distance metric (like $L_2$) and $SG$ stands for Stop Gradient.*\n\n### The Collapse Problem\nThe danger in representation learning is **mode collapse**. If the encoders output a constant vector (e.g., all zeros), the prediction error is zero, but the model has learned nothing.\nJEPA solves this not via contrastive loss (negative pairs are inefficient) but through **regularization** or asymmetric architectural updates (e.g., making the Target Encoder an Exponential Moving Average of the Context Encoder).\n\n# Visualizing the Flow\n\nThe shift from Generative to Joint Embedding is a shift from reconstruction to understanding.\n\n```mermaid\nflowchart LR\n    subgraph Generative [\"Generative Model (LLM/Diffusion)\"]\n        direction TB\n        X[Input x] --> E[Encoder]\n        E --> Z[Latent z]\n        Z --> D[Decoder]\n        D --> Y_hat[Predicted x']\n        Y_hat -- \"Loss in Pixel Space\" --> X\n    end\n\n    subgraph JEPA [\"JEPA (Joint Embedding)\"]\n        direction TB\n        X2[Input x] --> E2[Context Enc]\n        Y2[Target y] --> E3[Target Enc]\n        E2 --> S_x[Rep s_x]\n        E3 --> S_y[Rep s_y]\n        S_x --> P[Predictor]\n        P -- \"Predicts Rep\" --> S_y_pred\n        S_y_pred <--> S_y\n        style S_y_pred stroke:#f00,stroke-width:2px\n        style S_y stroke:#0f0,stroke-width:2px\n    end"
+    "visibility": "public",
+    "readTime": "3m",
+    "metrics": {
+      "wordCount": 438,
+      "codeBlocks": 0,
+      "mathBlocks": 0,
+      "diagrams": 1
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 1,
+        "text": "The Problem: The Generative Trap",
+        "id": "the-problem-the-generative-trap"
+      },
+      {
+        "depth": 1,
+        "text": "The Solution: Joint Embedding Prediction",
+        "id": "the-solution-joint-embedding-prediction"
+      },
+      {
+        "depth": 2,
+        "text": "The Architecture",
+        "id": "the-architecture"
+      },
+      {
+        "depth": 3,
+        "text": "The Collapse Problem",
+        "id": "the-collapse-problem"
+      },
+      {
+        "depth": 1,
+        "text": "Visualizing the Flow",
+        "id": "visualizing-the-flow"
+      },
+      {
+        "depth": 2,
+        "text": "References",
+        "id": "references"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "brain-mimetic",
     "markdownPath": "./content/brain-mimetic.md",
-    "tags": [
-      "AGI",
-      "Titans",
-      "PyTorch",
-      "Neuroscience"
-    ],
     "title": "BrainMimetic Intelligence",
     "subtitle": "Engineering Test-Time Plasticity with Titans Architecture to enable continuous learning during inference.",
     "date": "2024-05-21",
     "status": "PROTOTYPE",
     "category": "deep-dive",
     "impact": "Infinite Context",
-    "readTime": "25m",
+    "tags": [
+      "AGI",
+      "Titans",
+      "PyTorch",
+      "Neuroscience"
+    ],
     "coverImage": "https://picsum.photos/seed/titan/800/600?grayscale",
     "featured": false,
     "simulation": "BrainMimetic",
-    "content": "\n---\ncategory: deep-dive\nsimulation: BrainMimetic\n---\n\n# The BrainMimetic Intelligence Report\n## Engineering Test-Time Plasticity with Titans Architecture\n\n### Executive Summary\n\nThe pursuit of Artificial General Intelligence (AGI) has long been bifurcated into two distinct computational paradigms: the static, massive-scale pattern matching of **Transformers**, and the dynamic, state-dependent processing of **Recurrent Neural Networks (RNNs)**. While Transformers have dominated the last decade of progress, they suffer from a fundamental flaw analogous to anterograde amnesia—once trained, they cannot learn from their immediate experiences beyond the fleeting capacity of their context window.\n\nThis report presents a comprehensive architectural blueprint and implementation guide for a **\"BrainMimetic LLM,\"** a system designed to bridge this divide by integrating Google’s Titans architecture.\n\nThe core innovation explored herein is the transition from **passive context retrieval** to **active test-time memorization**. By leveraging the Titans framework, specifically the *Neural Memory* module and the *Surprise* metric, we engineer a system that does not merely attend to history but physically encodes it into the parameters of an internal neural network during inference. This mimics the synaptic plasticity of the biological brain, where \"surprise\"—the deviation of reality from expectation—drives the strengthening or weakening of neural connections.\n\n---\n\n## Part I: The Stagnation of Static Intelligence\n\n### 1.1 The Context-Compute Trade-off\n\nTo understand the necessity of the BrainMimetic architecture, one must first dissect the limitations of the incumbent Transformer paradigm. The Transformer's attention mechanism, specifically Self-Attention, calculates the pairwise importance of every token in a sequence relative to every other token. While this allows for unparalleled modeling of short-term dependencies, it imposes a quadratic computational cost ($O(N^2)$) with respect to sequence length $N$.\n\nAs sequence lengths grow to accommodate entire books, codebases, or genomic sequences, the Key-Value (KV) cache required to store past states expands linearly in memory but the compute required to attend to them explodes. Techniques like sliding windows, sparse attention, and linear attention have attempted to mitigate this, but they invariably introduce a \"lossy\" compression of the past.\n\n### 1.2 The Biological Imperative: Plasticity and Surprise\n\nThe human brain operates on fundamentally different principles. It does not maintain a perfect, lossless buffer of the last hour of audio or visual input. Instead, it continuously updates its internal model of the world based on **prediction error**.\n\nThe BrainMimetic LLM seeks to operationalize this biological mechanism. By defining \"Surprise\" as the gradient of a loss function with respect to the input, we can create a model that only \"remembers\" (updates its weights) when it encounters something efficiently novel. This allows the system to compress vast amounts of routine data while preserving high-fidelity representations of significant anomalies.\n\n### 1.3 Test-Time Training (TTT): The New Paradigm\n\nThe mechanism enabling this behavior is termed **Test-Time Training (TTT)**. In traditional machine learning, training and inference are distinct phases. In the TTT framework, the distinction blurs. The \"hidden state\" of the sequence model is no longer a vector of numbers, but the **parameters of a neural network itself**.\n\n```mermaid\ngraph TD\n    subgraph Static[\"Standard Transformer (Read-Only)\"]\n        S_In[Input Sequence] -->|Fill Buffer| S_Cache[KV Cache]\n        S_Cache -->|Attention| S_Out[Output]\n        S_Cache -.-x|No Updates| S_Weights[Model Weights]\n        style S_Cache fill:#1e1e2e,stroke:#64748b,stroke-dasharray: 5 5\n    end\n\n    subgraph Plastic[\"BrainMimetic / Titans (Read-Write)\"]\n        P_In[Input Sequence] -->|Forward| P_Mem[Neural Memory]\n        P_Mem -->|Calculated Surprise| P_Grad[Gradient Update]\n        P_Grad -->|Rewire Synapses| P_Mem\n        P_Mem -->|Query| P_Out[Output]\n        style P_Mem fill:#312e81,stroke:#818cf8\n        style P_Grad fill:#064e3b,stroke:#10b981\n    end\n```\n\nConsider a standard RNN update:\n\n```python\nh_t = f(h_{t-1}, x_t)\n# Here, h_t is a vector.\n```\n\nNow consider the Titans Neural Memory update:\n\n```python\nM_t = M_{t-1} - LearningRate * Gradient(Loss(M_{t-1}, x_t))\n# Here, M_t represents the weights of a neural network.\n```\n\nThe \"update rule\" is literally one step of Gradient Descent.\n\n---\n\n## Part II: The Titans Architecture Analysis\n\n### 2.1 The Core Components\n\nThe Titans architecture rests on two pillars:\n1.  **The Core Branch**: Uses standard attention to process the current \"chunk\" of data. Acts as the **Short-Term Memory**.\n2.  **The Neural Memory**: Consumes the data stream token-by-token and updates its internal weights. Acts as the **Long-Term Memory**.\n\n### 2.2 Selection: Memory as Context (MAC)\n\nFor our BrainMimetic implementation, we select **Memory as Context (MAC)**.\n*   **Mechanism**: `Input_Attn = [Memory(History); Input_Current]`\n*   **Rationale**: This allows the attention mechanism to actively query the Neural Memory, providing the richest interaction between the two systems. It aligns best with the concept of a \"conscious\" workspace (Attention) accessing a \"subconscious\" store (Neural Memory).\n\n---\n\n## Part III: The Surprise Metric\n\nThe \"Surprise\" metric is the engine of plasticity in the Titans architecture. It is defined as the gradient of the loss function.\n\n### The Mathematics of Surprise\n\nIf the memory $M$ can already perfectly predict the value $v_t$ from key $k_t$, the loss is zero, the gradient is zero, and the \"Surprise\" is zero.\n\n$$\nSurprise = \\nabla Loss(M, x_t)\n$$\n\n### The Synaptic Loop\n\nThis diagram illustrates the cycle of prediction, error, and physical rewiring that occurs for every token processed by the Neural Memory.\n\n```mermaid\nsequenceDiagram\n    participant X as Input Token\n    participant M as Neural Memory\n    participant S as Surprise Metric\n    \n    Note over M: State: M(t-1)\n    \n    X->>M: 1. Inference (Predict)\n    M-->>X: Prediction (v_pred)\n    \n    rect rgb(20, 20, 30)\n        Note right of X: Plasticity Phase\n        X->>S: 2. Calculate Error\n        S->>M: 3. Compute Gradient (Surprise)\n        M->>M: 4. Update Weights (M = M - θ∇)\n    end\n    \n    Note over M: New State: M(t)\n```\n\n### Momentum and Smoothing\n\nBiological systems do not rewire themselves based on a single instantaneous error. Titans implements **Momentum** to smooth this process. We define a \"Surprise State\" $S_t$ which accumulates the gradients.\n\nThis formulation effectively creates a **\"Memory of Surprise.\"** The model remembers that it was surprised recently, even if the current token is mundane.\n\n---\n\n## Part IV: Engineering the BrainMimetic LLM\n\nIn this section, we translate the theory into a concrete PyTorch implementation.\n\n### 4.1 The Neural Memory Module (The Brain)\n\nThis module implements the gradient descent logic inside the forward pass.\n\n```python\nclass NeuralMemory(nn.Module):\n    \"\"\"\n    Implements the Titans Neural Memory with Surprise-based updates.\n    \"\"\"\n    def __init__(self, dim, memory_dim, dropout=0.1):\n        super().__init__()\n        self.dim = dim\n        self.memory_dim = memory_dim\n        \n        # Projections\n        self.w_q = nn.Linear(dim, memory_dim, bias=False)\n        self.w_k = nn.Linear(dim, memory_dim, bias=False)\n        self.w_v = nn.Linear(dim, memory_dim, bias=False)\n        self.w_out = nn.Linear(memory_dim, dim, bias=False)\n        \n        # Adaptive Gating Mechanisms (Data-dependent)\n        self.gate_alpha = nn.Linear(dim, 1) # Forgetting gate\n        self.gate_eta = nn.Linear(dim, 1)   # Momentum decay gate\n        self.gate_theta = nn.Linear(dim, 1) # Surprise gate (Learning Rate)\n\n    def forward(self, x, state=None):\n        batch_size, seq_len, _ = x.shape\n        \n        if state is None:\n            # Memory M: The \"weights\" we are learning on the fly\n            M = torch.zeros(batch_size, self.memory_dim, self.memory_dim, device=x.device)\n            # Momentum S: The accumulated surprise\n            S = torch.zeros(batch_size, self.memory_dim, self.memory_dim, device=x.device)\n        else:\n            M, S = state\n\n        outputs = []\n        \n        # ... (Projections Q, K, V omitted for brevity) ...\n\n        # Sequential Processing Loop (Recurrence)\n        for t in range(seq_len):\n            # 1. READ OPERATION\n            # Retrieve information from the current memory state M_{t-1}\n            mem_out = torch.bmm(M, q_t).squeeze(2)\n            outputs.append(mem_out)\n            \n            # 2. SURPRISE CALCULATION\n            # Predict value: v_pred = M * k_t\n            v_pred = torch.bmm(M, k_t)\n            error = v_pred - v_t \n            \n            # Gradient w.r.t Memory M (The Surprise)\n            grad = torch.bmm(error, k_t.transpose(1, 2))\n            \n            # 3. MOMENTUM & MEMORY UPDATE (Plasticity)\n            # S = eta * S - theta * grad\n            # M = (1 - alpha) * M + S\n            \n        return torch.stack(outputs, dim=1), (M, S)\n```\n\n### 4.2 The BrainMimetic Model\n\nThe top level model stacks these blocks.\n\n```python\nclass BrainMimeticModel(nn.Module):\n    def __init__(self, vocab_size, dim, depth, heads, memory_dim):\n        super().__init__()\n        self.embedding = nn.Embedding(vocab_size, dim)\n        self.layers = nn.ModuleList([\n            TitansMACBlock(dim, heads, memory_dim) for _ in range(depth)\n        ])\n        self.lm_head = nn.Linear(dim, vocab_size)\n\n    def forward(self, input_ids, memory_states=None):\n        x = self.embedding(input_ids)\n        # ... Pass through layers ...\n        return self.lm_head(x), new_states\n```\n\n---\n\n## Part V: Feasibility Analysis\n\n### 5.1 The Compute Bottleneck\n\nThe primary implementation challenge is the sequential dependency in the memory update loop. This loop cannot be trivially parallelized like the Attention mechanism.\n\n**Solution: Chunkwise Parallelism.** For production, the sequence is divided into chunks. Inside the chunk, we use a parallelized version of the update (Dual Form).\n\n### 5.2 Hardware Targets\n\n#### NVIDIA RTX 3090\n*   **Strength**: Raw Compute (Tensor Cores).\n*   **Optimization**: Requires fusing the Python loop into a single CUDA kernel using **Triton**.\n*   **Result**: 20x speedup over CPU training.\n\n#### Apple Silicon (M2 Max)\n*   **Strength**: Unified Memory (128GB RAM allows massive models).\n*   **Strategy**: Use larger batch sizes to amortize MPS dispatch overhead.\n\n---\n\n## Conclusion\n\nThe BrainMimetic LLM, powered by the Titans architecture, represents a pivotal step toward AGI. By acknowledging that intelligence is not static retrieval but **dynamic adaptation**, we move from the library metaphor of AI (looking up books) to the biological metaphor (rewiring synapses).\n\n> \"The system does not just read history; it physically becomes it.\""
+    "visibility": "public",
+    "readTime": "8m",
+    "metrics": {
+      "wordCount": 976,
+      "codeBlocks": 4,
+      "mathBlocks": 1,
+      "diagrams": 2
+    },
+    "outline": [
+      {
+        "depth": 2,
+        "text": "category: deep-dive\nsimulation: BrainMimetic",
+        "id": "category-deep-dive-simulation-brainmimetic"
+      },
+      {
+        "depth": 1,
+        "text": "The BrainMimetic Intelligence Report",
+        "id": "the-brainmimetic-intelligence-report"
+      },
+      {
+        "depth": 2,
+        "text": "Engineering Test-Time Plasticity with Titans Architecture",
+        "id": "engineering-test-time-plasticity-with-titans-architecture"
+      },
+      {
+        "depth": 3,
+        "text": "Executive Summary",
+        "id": "executive-summary"
+      },
+      {
+        "depth": 2,
+        "text": "Part I: The Stagnation of Static Intelligence",
+        "id": "part-i-the-stagnation-of-static-intelligence"
+      },
+      {
+        "depth": 3,
+        "text": "1.1 The Context-Compute Trade-off",
+        "id": "11-the-context-compute-trade-off"
+      },
+      {
+        "depth": 3,
+        "text": "1.2 The Biological Imperative: Plasticity and Surprise",
+        "id": "12-the-biological-imperative-plasticity-and-surprise"
+      },
+      {
+        "depth": 3,
+        "text": "1.3 Test-Time Training (TTT): The New Paradigm",
+        "id": "13-test-time-training-ttt-the-new-paradigm"
+      },
+      {
+        "depth": 2,
+        "text": "Part II: The Titans Architecture Analysis",
+        "id": "part-ii-the-titans-architecture-analysis"
+      },
+      {
+        "depth": 3,
+        "text": "2.1 The Core Components",
+        "id": "21-the-core-components"
+      },
+      {
+        "depth": 3,
+        "text": "2.2 Selection: Memory as Context (MAC)",
+        "id": "22-selection-memory-as-context-mac"
+      },
+      {
+        "depth": 2,
+        "text": "Part III: The Surprise Metric",
+        "id": "part-iii-the-surprise-metric"
+      },
+      {
+        "depth": 3,
+        "text": "The Mathematics of Surprise",
+        "id": "the-mathematics-of-surprise"
+      },
+      {
+        "depth": 3,
+        "text": "The Synaptic Loop",
+        "id": "the-synaptic-loop"
+      },
+      {
+        "depth": 3,
+        "text": "Momentum and Smoothing",
+        "id": "momentum-and-smoothing"
+      },
+      {
+        "depth": 2,
+        "text": "Part IV: Engineering the BrainMimetic LLM",
+        "id": "part-iv-engineering-the-brainmimetic-llm"
+      },
+      {
+        "depth": 3,
+        "text": "4.1 The Neural Memory Module (The Brain)",
+        "id": "41-the-neural-memory-module-the-brain"
+      },
+      {
+        "depth": 3,
+        "text": "4.2 The BrainMimetic Model",
+        "id": "42-the-brainmimetic-model"
+      },
+      {
+        "depth": 2,
+        "text": "Part V: Feasibility Analysis",
+        "id": "part-v-feasibility-analysis"
+      },
+      {
+        "depth": 3,
+        "text": "5.1 The Compute Bottleneck",
+        "id": "51-the-compute-bottleneck"
+      },
+      {
+        "depth": 3,
+        "text": "5.2 Hardware Targets",
+        "id": "52-hardware-targets"
+      },
+      {
+        "depth": 4,
+        "text": "NVIDIA RTX 3090",
+        "id": "nvidia-rtx-3090"
+      },
+      {
+        "depth": 4,
+        "text": "Apple Silicon (M2 Max)",
+        "id": "apple-silicon-m2-max"
+      },
+      {
+        "depth": 2,
+        "text": "Conclusion",
+        "id": "conclusion"
+      }
+    ],
+    "backlinks": []
   },
   {
     "id": "deepseek-mhc",
     "markdownPath": "./content/deepseek-mhc.md",
-    "tags": [
-      "DeepSeek",
-      "Math",
-      "Scaling Laws"
-    ],
     "title": "DeepSeek mHC Protocol",
     "subtitle": "Solving the Signal Survival problem in deep networks using Manifold Constrained Hyper-Connections.",
     "date": "2024-02-14",
     "status": "ALPHA",
     "category": "deep-dive",
     "impact": "Infinite Depth",
-    "readTime": "18m",
+    "tags": [
+      "DeepSeek",
+      "Math",
+      "Scaling Laws"
+    ],
     "coverImage": "https://picsum.photos/seed/deepseek/800/600?grayscale",
+    "pdfUrl": "https://arxiv.org/pdf/2512.24880",
     "featured": true,
     "simulation": "DeepSeekMHC",
-    "pdfUrl": "https://arxiv.org/pdf/2512.24880",
-    "content": "\n# DeepSeek mHC: The Signal Survival Protocol\n## Manifold Constrained Hyper-Connections\n\n### Abstract\n\nAs we build deeper neural networks (100+ layers), a fundamental physics problem emerges: **Signal Survival**. In standard architectures, information acts like a game of \"Telephone\"—it gets distorted, amplified to infinity (exploding gradients), or silenced to zero (vanishing gradients) as it passes through the layers.\n\nDeepSeek's recent Multi-Head Latent Attention (MLA) and Manifold Constrained Hyper-Connections (mHC) papers propose a geometric solution. By forcing the weight matrices to exist on a specific mathematical manifold, we can ensure the signal survives intact, no matter how deep the network goes.\n\n---\n\n## 1. The \"Thinking Highway\" Problem\n\nImagine a neural network as a 100-story skyscraper. Data enters the ground floor and must take an elevator to the roof.\n*   **The Wild Mode (Standard):** The elevator cables are made of rubber. Sometimes they stretch (amplify), sometimes they slack (vanish). By floor 50, the passenger is either crushed by G-force or floating in zero-G.\n*   **The mHC Mode (DeepSeek):** The elevator uses a rigid track. The speed is mathematically constrained to be constant.\n\n### Visualizing Signal Decay\n\n```mermaid\ngraph LR\n    subgraph \"Standard Network (Wild Mode)\"\n        A1[Input Signal] -->|Variable Weights| B1(Layer 10)\n        B1 -->|Explosion| C1(Layer 50: NaN)\n        B1 -->|Vanishing| D1(Layer 50: 0.00)\n        style C1 fill:#450a0a,stroke:#ef4444\n        style D1 fill:#172554,stroke:#3b82f6\n    end\n    \n    subgraph \"DeepSeek mHC Protocol\"\n        A2[Input Signal] -->|Doubly Stochastic| B2(Layer 10)\n        B2 -->|Conserved Energy| C2(Layer 50: Stable)\n        C2 -->|Conserved Energy| D2(Layer 100: Stable)\n        style B2 fill:#052e16,stroke:#10b981\n        style C2 fill:#052e16,stroke:#10b981\n        style D2 fill:#052e16,stroke:#10b981\n    end\n```\n\n### The Mathematics of Stability\n\nIn a standard Dense layer, the output $y$ is:\n$$ y = Wx $$\nIf the eigenvalues of $W$ are $> 1$, $y$ grows exponentially. If $< 1$, it shrinks.\n\nDeepSeek proposes constraining $W$ to be **Doubly Stochastic**. This means:\n1.  Every row sums to exactly 1.0\n2.  Every column sums to exactly 1.0\n\nThis ensures that the total \"energy\" of the signal is conserved. It is neither created nor destroyed, only routed.\n\n---\n\n## 2. The Algorithm: Sinkhorn-Knopp\n\nHow do we force a random matrix of weights to obey these strict rules? We use an iterative normalization process called the **Sinkhorn-Knopp Algorithm**.\n\n```mermaid\ngraph TD\n    Start[Random Weight Matrix W] --> Loop{Sinkhorn Iteration}\n    Loop -->|Step 1| RowNorm[Normalize Rows]\n    RowNorm -->|Sum = 1.0| ColNorm[Normalize Cols]\n    ColNorm -->|Sum = 1.0| Check[Check Convergence]\n    Check -->|Not Stable| Loop\n    Check -->|Stable| End[Doubly Stochastic Matrix]\n    \n    style Start fill:#1e1e2e,stroke:#6366f1\n    style End fill:#064e3b,stroke:#10b981\n```\n\n```python\ndef make_doubly_stochastic(matrix, iterations=5):\n    for _ in range(iterations):\n        # 1. Normalize Rows\n        matrix = matrix / matrix.sum(dim=1, keepdim=True)\n        # 2. Normalize Columns\n        matrix = matrix / matrix.sum(dim=0, keepdim=True)\n    return matrix\n```\n\nThis simple traffic control rule allows DeepSeek to train networks that are significantly deeper and wider than previous architectures without instability.\n\n---\n\n## 3. Scaling Laws & Efficiency\n\nThis constraint doesn't just help stability; it changes the scaling laws. Because the signal doesn't degrade, smaller models using mHC can punch above their weight class, reasoning with the depth of a much larger model.\n\n> \"By forcing the matrix to be Doubly Stochastic, DeepSeek ensures that information is never lost and never amplified uncontrollably.\"\n"
+    "visibility": "public",
+    "series": {
+      "id": "deepseek-architecture",
+      "title": "DeepSeek Architecture",
+      "order": 3
+    },
+    "readTime": "4m",
+    "metrics": {
+      "wordCount": 351,
+      "codeBlocks": 1,
+      "mathBlocks": 0,
+      "diagrams": 2
+    },
+    "outline": [
+      {
+        "depth": 1,
+        "text": "DeepSeek mHC: The Signal Survival Protocol",
+        "id": "deepseek-mhc-the-signal-survival-protocol"
+      },
+      {
+        "depth": 2,
+        "text": "Manifold Constrained Hyper-Connections",
+        "id": "manifold-constrained-hyper-connections"
+      },
+      {
+        "depth": 3,
+        "text": "Abstract",
+        "id": "abstract"
+      },
+      {
+        "depth": 2,
+        "text": "1. The \"Thinking Highway\" Problem",
+        "id": "1-the-thinking-highway-problem"
+      },
+      {
+        "depth": 3,
+        "text": "Visualizing Signal Decay",
+        "id": "visualizing-signal-decay"
+      },
+      {
+        "depth": 3,
+        "text": "The Mathematics of Stability",
+        "id": "the-mathematics-of-stability"
+      },
+      {
+        "depth": 2,
+        "text": "2. The Algorithm: Sinkhorn-Knopp",
+        "id": "2-the-algorithm-sinkhorn-knopp"
+      },
+      {
+        "depth": 2,
+        "text": "3. Scaling Laws & Efficiency",
+        "id": "3-scaling-laws-efficiency"
+      }
+    ],
+    "backlinks": []
   }
 ];
+
+// Every link between ideas, derived from their backlinks
+export const LINK_GRAPH: IdeaLink[] = [];
+
+export const IDEA_CONTENT: Record<string, () => Promise<IdeaContent>> = {
+	"digital-red-queen": () => import("./generated-content/digital-red-queen"),
+	"control-theoretic-imperative": () => import("./generated-content/control-theoretic-imperative"),
+	"multi-head-latent-attention": () => import("./generated-content/multi-head-latent-attention"),
+	"rubin-architecture": () => import("./generated-content/rubin-architecture"),
+	"sub-quadratic-scaling": () => import("./generated-content/sub-quadratic-scaling"),
+	"asahi-m1n1": () => import("./generated-content/asahi-m1n1"),
+	"verifiable-rewards": () => import("./generated-content/verifiable-rewards"),
+	"objective-verification-rlvr": () => import("./generated-content/objective-verification-rlvr"),
+	"deepseek-moe": () => import("./generated-content/deepseek-moe"),
+	"mapping-the-mind": () => import("./generated-content/mapping-the-mind"),
+	"jepa-world-models": () => import("./generated-content/jepa-world-models"),
+	"brain-mimetic": () => import("./generated-content/brain-mimetic"),
+	"deepseek-mhc": () => import("./generated-content/deepseek-mhc"),
+};
@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react";
+
+const subscribe = () => () => {};
+
+// False while a pre-rendered page is rendered on the server or hydrated in the
+// browser, true on every render after that. Lets components that depend on
+// the URL or browser-only APIs match the static HTML until React takes over.
+export const useHydrated = () =>
+	useSyncExternalStore(
+		subscribe,
+		() => true,
+		() => false,
+	);
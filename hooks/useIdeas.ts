@@ -1,16 +1,152 @@
 import { useState, useEffect } from "react";
-import { IDEAS, IdeaWithContent } from "../generated-ideas";
+import type { ViteHotContext } from "vite/types/hot.d.ts";
+import { IDEAS, IDEA_CONTENT } from "../generated-ideas";
+import { Idea, IdeaContent } from "../types";
 
-export const useIdeas = () => {
-	const [ideas, setIdeas] = useState<IdeaWithContent[]>(IDEAS);
-	const [loading, setLoading] = useState(false);
+type Listener = (ideas: Idea[]) => void;
+
+let currentIdeas: Idea[] = IDEAS;
+const listeners = new Set<Listener>();
+
+// Content chunks that are loaded or loading, shared by every hook instance
+const contentCache = new Map<string, Promise<IdeaContent>>();
+// Chunks that finished loading. Pre-rendered pages must be complete on their
+// first render, both on the server and when the client hydrates them.
+const loadedContent = new Map<string, IdeaContent>();
+
+const publish = (ideas: Idea[]) => {
+	currentIdeas = ideas;
+	listeners.forEach((listener) => listener(ideas));
+};
+
+const loadContent = (id: string): Promise<IdeaContent> => {
+	let pending = contentCache.get(id);
+	if (!pending) {
+		const loader = IDEA_CONTENT[id];
+		pending = loader
+			? loader()
+			: Promise.reject(new Error(`No content available for "${id}"`));
+		pending.then(
+			(value) => loadedContent.set(id, value),
+			// Forget failed loads so a later visit can retry
+			() => contentCache.delete(id),
+		);
+		contentCache.set(id, pending);
+	}
+	return pending;
+};
+
+// Loads the body the page at `pathname` shows, so pre-rendering and hydration
+// can render it right away. Unknown ideas are left to the page's 404 state.
+export const preloadRoute = async (pathname: string) => {
+	const idea = pathname.match(/^\/idea\/([^/]+)/);
+	if (!idea) return;
+	await loadContent(decodeURIComponent(idea[1])).catch(() => undefined);
+};
+
+// In dev, scripts/vite-plugin-ideas.ts pushes single ideas as their markdown
+// changes, so open pages update without a reload. (bun-types declares Bun's own
+// HMR API on import.meta.hot, but the dev server here is Vite.)
+const hot = import.meta.hot as unknown as ViteHotContext | undefined;
+if (hot) {
+	hot.on("ideas:update", ({ idea }: { idea: Idea & IdeaContent }) => {
+		const { content, references, images, diagrams, math, numbering, ...meta } =
+			idea;
+		const value = { content, references, images, diagrams, math, numbering };
+		contentCache.set(meta.id, Promise.resolve(value));
+		loadedContent.set(meta.id, value);
+
+		const next = currentIdeas.some((i) => i.id === meta.id)
+			? currentIdeas.map((i) => (i.id === meta.id ? meta : i))
+			: [...currentIdeas, meta].sort(
+					(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+				);
+		publish(next);
+
+		// A successful update means an earlier parse error was fixed
+		document
+			.querySelectorAll("vite-error-overlay")
+			.forEach((overlay) =>
+				(overlay as HTMLElement & { close(): void }).close(),
+			);
+	});
+
+	hot.on("ideas:remove", ({ id }: { id: string }) => {
+		contentCache.delete(id);
+		loadedContent.delete(id);
+		publish(currentIdeas.filter((i) => i.id !== id));
+	});
+}
+
+// Returns the idea manifest. When `contentId` is given the body of that idea is
+// loaded on demand, together with the references it cites, and `loading` /
+// `error` describe that request.
+export const useIdeas = (contentId?: string) => {
+	const [ideas, setIdeas] = useState<Idea[]>(currentIdeas);
+	const preloaded = contentId ? loadedContent.get(contentId) : undefined;
+	const [loaded, setLoaded] = useState<
+		{ id: string; value: IdeaContent } | undefined
+	>(preloaded && { id: contentId!, value: preloaded });
+	const [loading, setLoading] = useState(Boolean(contentId && !preloaded));
 	const [error, setError] = useState<string | null>(null);
 
-	// We keep the useEffect for compatibility if needed, but it's now synchronous
 	useEffect(() => {
-		setIdeas(IDEAS);
-		setLoading(false);
+		setIdeas(currentIdeas);
+
+		listeners.add(setIdeas);
+		return () => {
+			listeners.delete(setIdeas);
+		};
 	}, []);
 
-	return { ideas, loading, error };
+	// `ideas` is a dependency so dev updates re-read the refreshed cache
+	useEffect(() => {
+		if (!contentId) {
+			setLoading(false);
+			setError(null);
+			return;
+		}
+
+		setError(null);
+		const ready = loadedContent.get(contentId);
+		if (ready) {
+			setLoaded({ id: contentId, value: ready });
+			setLoading(false);
+			return;
+		}
+
+		let cancelled = false;
+		if (loaded?.id !== contentId) setLoading(true);
+
+		loadContent(contentId).then(
+			(value) => {
+				if (cancelled) return;
+				setLoaded({ id: contentId, value });
+				setLoading(false);
+			},
+			(reason) => {
+				if (cancelled) return;
+				setError(reason instanceof Error ? reason.message : String(reason));
+				setLoading(false);
+			},
+		);
+
+		return () => {
+			cancelled = true;
+		};
+	}, [contentId, ideas]);
+
+	const value = loaded?.id === contentId ? loaded?.value : undefined;
+
+	return {
+		ideas,
+		content: value?.content,
+		references: value?.references ?? [],
+		images: value?.images ?? {},
+		diagrams: value?.diagrams ?? {},
+		math: value?.math ?? [],
+		numbering: value?.numbering ?? [],
+		loading,
+		error,
+	};
 };
@@ -3,6 +3,7 @@ import { useState, useEffect, useCallback } from "react";
 export interface SimulationConfig<T> {
 	initialState: T;
 	tickRate?: number;
+	autoStart?: boolean; // Start running as soon as it mounts
 	onTick: (prevState: T, tick: number) => Partial<T>;
 	onLog?: (state: T, tick: number) => string | null;
 }
@@ -10,10 +11,11 @@ export interface SimulationConfig<T> {
 export function useSimulation<T extends Record<string, any>>({
 	initialState,
 	tickRate = 200,
+	autoStart = false,
 	onTick,
 	onLog,
 }: SimulationConfig<T>) {
-	const [isRunning, setIsRunning] = useState(false);
+	const [isRunning, setIsRunning] = useState(autoStart);
 	const [state, setState] = useState<T>(initialState);
 	const [logs, setLogs] = useState<string[]>([]);
 	const [epoch, setEpoch] = useState(0);
@@ -1,15 +1,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { preloadRoute } from './hooks/useIdeas';
+import { routePath } from './utils/site';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
+const app = (
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Pages pre-rendered by scripts/build.ts are hydrated once the content they
+// show has loaded; the dev server and 404.html render from scratch.
+if (rootElement.hasChildNodes()) {
+  preloadRoute(routePath(window.location.pathname)).then(() =>
+    ReactDOM.hydrateRoot(rootElement, app)
+  );
+} else {
+  ReactDOM.createRoot(rootElement).render(app);
+}
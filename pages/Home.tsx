@@ -9,21 +9,35 @@ import {
 	Database,
 	Terminal,
 	Loader2,
+	Layers,
+	ArrowRight,
 } from "lucide-react";
 import { useUI } from "../context/UIContext";
 import ScrambleText from "../components/ScrambleText";
 import { GlobeAnimation } from "../components/GlobeAnimation";
 import { TechBadge } from "../components/SketchElements";
+import { Link } from "react-router-dom";
 import { useIdeas } from "../hooks/useIdeas";
 import SEO from "../components/SEO";
+import { isListed } from "../utils/visibility";
+import { groupSeries } from "../utils/series";
 
 const Home: React.FC = () => {
-	const { ideas, loading, error } = useIdeas();
+	const { ideas: allIdeas, loading, error } = useIdeas();
 	const { openContact } = useUI();
 
+	const ideas = allIdeas.filter(isListed);
 	const featuredIdea = ideas.find((i) => i.featured);
 	const otherIdeas = ideas.filter((i) => i.id !== featuredIdea?.id);
 
+	// Ideas in a series are listed with their series instead of on their own.
+	// The featured idea is left out of its series, but counts as a part.
+	const series = groupSeries(otherIdeas);
+	const partCounts = new Map(
+		groupSeries(ideas).map(({ id, parts }) => [id, parts.length]),
+	);
+	const standaloneIdeas = otherIdeas.filter((i) => !i.series);
+
 	// Helper to render bio with bold name
 	const renderBio = () => {
 		const parts = USER_CONFIG.bio.split("%NAME%");
@@ -96,7 +110,10 @@ const Home: React.FC = () => {
 					<div className="lg:col-span-2 flex flex-col gap-6">
 						<div className="inline-flex items-center gap-2 px-2 py-1 bg-indigo-500/10 border border-indigo-500/20 w-fit">
 							<FlaskConical className="w-3 h-3 text-indigo-400" />
-							<span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">
+							<span
+								className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest"
+								suppressHydrationWarning
+							>
 								Research Directive {new Date().getFullYear()}
 							</span>
 						</div>
@@ -170,8 +187,31 @@ const Home: React.FC = () => {
 								</div>
 							</div>
 
+							{series.map((group) => (
+								<div key={group.id} className="mb-12">
+									<Link
+										to={`/series/${group.id}`}
+										className="group flex items-center gap-3 mb-4"
+									>
+										<Layers className="w-4 h-4 text-indigo-400" />
+										<span className="text-sm font-bold text-zinc-200 font-space group-hover:text-indigo-300 transition-colors">
+											{group.title}
+										</span>
+										<span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest">
+											Series // {partCounts.get(group.id)} parts
+										</span>
+										<ArrowRight className="w-3 h-3 text-zinc-600 group-hover:text-indigo-400 group-hover:translate-x-1 transition-all" />
+									</Link>
+									<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 border-l border-zinc-800 pl-6">
+										{group.parts.map((idea) => (
+											<IdeaCard key={idea.id} idea={idea} />
+										))}
+									</div>
+								</div>
+							))}
+
 							<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-								{otherIdeas.map((idea) => (
+								{standaloneIdeas.map((idea) => (
 									<IdeaCard key={idea.id} idea={idea} />
 								))}
 							</div>
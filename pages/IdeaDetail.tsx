@@ -13,6 +13,7 @@ import {
 	Loader2,
 	PlayCircle,
 	MessageSquare,
+	Printer,
 } from "lucide-react";
 import MarkdownRenderer from "../components/MarkdownRenderer";
 import DemoView from "../components/DemoView";
@@ -24,32 +25,55 @@ import {
 	TechBadge,
 } from "../components/SketchElements";
 import { useIdeas } from "../hooks/useIdeas";
+import { useHydrated } from "../hooks/useHydrated";
 import SEO from "../components/SEO";
+import TableOfContents from "../components/TableOfContents";
+import References from "../components/References";
+import Backlinks from "../components/Backlinks";
+import VisibilityBanner from "../components/VisibilityBanner";
+import SeriesNavigator from "../components/SeriesNavigator";
+import { MarginColumn, MarginProvider } from "../components/Margin";
+import { findSeries } from "../utils/series";
+import { isListed } from "../utils/visibility";
+import { ogImagePath } from "../utils/og";
 
 const IdeaDetail: React.FC = () => {
 	const { id } = useParams<{ id: string }>();
 	const [searchParams, setSearchParams] = useSearchParams();
-	const { ideas, loading: ideasLoading } = useIdeas();
+	const {
+		ideas,
+		content,
+		references,
+		images,
+		diagrams,
+		math,
+		numbering,
+		loading: contentLoading,
+		error: contentError,
+	} = useIdeas(id);
 	const { openContact } = useUI();
 
-	// Tab state derived from URL
+	// Tab state derived from URL. Pre-rendered pages show the paper, so the
+	// URL's tab only applies once the page is hydrated.
+	const hydrated = useHydrated();
 	const activeTab =
-		(searchParams.get("tab") as "paper" | "demo" | "pdf") || "paper";
+		(hydrated && (searchParams.get("tab") as "paper" | "demo" | "pdf")) ||
+		"paper";
 
 	const idea = ideas.find((i) => i.id === id);
+	// Unlisted parts are left out as on the series page, except this one so an
+	// unlisted idea can still place itself in its series
+	const series =
+		idea?.series &&
+		findSeries(
+			ideas.filter((i) => isListed(i) || i.id === idea.id),
+			idea.series.id,
+		);
 
 	const handleTabChange = (tab: "paper" | "demo" | "pdf") => {
 		setSearchParams({ tab }, { replace: true });
 	};
 
-	if (ideasLoading) {
-		return (
-			<div className="flex items-center justify-center min-h-[50vh]">
-				<Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
-			</div>
-		);
-	}
-
 	if (!idea) {
 		return (
 			<div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
@@ -76,14 +100,17 @@ const IdeaDetail: React.FC = () => {
 			<SEO
 				title={idea.title}
 				description={idea.subtitle}
-				image={idea.coverImage}
+				image={ogImagePath(idea.id)}
 				type="article"
-				date={idea.date}
+				idea={idea}
+				noindex={idea.visibility !== "public"}
 			/>
-			<div className="fixed inset-0 bg-grid z-[-1] opacity-10 pointer-events-none" />
+			<div className="fixed inset-0 bg-grid z-[-1] opacity-10 pointer-events-none print:hidden" />
+
+			<VisibilityBanner idea={idea} />
 
 			{/* Top Bar Navigation */}
-			<div className="flex items-center text-xs font-mono text-zinc-500 mb-8 uppercase tracking-widest gap-2">
+			<div className="flex items-center text-xs font-mono text-zinc-500 mb-8 uppercase tracking-widest gap-2 print:hidden">
 				<Link to="/" className="hover:text-white transition-colors">
 					Index
 				</Link>
@@ -120,7 +147,7 @@ const IdeaDetail: React.FC = () => {
 						</p>
 					</div>
 
-					<div className="w-full md:w-64 shrink-0 space-y-6 relative">
+					<div className="w-full md:w-64 shrink-0 space-y-6 relative print:hidden">
 						{/* Hand drawn arrow pointing to buttons */}
 						<div className="absolute -left-20 top-1/2 hidden md:block opacity-50 transform rotate-12">
 							<SketchArrowRight color="#71717a" className="w-16" />
@@ -167,144 +194,233 @@ const IdeaDetail: React.FC = () => {
 			</header>
 
 			{/* Main Content Area */}
-			<div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
-				{/* Left Column: Content */}
-				<div className="lg:col-span-9">
-					{/* Tabs */}
-					<div className="flex border-b border-zinc-800 mb-8 gap-6 overflow-x-auto">
-						<button
-							onClick={() => handleTabChange("paper")}
-							className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "paper" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
-						>
-							<FileText className="w-4 h-4" />
-							Documentation
-						</button>
-						{/* Conditionally render Simulation tab if simulationName is present */}
-						{idea.simulation && (
+			<MarginProvider>
+				<div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+					{/* Left Column: Content */}
+					<div className="lg:col-span-9">
+						{/* Tabs */}
+						<div className="flex border-b border-zinc-800 mb-8 gap-6 overflow-x-auto print:hidden">
 							<button
-								onClick={() => handleTabChange("demo")}
-								className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "demo" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
+								onClick={() => handleTabChange("paper")}
+								className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "paper" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
 							>
-								<PlayCircle className="w-4 h-4" />
-								Simulation
+								<FileText className="w-4 h-4" />
+								Documentation
 							</button>
-						)}
-						{idea.pdfUrl && (
-							<button
-								onClick={() => handleTabChange("pdf")}
-								className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "pdf" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
-							>
-								<Download className="w-4 h-4" />
-								Source PDF
-							</button>
-						)}
-						{idea.githubUrl && (
-							<a href={idea.githubUrl} target="_blank" rel="noreferrer">
-								<button className="pb-3 text-xs font-mono uppercase tracking-widest text-zinc-500 hover:text-zinc-300 flex items-center gap-2">
-									<Github className="w-4 h-4" />
-									GitHub Repo
-									<ExternalLink className="w-3 h-3 opacity-50" />
+							{/* Conditionally render Simulation tab if simulationName is present */}
+							{idea.simulation && (
+								<button
+									onClick={() => handleTabChange("demo")}
+									className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "demo" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
+								>
+									<PlayCircle className="w-4 h-4" />
+									Simulation
 								</button>
-							</a>
-						)}
-					</div>
+							)}
+							{idea.pdfUrl && (
+								<button
+									onClick={() => handleTabChange("pdf")}
+									className={`pb-3 text-xs font-mono uppercase tracking-widest transition-colors border-b-2 flex items-center gap-2 ${activeTab === "pdf" ? "border-indigo-500 text-white" : "border-transparent text-zinc-500 hover:text-zinc-300"}`}
+								>
+									<Download className="w-4 h-4" />
+									Source PDF
+								</button>
+							)}
+							{idea.githubUrl && (
+								<a href={idea.githubUrl} target="_blank" rel="noreferrer">
+									<button className="pb-3 text-xs font-mono uppercase tracking-widest text-zinc-500 hover:text-zinc-300 flex items-center gap-2">
+										<Github className="w-4 h-4" />
+										GitHub Repo
+										<ExternalLink className="w-3 h-3 opacity-50" />
+									</button>
+								</a>
+							)}
+							<Link
+								to={`/idea/${idea.id}/print`}
+								className="ml-auto pb-3 text-xs font-mono uppercase tracking-widest text-zinc-500 hover:text-zinc-300 flex items-center gap-2"
+							>
+								<Printer className="w-4 h-4" />
+								Print
+							</Link>
+						</div>
 
-					<div className="min-h-[500px]">
-						{activeTab === "paper" && (
-							<div className="prose prose-invert prose-zinc max-w-none animate-in fade-in slide-in-from-bottom-4 duration-500">
-								<div className="mb-8 p-1 border border-zinc-800 bg-zinc-900/50 relative">
-									<img
-										src={idea.coverImage}
-										alt="Schematic"
-										className="w-full h-auto opacity-80 grayscale hover:grayscale-0 transition-all duration-700"
-									/>
-									{/* Image Note */}
-									<div className="absolute bottom-4 right-4 bg-yellow-100 text-black px-4 py-2 transform -rotate-2 shadow-lg hidden md:block">
-										<span className="font-sketch text-xl font-bold">
-											Fig 1.1 - Initial Draft
-										</span>
+						<div className="min-h-[500px]">
+							{activeTab === "paper" && (
+								<div className="prose prose-invert prose-zinc max-w-none animate-in fade-in slide-in-from-bottom-4 duration-500">
+									{series && <SeriesNavigator series={series} current={idea} />}
+
+									<div className="mb-8 p-1 border border-zinc-800 bg-zinc-900/50 relative">
+										<img
+											src={idea.coverImage}
+											width={idea.cover?.width}
+											height={idea.cover?.height}
+											srcSet={idea.cover?.srcSet}
+											sizes="(min-width: 1024px) 54rem, 100vw"
+											alt="Schematic"
+											className="w-full h-auto opacity-80 grayscale hover:grayscale-0 transition-all duration-700"
+										/>
+										{/* Image Note: the cover is not one of the numbered figures */}
+										<div className="absolute bottom-4 right-4 max-w-sm bg-yellow-100 text-black px-4 py-2 transform -rotate-2 shadow-lg hidden md:block">
+											<span className="font-sketch text-xl font-bold">
+												{idea.title}
+											</span>
+										</div>
 									</div>
-								</div>
 
-								<MarkdownRenderer content={idea.content} />
-							</div>
-						)}
+									{contentLoading && (
+										<div className="flex items-center justify-center py-20">
+											<Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
+										</div>
+									)}
 
-						{activeTab === "demo" && (
-							<DemoView simulationName={idea.simulation || undefined} />
-						)}
+									{contentError && (
+										<div className="p-4 border border-red-500/50 bg-red-900/20 text-red-200 font-mono text-sm text-center">
+											{contentError}
+										</div>
+									)}
 
-						{activeTab === "pdf" && (
-							<div className="w-full h-[800px] border border-zinc-800 bg-zinc-900 animate-in fade-in slide-in-from-bottom-4 duration-500">
-								<iframe
-									src={idea.pdfUrl}
-									className="w-full h-full"
-									title="PDF Viewer"
-								/>
-							</div>
-						)}
-					</div>
-				</div>
+									{!contentLoading &&
+										!contentError &&
+										content !== undefined && (
+											<>
+												<MarkdownRenderer
+													content={content}
+													references={references}
+													images={images}
+													diagrams={diagrams}
+													math={math}
+													numbering={numbering}
+												/>
+												<References references={references} />
+											</>
+										)}
 
-				{/* Right Column: Meta & Actions */}
-				<aside className="lg:col-span-3 space-y-8">
-					<div className="border border-zinc-800 p-6 bg-zinc-900/20">
-						<h3 className="font-mono text-xs uppercase text-zinc-500 mb-4 tracking-widest">
-							Metadata
-						</h3>
-						<ul className="space-y-4 text-sm">
-							<li className="flex justify-between">
-								<span className="text-zinc-500">Date</span>
-								<span className="text-zinc-300 font-mono">{idea.date}</span>
-							</li>
-							<li className="flex justify-between">
-								<span className="text-zinc-500">Read Time</span>
-								<span className="text-zinc-300 font-mono">{idea.readTime}</span>
-							</li>
-							<li className="flex justify-between">
-								<span className="text-zinc-500">Category</span>
-								<TechBadge
-									label={idea.category || "idea"}
-									color={
-										idea.category === "deep-dive"
-											? "text-purple-400"
-											: "text-blue-400"
-									}
-								/>
-							</li>
-						</ul>
-					</div>
+									<Backlinks backlinks={idea.backlinks} />
+								</div>
+							)}
 
-					{/* Sticky Note Style Callout */}
-					<div className="relative bg-[#fef3c7] text-zinc-900 p-6 shadow-xl transform rotate-1 transition-transform hover:rotate-0">
-						<div className="absolute -top-3 left-1/2 -translate-x-1/2 w-32 h-8 bg-black/10 blur-sm transform -rotate-1" />
+							{activeTab === "demo" && (
+								<DemoView simulationName={idea.simulation || undefined} />
+							)}
 
-						<div className="flex items-start gap-3 mb-2">
-							<AlertCircle className="w-6 h-6 text-orange-600 shrink-0" />
-							<h3 className="font-sketch font-bold text-2xl text-zinc-900 leading-none mt-1">
-								Peer Review
+							{activeTab === "pdf" && (
+								<div className="w-full h-[800px] border border-zinc-800 bg-zinc-900 animate-in fade-in slide-in-from-bottom-4 duration-500">
+									<iframe
+										src={idea.pdfUrl}
+										className="w-full h-full"
+										title="PDF Viewer"
+									/>
+								</div>
+							)}
+						</div>
+					</div>
+
+					{/* Right Column: Meta & Actions, then the margin for sidenotes */}
+					<aside className="lg:col-span-3 flex flex-col gap-8 print:hidden">
+						<div className="border border-zinc-800 p-6 bg-zinc-900/20">
+							<h3 className="font-mono text-xs uppercase text-zinc-500 mb-4 tracking-widest">
+								Metadata
 							</h3>
+							<ul className="space-y-4 text-sm">
+								<li className="flex justify-between">
+									<span className="text-zinc-500">Date</span>
+									<span className="text-zinc-300 font-mono">{idea.date}</span>
+								</li>
+								{idea.updated && (
+									<li className="flex justify-between">
+										<span className="text-zinc-500">Updated</span>
+										<span className="text-zinc-300 font-mono">
+											{idea.updated}
+										</span>
+									</li>
+								)}
+								<li className="flex justify-between">
+									<span className="text-zinc-500">Read Time</span>
+									<span className="text-zinc-300 font-mono">
+										{idea.readTime}
+									</span>
+								</li>
+								<li className="flex justify-between">
+									<span className="text-zinc-500">Words</span>
+									<span className="text-zinc-300 font-mono">
+										{idea.metrics.wordCount.toLocaleString("en-US")}
+									</span>
+								</li>
+								{idea.metrics.codeBlocks > 0 && (
+									<li className="flex justify-between">
+										<span className="text-zinc-500">Code Blocks</span>
+										<span className="text-zinc-300 font-mono">
+											{idea.metrics.codeBlocks}
+										</span>
+									</li>
+								)}
+								{idea.metrics.mathBlocks > 0 && (
+									<li className="flex justify-between">
+										<span className="text-zinc-500">Equations</span>
+										<span className="text-zinc-300 font-mono">
+											{idea.metrics.mathBlocks}
+										</span>
+									</li>
+								)}
+								{idea.metrics.diagrams > 0 && (
+									<li className="flex justify-between">
+										<span className="text-zinc-500">Diagrams</span>
+										<span className="text-zinc-300 font-mono">
+											{idea.metrics.diagrams}
+										</span>
+									</li>
+								)}
+								<li className="flex justify-between">
+									<span className="text-zinc-500">Category</span>
+									<TechBadge
+										label={idea.category || "idea"}
+										color={
+											idea.category === "deep-dive"
+												? "text-purple-400"
+												: "text-blue-400"
+										}
+									/>
+								</li>
+							</ul>
 						</div>
-						<p className="font-sketch text-xl leading-snug text-zinc-800 mb-4">
-							"This is still in hypothesis phase. I need critical feedback on
-							the implementation logic!"
-						</p>
 
-						<button
-							onClick={openContact}
-							className="w-full py-2 bg-transparent hover:bg-black/5 text-black border-2 border-black border-dashed font-mono text-xs uppercase tracking-widest flex items-center justify-center gap-2"
-						>
-							<MessageSquare className="w-4 h-4" />
-							Discuss Findings
-						</button>
-					</div>
-				</aside>
-			</div>
+						{/* Sticky Note Style Callout */}
+						<div className="relative bg-[#fef3c7] text-zinc-900 p-6 shadow-xl transform rotate-1 transition-transform hover:rotate-0">
+							<div className="absolute -top-3 left-1/2 -translate-x-1/2 w-32 h-8 bg-black/10 blur-sm transform -rotate-1" />
+
+							<div className="flex items-start gap-3 mb-2">
+								<AlertCircle className="w-6 h-6 text-orange-600 shrink-0" />
+								<h3 className="font-sketch font-bold text-2xl text-zinc-900 leading-none mt-1">
+									Peer Review
+								</h3>
+							</div>
+							<p className="font-sketch text-xl leading-snug text-zinc-800 mb-4">
+								"This is still in hypothesis phase. I need critical feedback on
+								the implementation logic!"
+							</p>
+
+							<button
+								onClick={openContact}
+								className="w-full py-2 bg-transparent hover:bg-black/5 text-black border-2 border-black border-dashed font-mono text-xs uppercase tracking-widest flex items-center justify-center gap-2"
+							>
+								<MessageSquare className="w-4 h-4" />
+								Discuss Findings
+							</button>
+						</div>
+
+						<MarginColumn>
+							{activeTab === "paper" && content !== undefined && (
+								<TableOfContents outline={idea.outline} />
+							)}
+						</MarginColumn>
+					</aside>
+				</div>
+			</MarginProvider>
 
 			{/* Floating CTA Button - Sketchy Style */}
 			<button
 				onClick={openContact}
-				className="fixed bottom-8 right-8 z-40 flex items-center gap-2 bg-[#09090b] text-white px-6 py-4 rounded-sm shadow-[4px_4px_0px_0px_rgba(99,102,241,1)] border-2 border-indigo-500 hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none transition-all duration-200 group"
+				className="print:hidden fixed bottom-8 right-8 z-40 flex items-center gap-2 bg-[#09090b] text-white px-6 py-4 rounded-sm shadow-[4px_4px_0px_0px_rgba(99,102,241,1)] border-2 border-indigo-500 hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none transition-all duration-200 group"
 			>
 				<MessageSquare className="w-6 h-6 group-hover:animate-bounce" />
 				<span className="font-sketch text-2xl font-bold">{ctaText}</span>
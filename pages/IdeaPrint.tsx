@@ -0,0 +1,127 @@
+import React, { useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+import MarkdownRenderer from "../components/MarkdownRenderer";
+import References from "../components/References";
+import SEO from "../components/SEO";
+import { useIdeas } from "../hooks/useIdeas";
+import { USER_CONFIG } from "../config";
+import { siteUrl } from "../utils/site";
+
+// The light paper stylesheet in index.html, which other pages only use in print
+const PAPER_STYLE_ID = "paper-style";
+
+// The whole article laid out for paper, for reading groups. The paper
+// stylesheet applies on screen as well, so the page previews the printout.
+const IdeaPrint: React.FC = () => {
+	const { id } = useParams<{ id: string }>();
+	const {
+		ideas,
+		content,
+		references,
+		images,
+		diagrams,
+		math,
+		numbering,
+		loading,
+		error,
+	} = useIdeas(id);
+
+	useEffect(() => {
+		const style = document.getElementById(PAPER_STYLE_ID);
+		if (!(style instanceof HTMLStyleElement)) return;
+		style.media = "all";
+		return () => {
+			style.media = "print";
+		};
+	}, []);
+
+	const idea = ideas.find((i) => i.id === id);
+
+	if (!idea) {
+		return (
+			<div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+				<div className="font-mono text-red-500 text-6xl mb-4">404</div>
+				<Link
+					to="/"
+					className="text-zinc-400 hover:text-white font-mono uppercase tracking-widest text-sm border-b border-zinc-600 hover:border-white pb-1"
+				>
+					Return to Index
+				</Link>
+			</div>
+		);
+	}
+
+	const articlePath = `/idea/${idea.id}`;
+
+	return (
+		<article className="max-w-3xl mx-auto px-6 py-12">
+			<SEO
+				title={idea.title}
+				description={idea.subtitle}
+				path={articlePath}
+				noindex
+			/>
+
+			<nav className="flex items-center justify-between mb-12 font-mono text-xs uppercase tracking-widest print:hidden">
+				<Link
+					to={articlePath}
+					className="flex items-center gap-2 text-zinc-500 hover:text-zinc-900"
+				>
+					<ArrowLeft className="w-4 h-4" />
+					Back to article
+				</Link>
+				<button
+					onClick={() => window.print()}
+					className="flex items-center gap-2 px-4 py-2 border border-zinc-300 hover:border-zinc-900"
+				>
+					<Printer className="w-4 h-4" />
+					Print
+				</button>
+			</nav>
+
+			<header className="mb-12 pb-8 border-b border-zinc-300">
+				<h1 className="text-4xl font-bold leading-tight tracking-tight">
+					{idea.title}
+				</h1>
+				<p className="mt-4 text-xl leading-relaxed">{idea.subtitle}</p>
+				<p className="mt-6 font-mono text-xs uppercase tracking-widest">
+					{USER_CONFIG.name} · {idea.date}
+					{idea.updated && ` · Updated ${idea.updated}`} · {idea.readTime} read
+				</p>
+				<p className="mt-2 font-mono text-xs break-all">
+					{siteUrl(articlePath)}
+				</p>
+			</header>
+
+			{loading && (
+				<div className="flex items-center justify-center py-20">
+					<Loader2 className="w-8 h-8 animate-spin" />
+				</div>
+			)}
+
+			{error && (
+				<div className="p-4 border border-red-500/50 font-mono text-sm text-center">
+					{error}
+				</div>
+			)}
+
+			{!loading && !error && content !== undefined && (
+				<div className="prose prose-zinc max-w-none">
+					<MarkdownRenderer
+						content={content}
+						references={references}
+						images={images}
+						diagrams={diagrams}
+						math={math}
+						numbering={numbering}
+						print
+					/>
+					<References references={references} print />
+				</div>
+			)}
+		</article>
+	);
+};
+
+export default IdeaPrint;
@@ -0,0 +1,87 @@
+import React from "react";
+import { useParams, Link } from "react-router-dom";
+import { Layers } from "lucide-react";
+import IdeaCard from "../components/IdeaCard";
+import SEO from "../components/SEO";
+import { useIdeas } from "../hooks/useIdeas";
+import { findSeries } from "../utils/series";
+import { isListed } from "../utils/visibility";
+import { ogImagePath } from "../utils/og";
+
+const SeriesDetail: React.FC = () => {
+	const { id } = useParams<{ id: string }>();
+	const { ideas } = useIdeas();
+
+	// Unlisted parts are only reachable by their own link
+	const series = id ? findSeries(ideas.filter(isListed), id) : undefined;
+
+	if (!series) {
+		return (
+			<div className="flex flex-col items-center justify-center min-h-[50vh] text-center">
+				<div className="font-mono text-red-500 text-6xl mb-4">404</div>
+				<h2 className="text-2xl font-bold text-white mb-4">SERIES NOT FOUND</h2>
+				<Link
+					to="/"
+					className="text-zinc-400 hover:text-white font-mono uppercase tracking-widest text-sm border-b border-zinc-600 hover:border-white pb-1"
+				>
+					Return to Index
+				</Link>
+			</div>
+		);
+	}
+
+	const [first] = series.parts;
+	const dates = series.parts.map((part) => part.date).sort();
+	const [firstDate, lastDate] = [dates[0], dates[dates.length - 1]];
+
+	return (
+		<div className="animate-in fade-in duration-500 min-h-screen">
+			<SEO
+				title={series.title}
+				description={`A ${series.parts.length}-part series: ${series.parts.map((part) => part.title).join(", ")}.`}
+				image={ogImagePath(first.id)}
+			/>
+
+			{/* Top Bar Navigation */}
+			<div className="flex items-center text-xs font-mono text-zinc-500 mb-8 uppercase tracking-widest gap-2">
+				<Link to="/" className="hover:text-white transition-colors">
+					Index
+				</Link>
+				<span>/</span>
+				<span className="text-zinc-300">Series</span>
+				<span>/</span>
+				<span className="text-indigo-400">{series.id}</span>
+			</div>
+
+			<header className="mb-12 border-b border-zinc-800 pb-12">
+				<div className="inline-flex items-center gap-2 px-2 py-1 bg-indigo-500/10 border border-indigo-500/20 w-fit mb-6">
+					<Layers className="w-3 h-3 text-indigo-400" />
+					<span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">
+						Series // {series.parts.length} parts
+					</span>
+				</div>
+				<h1 className="text-4xl md:text-5xl font-bold text-white tracking-tight font-space mb-4">
+					{series.title}
+				</h1>
+				<p className="font-mono text-xs text-zinc-500 uppercase tracking-widest">
+					{firstDate === lastDate ? firstDate : `${firstDate} — ${lastDate}`}
+				</p>
+			</header>
+
+			<ol className="space-y-6 pb-24">
+				{series.parts.map((part, index) => (
+					<li key={part.id} className="flex gap-6">
+						<span className="font-mono text-3xl font-bold text-zinc-700 w-10 shrink-0 pt-4 text-right">
+							{String(index + 1).padStart(2, "0")}
+						</span>
+						<div className="flex-1">
+							<IdeaCard idea={part} />
+						</div>
+					</li>
+				))}
+			</ol>
+		</div>
+	);
+};
+
+export default SeriesDetail;
@@ -0,0 +1,106 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import {
+	mkdir,
+	readdir,
+	readFile,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import sharp from "sharp";
+import { ImageAsset } from "../types";
+import { slugify } from "../utils/slug";
+import { sitePath } from "../utils/site";
+
+// Vault images are copied to public/assets/ under content-hashed names, so
+// the dev server serves them and the build ships them with the rest of
+// public/. Raster images also get smaller variants for `srcset`.
+export const ASSET_OUTPUT_DIR = join(process.cwd(), "public", "assets");
+const ASSET_URL = sitePath("/assets");
+
+// Variant widths emitted below the original width; images are never upscaled
+const RESPONSIVE_WIDTHS = [480, 960, 1600];
+// Formats that are resized; SVG and GIF are only copied
+const RESIZABLE = /\.(png|jpe?g|webp|avif)$/i;
+
+export interface VaultImage {
+	// Absolute path of the source file
+	file: string;
+	asset: ImageAsset;
+	// Files to emit into ASSET_OUTPUT_DIR: the original, then each variant
+	outputs: { name: string; width?: number }[];
+}
+
+// Watchers rebuild the vault on every save, so unchanged images are not
+// hashed again
+const cache = new Map<string, { mtimeMs: number; image: VaultImage }>();
+
+export async function readImage(file: string): Promise<VaultImage> {
+	const { mtimeMs } = await stat(file);
+	const cached = cache.get(file);
+	if (cached?.mtimeMs === mtimeMs) return cached.image;
+
+	const buffer = await readFile(file);
+	const hash = createHash("sha256").update(buffer).digest("hex").slice(0, 8);
+	const { width = 0, height = 0, autoOrient } = await sharp(buffer).metadata();
+	// EXIF-rotated photos are displayed with their oriented size
+	const size = autoOrient ?? { width, height };
+
+	const ext = extname(file).toLowerCase();
+	const stem = `${slugify(basename(file, extname(file))) || "image"}-${hash}`;
+	const widths = RESIZABLE.test(file)
+		? RESPONSIVE_WIDTHS.filter((w) => w < size.width)
+		: [];
+	const outputs = [
+		...widths.map((w) => ({ name: `${stem}-${w}w${ext}`, width: w })),
+		{ name: `${stem}${ext}`, width: undefined },
+	];
+
+	const image: VaultImage = {
+		file,
+		asset: {
+			src: `${ASSET_URL}/${stem}${ext}`,
+			width: size.width,
+			height: size.height,
+			srcSet: outputs
+				.map(
+					({ name, width }) => `${ASSET_URL}/${name} ${width ?? size.width}w`,
+				)
+				.join(", "),
+		},
+		outputs,
+	};
+	cache.set(file, { mtimeMs, image });
+	return image;
+}
+
+// Emits the given images and removes every other file from the output
+// directory. Hashed names never go stale, so existing files are kept.
+export async function writeImages(images: VaultImage[]) {
+	await mkdir(ASSET_OUTPUT_DIR, { recursive: true });
+
+	const expected = new Set<string>();
+	// One at a time: resizing large images is memory hungry
+	for (const { file, outputs } of images) {
+		for (const { name, width } of outputs) {
+			expected.add(name);
+			const out = join(ASSET_OUTPUT_DIR, name);
+			if (existsSync(out)) continue;
+
+			if (width) {
+				await sharp(file).autoOrient().resize({ width }).toFile(out);
+			} else {
+				await writeFile(out, await readFile(file));
+			}
+		}
+	}
+
+	const existing = await readdir(ASSET_OUTPUT_DIR);
+	await Promise.all(
+		existing
+			.filter((name) => !expected.has(name))
+			.map((name) => rm(join(ASSET_OUTPUT_DIR, name))),
+	);
+}
@@ -2,9 +2,15 @@ import { cp, rm, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { IDEAS } from "../generated-ideas";
 import { USER_CONFIG } from "../config";
+import { sitePath, siteUrl } from "../utils/site";
+import { isListed, isPublic } from "../utils/visibility";
+import { groupSeries } from "../utils/series";
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, ogImagePath } from "../utils/og";
+import { ideaCitationMeta, ideaJsonLd } from "../utils/structuredData";
+import { renderOgImage } from "./og";
+import { prerender } from "./prerender";
 
 const OUT_DIR = "dist";
-const BASE_URL = "https://paperlens.io"; // Updated based on user request
 
 // 1. Clean output directory
 console.log("Cleaning output directory...");
@@ -17,9 +23,17 @@ const result = await Bun.build({
 	outdir: OUT_DIR,
 	minify: true,
 	target: "browser",
-	// We don't need to split chunks manually as Bun does a good job,
-	// but for a single page app, a single bundle is often fine or default splitting.
-	naming: "index.js",
+	// Idea bodies are dynamic imports, so each one becomes its own chunk that
+	// is only fetched when the idea is opened.
+	splitting: true,
+	naming: {
+		entry: "index.js",
+		chunk: "chunks/[name]-[hash].[ext]",
+	},
+	// Drops dev-only code, such as the client-side mermaid renderer
+	define: {
+		"process.env.NODE_ENV": JSON.stringify("production"),
+	},
 });
 
 if (!result.success) {
@@ -41,6 +55,18 @@ try {
 	console.log("No public folder found or error copying, skipping...");
 }
 
+// KaTeX's stylesheet and fonts, for the math pre-rendered at generation time.
+// The dev server serves them straight from node_modules.
+const KATEX_DIR = join("node_modules", "katex", "dist");
+await mkdir(join(OUT_DIR, "katex"), { recursive: true });
+await cp(
+	join(KATEX_DIR, "katex.min.css"),
+	join(OUT_DIR, "katex", "katex.min.css"),
+);
+await cp(join(KATEX_DIR, "fonts"), join(OUT_DIR, "katex", "fonts"), {
+	recursive: true,
+});
+
 // 4. Process and copy index.html
 console.log("Processing index.html...");
 const indexHtml = await Bun.file("index.html").text();
@@ -48,10 +74,16 @@ const indexHtml = await Bun.file("index.html").text();
 // Create new File with updated script tag
 // We replace the .tsx script with the bundled .js script
 // Use absolute path for script to support nested routes (SSG)
-let updatedHtml = indexHtml.replace(
-	/<script type="module" src=".*index\.tsx"><\/script>/,
-	'<script type="module" src="/index.js"></script>',
-);
+let updatedHtml = indexHtml
+	.replace(
+		/<script type="module" src=".*index\.tsx"><\/script>/,
+		`<script type="module" src="${sitePath("/index.js")}"></script>`,
+	)
+	.replace('href="/rss.xml"', `href="${sitePath("/rss.xml")}"`)
+	.replace(
+		'href="/node_modules/katex/dist/katex.min.css"',
+		`href="${sitePath("/katex/katex.min.css")}"`,
+	);
 
 // Remove importmap if it exists
 updatedHtml = updatedHtml.replace(
@@ -75,11 +107,29 @@ if (await cssFile.exists()) {
 	);
 }
 
-// 5. Generate Static Routes for SEO (SSG)
-console.log("Generating static routes for SEO...");
+// 5. Pre-render static routes (SSG); index.tsx hydrates them
+console.log("Pre-rendering static routes...");
+
+async function renderPage(html: string, url: string) {
+	const body = await prerender(url);
+	return html.replace(
+		'<div id="root"></div>',
+		() => `<div id="root">${body}</div>`,
+	);
+}
+
+// Same canonical URL SEO.tsx sets once the page hydrates
+const injectCanonical = (html: string, url: string) =>
+	html.replace(
+		"</head>",
+		`    <link rel="canonical" href="${url}" />\n  </head>`,
+	);
 
-function injectMeta(html: string, { title, description, image, url }: any) {
-	let newHtml = html;
+function injectMeta(
+	html: string,
+	{ title, description, image, url, noindex, idea }: any,
+) {
+	let newHtml = injectCanonical(html, url);
 	// Replace title
 	newHtml = newHtml.replace(/<title>.*<\/title>/, `<title>${title}</title>`);
 
@@ -107,61 +157,143 @@ function injectMeta(html: string, { title, description, image, url }: any) {
 	replaceMeta("property", "og:title", title);
 	replaceMeta("property", "og:description", description);
 	replaceMeta("property", "og:image", image);
+	replaceMeta("property", "og:image:width", String(OG_IMAGE_WIDTH));
+	replaceMeta("property", "og:image:height", String(OG_IMAGE_HEIGHT));
 	replaceMeta("property", "og:type", "article");
 	replaceMeta("property", "og:url", url);
 	replaceMeta("name", "twitter:card", "summary_large_image");
 	replaceMeta("name", "twitter:title", title);
 	replaceMeta("name", "twitter:description", description);
 	replaceMeta("name", "twitter:image", image);
+	if (noindex) replaceMeta("name", "robots", "noindex");
+
+	// Article pages also carry citation tags and JSON-LD, as SEO.tsx renders them
+	if (idea) {
+		for (const { name, content } of ideaCitationMeta(idea)) {
+			replaceMeta("name", name, content);
+		}
+		// `<` is escaped so text in the data cannot close the script element
+		const jsonLd = JSON.stringify(ideaJsonLd(idea)).replace(/</g, "\\u003c");
+		newHtml = newHtml.replace(
+			"</head>",
+			() =>
+				`    <script type="application/ld+json">${jsonLd}</script>\n  </head>`,
+		);
+	}
 
 	return newHtml;
 }
 
-// Generate idea pages
+// Generate idea pages, each with its social card
+await mkdir(join(OUT_DIR, "og"), { recursive: true });
 for (const idea of IDEAS) {
 	const ideaDir = join(OUT_DIR, "idea", idea.id);
 	await mkdir(ideaDir, { recursive: true });
 
-	const ideaHtml = injectMeta(updatedHtml, {
-		title: `${idea.title} | ${USER_CONFIG.lab}`,
-		description: idea.subtitle,
-		image: idea.coverImage,
-		url: `${BASE_URL}/idea/${idea.id}`,
-	});
+	await Bun.write(
+		join(OUT_DIR, ogImagePath(idea.id)),
+		await renderOgImage(idea),
+	);
+
+	const ideaHtml = injectMeta(
+		await renderPage(updatedHtml, `/idea/${idea.id}`),
+		{
+			title: `${idea.title} | ${USER_CONFIG.lab}`,
+			description: idea.subtitle,
+			image: siteUrl(ogImagePath(idea.id)),
+			url: siteUrl(`/idea/${idea.id}`),
+			// Unlisted ideas are reachable by URL but kept out of search results
+			noindex: !isPublic(idea),
+			idea,
+		},
+	);
 
 	await Bun.write(join(ideaDir, "index.html"), ideaHtml);
+
+	// The print view, with the paper stylesheet on for the screen as well
+	const printHtml = injectMeta(
+		await renderPage(updatedHtml, `/idea/${idea.id}/print`),
+		{
+			title: `${idea.title} | ${USER_CONFIG.lab}`,
+			description: idea.subtitle,
+			image: siteUrl(ogImagePath(idea.id)),
+			url: siteUrl(`/idea/${idea.id}`),
+			noindex: true,
+		},
+	).replace(
+		'<style id="paper-style" media="print">',
+		'<style id="paper-style">',
+	);
+
+	await mkdir(join(ideaDir, "print"), { recursive: true });
+	await Bun.write(join(ideaDir, "print", "index.html"), printHtml);
+}
+
+// Generate series landing pages, which leave unlisted parts out as the home
+// archive does
+const SERIES = groupSeries(IDEAS.filter(isListed));
+for (const series of SERIES) {
+	const seriesDir = join(OUT_DIR, "series", series.id);
+	await mkdir(seriesDir, { recursive: true });
+
+	const seriesHtml = injectMeta(
+		await renderPage(updatedHtml, `/series/${series.id}`),
+		{
+			title: `${series.title} | ${USER_CONFIG.lab}`,
+			description: `A ${series.parts.length}-part series: ${series.parts.map((part) => part.title).join(", ")}.`,
+			image: siteUrl(ogImagePath(series.parts[0].id)),
+			url: siteUrl(`/series/${series.id}`),
+		},
+	);
+
+	await Bun.write(join(seriesDir, "index.html"), seriesHtml);
 }
 
-// Create 404.html for GitHub Pages SPA fallback
+// Create 404.html for GitHub Pages SPA fallback; it renders on the client
 await Bun.write(join(OUT_DIR, "404.html"), updatedHtml);
 
-await Bun.write(join(OUT_DIR, "index.html"), updatedHtml);
+await Bun.write(
+	join(OUT_DIR, "index.html"),
+	injectCanonical(await renderPage(updatedHtml, "/"), siteUrl()),
+);
 
 // 6. Generate Sitemap & Robots.txt
 console.log("Generating sitemap.xml and robots.txt...");
 
+// Unlisted ideas stay out of the sitemap and the feed
+const PUBLIC_IDEAS = IDEAS.filter(isPublic);
+
 const sitemap = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
   <url>
-    <loc>${BASE_URL}/</loc>
+    <loc>${siteUrl()}</loc>
     <changefreq>daily</changefreq>
     <priority>1.0</priority>
   </url>
-${IDEAS.map(
+${PUBLIC_IDEAS.map(
 	(idea) => `  <url>
-    <loc>${BASE_URL}/idea/${idea.id}</loc>
-    <lastmod>${idea.date}</lastmod>
+    <loc>${siteUrl(`/idea/${idea.id}`)}</loc>
+    <lastmod>${idea.updated ?? idea.date}</lastmod>
     <changefreq>weekly</changefreq>
     <priority>0.8</priority>
   </url>`,
 ).join("\n")}
+${groupSeries(PUBLIC_IDEAS)
+	.map(
+		(series) => `  <url>
+    <loc>${siteUrl(`/series/${series.id}`)}</loc>
+    <changefreq>weekly</changefreq>
+    <priority>0.6</priority>
+  </url>`,
+	)
+	.join("\n")}
 </urlset>`;
 
 await Bun.write(join(OUT_DIR, "sitemap.xml"), sitemap);
 
 const robotsTxt = `User-agent: *
 Allow: /
-Sitemap: ${BASE_URL}/sitemap.xml
+Sitemap: ${siteUrl("/sitemap.xml")}
 `;
 
 await Bun.write(join(OUT_DIR, "robots.txt"), robotsTxt);
@@ -173,17 +305,17 @@ const rss = `<?xml version="1.0" encoding="UTF-8" ?>
 <rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
 <channel>
   <title>${USER_CONFIG.lab}</title>
-  <link>${BASE_URL}</link>
+  <link>${siteUrl()}</link>
   <description>${USER_CONFIG.bio.replace("%NAME%", USER_CONFIG.name)}</description>
   <language>en-us</language>
   <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
-  <atom:link href="${BASE_URL}/rss.xml" rel="self" type="application/rss+xml" />
-  ${IDEAS.map(
+  <atom:link href="${siteUrl("/rss.xml")}" rel="self" type="application/rss+xml" />
+  ${PUBLIC_IDEAS.map(
 		(idea) => `
   <item>
     <title><![CDATA[${idea.title}]]></title>
-    <link>${BASE_URL}/idea/${idea.id}</link>
-    <guid>${BASE_URL}/idea/${idea.id}</guid>
+    <link>${siteUrl(`/idea/${idea.id}`)}</link>
+    <guid>${siteUrl(`/idea/${idea.id}`)}</guid>
     <pubDate>${new Date(idea.date).toUTCString()}</pubDate>
     <description><![CDATA[${idea.subtitle}]]></description>
   </item>`,
@@ -0,0 +1,526 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join, basename, dirname, relative, sep } from "node:path";
+import { Backlink, Idea, IdeaContent, IdeaLink } from "../types";
+import { parseMarkdown } from "../utils/markdown";
+import { parseMdast } from "../utils/mdast";
+import { findIdeaMentions } from "../utils/links";
+import { isPublished } from "../utils/visibility";
+import { FrontmatterError, FrontmatterIssue } from "../utils/frontmatter";
+import { WikiContext, WikiNote, resolveWikiLinks } from "../utils/wikiLinks";
+import { BibEntry, parseBibtex } from "../utils/bibtex";
+import { REFERENCES_ID, resolveCitations } from "../utils/citations";
+import { IMAGE_EXTENSIONS, findImage, resolveImages } from "../utils/images";
+import { resolveEquations } from "../utils/equations";
+import { resolveCrossReferences } from "../utils/crossReferences";
+import { VaultImage, readImage, writeImages } from "./assets";
+import { DiagramSource, findDiagrams } from "./diagrams";
+
+export const CONTENT_DIR = join(process.cwd(), "content");
+export const OUTPUT_FILE = join(process.cwd(), "generated-ideas.ts");
+export const CONTENT_OUTPUT_DIR = join(process.cwd(), "generated-content");
+
+export type LoadedIdea = Idea & IdeaContent;
+
+export interface ContentFile {
+	id: string;
+	// Absolute path on disk
+	file: string;
+	// Repo-relative path used in generated data and error messages
+	path: string;
+	source: string;
+}
+
+export type LoadResult =
+	| { idea: LoadedIdea; issues?: undefined }
+	| { idea?: undefined; issues: FrontmatterIssue[] };
+
+// Vault files other than notes that ideas can refer to
+export interface VaultResources {
+	// Vault-relative paths of every non-markdown file, for `![[embeds]]`
+	assets: string[];
+	// `<idea-id>.bib` files apply to that idea, every other .bib is shared
+	bibliographies: ContentFile[];
+	// Readable images among `assets`, by vault-relative path
+	images: Map<string, VaultImage>;
+}
+
+export interface ContentWarning extends FrontmatterIssue {
+	rule:
+		| "broken-wiki-link"
+		| "unknown-citation"
+		| "bibtex"
+		| "math"
+		| "cross-reference";
+}
+
+export interface BuildOptions {
+	// Leave out drafts and ideas scheduled for a later date
+	production?: boolean;
+}
+
+export interface BuildResult {
+	ideas: LoadedIdea[];
+	// Frontmatter errors; the affected files are left out of `ideas`
+	issues: FrontmatterIssue[];
+	// Unresolved wiki-links, embeds, citations and equation references, and
+	// BibTeX and KaTeX syntax errors
+	warnings: ContentWarning[];
+	// Ideas that no other idea links to
+	orphans: LoadedIdea[];
+	// Drafts and scheduled ideas left out of a production build
+	excluded: LoadedIdea[];
+	// Images the included ideas show, for writeImages
+	images: VaultImage[];
+	// Mermaid fences of the included ideas, for renderDiagrams
+	diagrams: DiagramSource[];
+}
+
+// Lists every file in the vault matching `include`, skipping Obsidian's dot
+// folders.
+async function walkVault(
+	dir: string,
+	include: (name: string) => boolean,
+): Promise<string[]> {
+	const entries = await readdir(dir, { withFileTypes: true });
+	const files = await Promise.all(
+		entries
+			.filter((entry) => !entry.name.startsWith("."))
+			.map(async (entry) => {
+				const full = join(dir, entry.name);
+				if (entry.isDirectory()) return walkVault(full, include);
+				return include(entry.name) ? [full] : [];
+			}),
+	);
+	return files.flat().sort();
+}
+
+export const listContentFiles = (dir = CONTENT_DIR) =>
+	walkVault(dir, (name) => name.endsWith(".md"));
+
+const vaultPath = (file: string) =>
+	relative(CONTENT_DIR, file).split(sep).join("/");
+
+export async function readVaultResources(): Promise<VaultResources> {
+	const [assets, bibFiles] = await Promise.all([
+		walkVault(CONTENT_DIR, (name) => !name.endsWith(".md")),
+		walkVault(CONTENT_DIR, (name) => name.endsWith(".bib")),
+	]);
+	const bibliographies = await Promise.all(
+		bibFiles.map(async (file) => ({
+			...(await readContentFile(file)),
+			id: basename(file, ".bib"),
+		})),
+	);
+	// A corrupt or half-written image is left out like a missing one
+	const images = await Promise.all(
+		assets
+			.filter((file) => IMAGE_EXTENSIONS.test(file))
+			.map((file) => readImage(file).catch(() => undefined)),
+	);
+	return {
+		assets: assets.map(vaultPath),
+		bibliographies,
+		images: new Map(
+			images
+				.filter((image) => image !== undefined)
+				.map((image) => [vaultPath(image.file), image]),
+		),
+	};
+}
+
+export const isContentFile = (file: string) =>
+	file.endsWith(".md") &&
+	!relative(CONTENT_DIR, file)
+		.split(sep)
+		.some((part) => part.startsWith(".") || part === "..");
+
+export const isBibliographyFile = (file: string) =>
+	isContentFile(file.replace(/\.bib$/, ".md")) && file.endsWith(".bib");
+
+export const isImageFile = (file: string) =>
+	isContentFile(file.replace(/\.[^./]+$/, ".md")) &&
+	IMAGE_EXTENSIONS.test(file);
+
+// Ids come from file names and must be unique across the vault, ignoring case:
+// they also name the generated modules, which would collide on
+// case-insensitive file systems
+export const idKey = (id: string) => id.toLowerCase();
+
+export async function readContentFile(file: string): Promise<ContentFile> {
+	const rel = relative(process.cwd(), file).split(sep).join("/");
+	return {
+		id: basename(file, ".md"),
+		file,
+		path: `./${rel}`,
+		source: await readFile(file, "utf-8"),
+	};
+}
+
+export async function readContentFiles(): Promise<ContentFile[]> {
+	const files = await listContentFiles();
+	return Promise.all(files.map(readContentFile));
+}
+
+// Parses a single file, turning schema violations into a list of issues.
+export function loadIdea({ source, id, path }: ContentFile): LoadResult {
+	try {
+		return { idea: parseMarkdown(source, id, path) };
+	} catch (error) {
+		if (error instanceof FrontmatterError) return { issues: error.issues };
+		throw error;
+	}
+}
+
+// Parses the whole vault. Wiki-links can point at any note, so ideas are
+// parsed once to index titles, aliases and headings, then parsed again with
+// their links resolved.
+export function buildIdeas(
+	contents: ContentFile[],
+	{ assets, bibliographies, images }: VaultResources,
+	{ production = false }: BuildOptions = {},
+): BuildResult {
+	const loaded = contents.map((content) => ({
+		content,
+		result: loadIdea(content),
+	}));
+	const issues = loaded.flatMap(({ result }) => result.issues ?? []);
+
+	// Excluded ideas are dropped before links are resolved, so links to them
+	// are reported like any other unresolved link
+	const valid = loaded.filter(({ result }) => result.idea);
+	const isIncluded = (idea: LoadedIdea) => !production || isPublished(idea);
+	const published = valid.filter(({ result }) => isIncluded(result.idea!));
+	const excluded = valid
+		.map(({ result }) => result.idea!)
+		.filter((idea) => !isIncluded(idea));
+
+	const notes: WikiNote[] = published.map(({ content, result }) => ({
+		id: result.idea!.id,
+		title: result.idea!.title,
+		aliases: result.idea!.aliases ?? [],
+		outline: result.idea!.outline,
+		body: result.idea!.content,
+		dir: vaultPath(dirname(content.file)),
+	}));
+	const context: WikiContext = { notes, assets };
+
+	const warnings: ContentWarning[] = [];
+	const libraries = loadLibraries(
+		bibliographies,
+		new Set(contents.map(({ id }) => id)),
+		warnings,
+	);
+
+	const imageAssets = new Map(
+		[...images].map(([path, image]) => [path, image.asset]),
+	);
+	const shown = new Set<VaultImage>();
+	const diagrams: DiagramSource[] = [];
+
+	const ideas = published.map(({ content }, index) => {
+		const library = new Map([
+			...libraries.shared,
+			...(libraries.own.get(content.id) ?? []),
+		]);
+		const { dir } = notes[index];
+		let references: LoadedIdea["references"] = [];
+		let ideaImages: LoadedIdea["images"] = {};
+		let ideaMath: LoadedIdea["math"] = [];
+		let ideaNumbering: LoadedIdea["numbering"] = [];
+
+		const idea = parseMarkdown(content.source, content.id, content.path, {
+			transformBody: (body, bodyLine) => {
+				const report =
+					(rule: ContentWarning["rule"]) =>
+					({ line, message }: { line: number; message: string }) =>
+						warnings.push({
+							file: content.path,
+							line: bodyLine + line - 1,
+							message,
+							rule,
+						});
+
+				for (const { line, source } of findDiagrams(body)) {
+					diagrams.push({
+						id: content.id,
+						file: content.path,
+						line: bodyLine + line - 1,
+						source,
+					});
+				}
+
+				const linked = resolveWikiLinks(body, notes[index], context);
+				linked.issues.forEach(report("broken-wiki-link"));
+
+				const cited = resolveCitations(linked.content, library);
+				cited.issues.forEach(report("unknown-citation"));
+				references = cited.references;
+
+				const pictured = resolveImages(cited.content, dir, imageAssets);
+				ideaImages = pictured.images;
+
+				const numbered = resolveEquations(pictured.content);
+				numbered.issues.forEach(report("math"));
+				ideaMath = numbered.math;
+
+				const referenced = resolveCrossReferences(
+					numbered.content,
+					numbered.labels,
+				);
+				referenced.issues.forEach(report("cross-reference"));
+				ideaNumbering = referenced.numbering;
+
+				return referenced.content;
+			},
+		});
+
+		idea.images = ideaImages;
+		idea.math = ideaMath;
+		idea.numbering = ideaNumbering;
+		const cover = findImage(images, dir, idea.coverImage);
+		if (cover) {
+			idea.coverImage = cover.asset.src;
+			idea.cover = cover.asset;
+			shown.add(cover);
+		}
+		for (const image of images.values()) {
+			if (ideaImages[image.asset.src]) shown.add(image);
+		}
+
+		if (references.length) {
+			idea.references = references;
+			idea.outline.push({
+				depth: 2,
+				text: "References",
+				id: REFERENCES_ID,
+			});
+		}
+		return idea;
+	});
+
+	linkIdeas(ideas);
+	const orphans = ideas.filter((idea) => idea.backlinks.length === 0);
+
+	return {
+		ideas,
+		issues,
+		warnings,
+		orphans,
+		excluded,
+		images: [...shown],
+		diagrams,
+	};
+}
+
+// Parses every .bib file. Files named after an idea only apply to that idea
+// (and win over shared entries); all other files form the shared library.
+function loadLibraries(
+	bibliographies: ContentFile[],
+	ideaIds: Set<string>,
+	warnings: ContentWarning[],
+) {
+	const shared = new Map<string, BibEntry>();
+	const own = new Map<string, Map<string, BibEntry>>();
+
+	for (const { id, path, source } of bibliographies) {
+		const { entries, issues } = parseBibtex(source, path);
+		issues.forEach((issue) => warnings.push({ ...issue, rule: "bibtex" }));
+
+		let library = shared;
+		if (ideaIds.has(id)) {
+			library = own.get(id) ?? new Map();
+			own.set(id, library);
+		}
+
+		for (const entry of entries) {
+			const existing = library.get(entry.key);
+			if (existing) {
+				warnings.push({
+					file: path,
+					line: entry.line,
+					message: `Citation key "${entry.key}" is already defined in ${existing.file}`,
+					rule: "bibtex",
+				});
+				continue;
+			}
+			library.set(entry.key, entry);
+		}
+	}
+
+	return { shared, own };
+}
+
+// Fills in every idea's backlinks from the `/idea/:id` links in the others
+function linkIdeas(ideas: LoadedIdea[]) {
+	const backlinks = new Map<string, Backlink[]>(
+		ideas.map((idea) => [idea.id, []]),
+	);
+
+	for (const source of ideas) {
+		for (const { target, snippet } of findIdeaMentions(
+			parseMdast(source.content),
+		)) {
+			const incoming = backlinks.get(target);
+			if (!incoming || target === source.id) continue;
+
+			let backlink = incoming.find(({ id }) => id === source.id);
+			if (!backlink) {
+				backlink = { id: source.id, title: source.title, snippets: [] };
+				incoming.push(backlink);
+			}
+			if (!backlink.snippets.includes(snippet)) {
+				backlink.snippets.push(snippet);
+			}
+		}
+	}
+
+	ideas.forEach((idea) => (idea.backlinks = backlinks.get(idea.id)!));
+}
+
+// Ideas in `next` that are new or differ from their version in `previous`
+function changedIdeas(
+	previous: LoadedIdea[],
+	next: LoadedIdea[],
+): LoadedIdea[] {
+	const before = new Map(
+		previous.map((idea) => [idea.id, JSON.stringify(idea)]),
+	);
+	return next.filter((idea) => before.get(idea.id) !== JSON.stringify(idea));
+}
+
+const HEADER = "// This file is auto-generated. Do not edit manually.";
+
+const splitIdea = ({
+	content,
+	references,
+	images,
+	diagrams,
+	math,
+	numbering,
+	...meta
+}: LoadedIdea): [Idea, IdeaContent] => [
+	meta,
+	{ content, references, images, diagrams, math, numbering },
+];
+
+// The manifest only carries metadata; each idea's body lives in its own
+// module under generated-content/ that IDEA_CONTENT imports on demand.
+export function renderManifestModule(
+	ideas: LoadedIdea[],
+	{ production = false }: BuildOptions = {},
+): string {
+	// Sort by date descending
+	const sorted = [...ideas].sort(
+		(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+	);
+	const metadata = sorted.map((idea) => splitIdea(idea)[0]);
+	const links: IdeaLink[] = sorted.flatMap((idea) =>
+		idea.backlinks.map(({ id }) => ({ source: id, target: idea.id })),
+	);
+	const loaders = sorted
+		.map(
+			({ id }) =>
+				`\t${JSON.stringify(id)}: () => import(${JSON.stringify(`./generated-content/${id}`)}),`,
+		)
+		.join("\n");
+
+	return `${HEADER}
+import { Idea, IdeaContent, IdeaLink } from "./types";
+
+// True outside production builds: drafts and scheduled ideas are included
+// and pages that are not public show a banner saying so
+export const PREVIEW = ${!production};
+
+export const IDEAS: Idea[] = ${JSON.stringify(metadata, null, 2)};
+
+// Every link between ideas, derived from their backlinks
+export const LINK_GRAPH: IdeaLink[] = ${JSON.stringify(links, null, 2)};
+
+export const IDEA_CONTENT: Record<string, () => Promise<IdeaContent>> = {
+${loaders}
+};
+`;
+}
+
+export function renderContentModule(idea: LoadedIdea): string {
+	const [, { content, references, images, diagrams, math, numbering }] =
+		splitIdea(idea);
+	return `${HEADER}
+import { ImageAsset, NumberedBlock, Reference, RenderedMath } from "../types";
+
+export const content: string = ${JSON.stringify(content)};
+
+export const references: Reference[] = ${JSON.stringify(references, null, 2)};
+
+export const images: Record<string, ImageAsset> = ${JSON.stringify(images, null, 2)};
+
+export const diagrams: Record<string, string> = ${JSON.stringify(diagrams, null, 2)};
+
+export const math: RenderedMath[] = ${JSON.stringify(math, null, 2)};
+
+export const numbering: NumberedBlock[] = ${JSON.stringify(numbering, null, 2)};
+`;
+}
+
+const contentModuleFile = (id: string) => join(CONTENT_OUTPUT_DIR, `${id}.ts`);
+
+// Writes the manifest plus the content modules of `changed` (all ideas when
+// omitted, in which case modules of ideas that no longer exist are removed).
+export async function writeIdeasModule(
+	ideas: LoadedIdea[],
+	changed: LoadedIdea[] = ideas,
+	options: BuildOptions = {},
+) {
+	await mkdir(CONTENT_OUTPUT_DIR, { recursive: true });
+
+	if (changed === ideas) {
+		const expected = new Set(ideas.map((idea) => `${idea.id}.ts`));
+		const existing = await readdir(CONTENT_OUTPUT_DIR);
+		await Promise.all(
+			existing
+				.filter((file) => !expected.has(file))
+				.map((file) => rm(join(CONTENT_OUTPUT_DIR, file))),
+		);
+	}
+
+	await Promise.all(
+		changed.map((idea) =>
+			writeFile(contentModuleFile(idea.id), renderContentModule(idea)),
+		),
+	);
+	await writeFile(OUTPUT_FILE, renderManifestModule(ideas, options));
+}
+
+async function removeIdeaContent(id: string) {
+	await rm(contentModuleFile(id), { force: true });
+}
+
+export interface RebuildResult {
+	ideas: LoadedIdea[];
+	// Ideas that are new or whose output changed, and ideas that are gone
+	changed: LoadedIdea[];
+	removed: LoadedIdea[];
+	warnings: ContentWarning[];
+}
+
+// Rebuilds the whole vault after a file changed, since wiki-links make ideas
+// depend on each other, but only rewrites the modules of the ideas whose
+// output differs from `previous`. Used by the watchers, which keep the
+// returned ideas for the next rebuild.
+export async function rebuildIdeas(
+	contents: ContentFile[],
+	previous: LoadedIdea[],
+	options: BuildOptions = {},
+): Promise<RebuildResult> {
+	const result = buildIdeas(contents, await readVaultResources(), options);
+
+	const changed = changedIdeas(previous, result.ideas);
+	const removed = previous.filter(
+		(idea) => !result.ideas.some(({ id }) => id === idea.id),
+	);
+	await Promise.all(removed.map(({ id }) => removeIdeaContent(id)));
+	await writeImages(result.images);
+	await writeIdeasModule(result.ideas, changed, options);
+
+	return { ideas: result.ideas, changed, removed, warnings: result.warnings };
+}
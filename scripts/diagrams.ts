@@ -0,0 +1,102 @@
+import { visit } from "unist-util-visit";
+import type { Browser } from "puppeteer";
+import { FrontmatterIssue } from "../utils/frontmatter";
+import { parseMdast } from "../utils/mdast";
+import { MERMAID_CONFIG } from "../utils/mermaid";
+import type { LoadedIdea } from "./content";
+
+// Production builds render mermaid fences to SVG in headless Chrome, so pages
+// ship static diagrams instead of the mermaid library, and fail when Chrome
+// cannot start. Only the dev server falls back to rendering in the browser.
+
+export interface DiagramSource {
+	id: string; // Idea the fence belongs to
+	file: string;
+	line: number; // Line of the opening fence in `file`
+	source: string;
+}
+
+// Mermaid needs the page's fonts to measure labels the way they will display
+const FONT_CSS = new URL(
+	"https://fonts.googleapis.com/css2?family=JetBrains+Mono:wght@400;500;700&display=swap",
+);
+
+// Mermaid fences in a markdown body, with their 1-based line
+export const findDiagrams = (body: string) => {
+	const diagrams: { line: number; source: string }[] = [];
+	visit(parseMdast(body), "code", (node) => {
+		if (node.lang === "mermaid" && node.position) {
+			diagrams.push({ line: node.position.start.line, source: node.value });
+		}
+	});
+	return diagrams;
+};
+
+export interface DiagramResult {
+	// Diagrams mermaid could not parse
+	issues: FrontmatterIssue[];
+	// Why nothing was rendered when the browser failed to start
+	skipped?: string;
+}
+
+// Fills in `diagrams` on each idea. One page renders at a time: Chrome is
+// memory hungry and the vault only has a handful of diagrams.
+export async function renderDiagrams(
+	ideas: LoadedIdea[],
+	diagrams: DiagramSource[],
+): Promise<DiagramResult> {
+	if (diagrams.length === 0) return { issues: [] };
+
+	// Loaded on demand so the dev server never pulls in puppeteer
+	const [{ default: puppeteer }, { renderMermaid }] = await Promise.all([
+		import("puppeteer"),
+		import("@mermaid-js/mermaid-cli"),
+	]);
+
+	let browser: Browser;
+	try {
+		browser = await puppeteer.launch();
+	} catch (error) {
+		return {
+			issues: [],
+			skipped: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	const byId = new Map(ideas.map((idea) => [idea.id, idea]));
+	const issues: FrontmatterIssue[] = [];
+	try {
+		for (const [index, { id, file, line, source }] of diagrams.entries()) {
+			const idea = byId.get(id);
+			if (!idea || idea.diagrams[source]) continue;
+
+			try {
+				const { data } = await renderMermaid(browser, source, "svg", {
+					backgroundColor: "transparent",
+					mermaidConfig: MERMAID_CONFIG,
+					customFontCSS: [{ cssUrl: FONT_CSS }],
+					// The site loads its fonts itself
+					fontEmbed: false,
+					// Ids scope each diagram's styles; MarkdownRenderer suffixes them
+					// again where one SVG shows more than once
+					svgId: `mermaid-${id}-${index}`,
+				});
+				idea.diagrams[source] = new TextDecoder().decode(data);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				// Parse errors read "Parse error on line 3: ...", counted from the
+				// first line inside the fence
+				const inner = Number(message.match(/on line (\d+)/)?.[1] ?? 0);
+				issues.push({
+					file,
+					line: line + inner,
+					message: `Invalid mermaid diagram: ${message.split("\n")[0]}`,
+				});
+			}
+		}
+	} finally {
+		await browser.close();
+	}
+
+	return { issues };
+}
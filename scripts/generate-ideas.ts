@@ -1,51 +1,166 @@
-import { readdir, readFile, writeFile } from "node:fs/promises";
-import { join, basename } from "node:path";
-import { parseMarkdown } from "../utils/markdown";
+import { watch } from "node:fs";
+import { join } from "node:path";
+import { formatIssue } from "../utils/frontmatter";
+import {
+	CONTENT_DIR,
+	ContentFile,
+	LoadedIdea,
+	OUTPUT_FILE,
+	buildIdeas,
+	idKey,
+	isBibliographyFile,
+	isContentFile,
+	isImageFile,
+	readVaultResources,
+	rebuildIdeas,
+	loadIdea,
+	readContentFile,
+	readContentFiles,
+	writeIdeasModule,
+} from "./content";
+import { writeImages } from "./assets";
+import { renderDiagrams } from "./diagrams";
 
-const CONTENT_DIR = join(process.cwd(), "content");
-const OUTPUT_FILE = join(process.cwd(), "generated-ideas.ts");
+// Usage: bun run scripts/generate-ideas.ts [--watch] [--production]
+//
+// --production leaves out drafts and ideas scheduled for a later date, and
+// renders mermaid diagrams to static SVG.
 
-async function generate() {
+const production = process.argv.includes("--production");
+
+interface Vault {
+	contents: Map<string, ContentFile>;
+	ideas: LoadedIdea[];
+}
+
+async function generate(): Promise<Vault> {
 	console.log("Generating ideas data...");
 
-	try {
-		const files = await readdir(CONTENT_DIR);
-		const mdFiles = files.filter((f) => f.endsWith(".md"));
+	const contents = await readContentFiles();
 
-		const ideas = await Promise.all(
-			mdFiles.map(async (file) => {
-				const filePath = join(CONTENT_DIR, file);
-				const content = await readFile(filePath, "utf-8");
-				const id = basename(file, ".md");
-				const path = `./content/${file}`;
+	const ids = new Map<string, string>();
+	for (const { id, path } of contents) {
+		const key = idKey(id);
+		if (ids.has(key)) {
+			console.error(`Duplicate idea id "${id}": ${ids.get(key)} and ${path}`);
+			process.exit(1);
+		}
+		ids.set(key, path);
+	}
 
-				return parseMarkdown(content, id, path);
-			}),
-		);
+	const { ideas, issues, warnings, orphans, excluded, images, diagrams } =
+		buildIdeas(contents, await readVaultResources(), { production });
 
-		// Sort by date descending
-		ideas.sort(
-			(a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
-		);
+	// Report every schema violation before failing the build
+	if (issues.length) {
+		console.error(`Found ${issues.length} frontmatter error(s):`);
+		issues.forEach((issue) => console.error(`  ${formatIssue(issue)}`));
+		process.exit(1);
+	}
 
-		const tsContent = `// This file is auto-generated. Do not edit manually.
-import { Idea } from "./types";
+	if (production) {
+		const rendered = await renderDiagrams(ideas, diagrams);
+		// Production bundles have no client-side renderer to fall back on
+		if (rendered.skipped) {
+			console.error(
+				`Could not start a browser to render diagrams: ${rendered.skipped}`,
+			);
+			process.exit(1);
+		}
+		if (rendered.issues.length) {
+			console.error(`Found ${rendered.issues.length} invalid diagram(s):`);
+			rendered.issues.forEach((issue) =>
+				console.error(`  ${formatIssue(issue)}`),
+			);
+			process.exit(1);
+		}
+	}
 
-export interface IdeaWithContent extends Idea {
-	content: string;
-}
+	if (warnings.length) {
+		console.warn(`Found ${warnings.length} unresolved link(s) or citation(s):`);
+		warnings.forEach((issue) => console.warn(`  ${formatIssue(issue)}`));
+	}
 
-export const IDEAS: IdeaWithContent[] = ${JSON.stringify(ideas, null, 2)};
-`;
+	if (orphans.length) {
+		console.warn(`Found ${orphans.length} idea(s) no other idea links to:`);
+		orphans.forEach(({ id }) => console.warn(`  ${id}`));
+	}
 
-		await writeFile(OUTPUT_FILE, tsContent);
-		console.log(
-			`Successfully generated ${mdFiles.length} ideas to ${OUTPUT_FILE}`,
+	if (excluded.length) {
+		console.log(`Skipped ${excluded.length} draft or scheduled idea(s):`);
+		excluded.forEach(({ id, visibility, date }) =>
+			console.log(`  ${id} (${visibility === "draft" ? "draft" : date})`),
 		);
-	} catch (error) {
-		console.error("Failed to generate ideas:", error);
-		process.exit(1);
 	}
+
+	await writeImages(images);
+	await writeIdeasModule(ideas, ideas, { production });
+	console.log(`Successfully generated ${ideas.length} ideas to ${OUTPUT_FILE}`);
+
+	return {
+		contents: new Map(contents.map((content) => [content.file, content])),
+		ideas,
+	};
+}
+
+// Rebuilds the vault when a file changes (see rebuildIdeas). Errors are
+// reported but keep the watcher alive, and the last good version of a broken
+// file stays in place.
+function watchContent({ contents, ideas }: Vault) {
+	console.log(`Watching ${CONTENT_DIR} for changes...`);
+
+	const rebuild = async () => {
+		const result = await rebuildIdeas([...contents.values()], ideas, {
+			production,
+		});
+		result.warnings.forEach((issue) => console.warn(formatIssue(issue)));
+		ideas = result.ideas;
+	};
+
+	// A file that was deleted or renamed away reads as undefined
+	const read = async (file: string) => {
+		try {
+			return await readContentFile(file);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+			return undefined;
+		}
+	};
+
+	watch(CONTENT_DIR, { recursive: true }, async (_event, filename) => {
+		if (!filename) return;
+		const file = join(CONTENT_DIR, filename);
+
+		try {
+			// Bibliographies and images are not ideas; every rebuild re-reads them
+			if (!isBibliographyFile(file) && !isImageFile(file)) {
+				if (!isContentFile(file)) return;
+				const content = await read(file);
+				if (content) {
+					const result = loadIdea(content);
+					if (result.issues) {
+						result.issues.forEach((issue) => console.error(formatIssue(issue)));
+						return;
+					}
+					contents.set(file, content);
+				} else {
+					contents.delete(file);
+				}
+			}
+
+			await rebuild();
+			console.log(`Regenerated ${filename}`);
+		} catch (error) {
+			console.error(`Failed to regenerate ${filename}:`, error);
+		}
+	});
 }
 
-generate();
+generate()
+	.then((vault) => {
+		if (process.argv.includes("--watch")) watchContent(vault);
+	})
+	.catch((error) => {
+		console.error("Failed to generate ideas:", error);
+		process.exit(1);
+	});
@@ -0,0 +1,328 @@
+import { existsSync } from "node:fs";
+import { dirname, relative, resolve, sep } from "node:path";
+import { visit } from "unist-util-visit";
+import { REGISTRY, simulationParamSpec } from "../components/DemoView";
+import {
+	CONTENT_DIR,
+	ContentFile,
+	VaultResources,
+	buildIdeas,
+	idKey,
+	readVaultResources,
+	readContentFiles,
+} from "./content";
+import { parseMarkdown } from "../utils/markdown";
+import {
+	FrontmatterError,
+	parseFrontmatter,
+	splitFrontmatter,
+} from "../utils/frontmatter";
+import { isExternalUrl, parseMdast } from "../utils/mdast";
+import { IMAGE_EXTENSIONS, findImage } from "../utils/images";
+import {
+	findSimulationEmbeds,
+	resolveSimulationParams,
+} from "../utils/simulations";
+
+// Usage: bun run lint:content [--strict] [--format=github]
+//
+// Exit codes: 0 = clean (warnings allowed unless --strict), 1 = problems found,
+// 2 = the linter itself crashed.
+
+type Severity = "error" | "warning";
+
+interface LintMessage {
+	path: string;
+	line: number;
+	column?: number;
+	severity: Severity;
+	rule: string;
+	message: string;
+}
+
+const args = process.argv.slice(2);
+const strict = args.includes("--strict");
+const format = args.find((a) => a.startsWith("--format="))?.split("=")[1];
+
+const messages: LintMessage[] = [];
+const report = (message: LintMessage) => messages.push(message);
+
+// The path of a URL, decoded; undefined when its escapes are malformed
+const stripUrl = (url: string) => {
+	try {
+		return decodeURI(url.replace(/[?#].*$/, ""));
+	} catch {
+		return undefined;
+	}
+};
+
+const malformedUrl = (url: string) =>
+	`"${url}" has a malformed percent-encoding`;
+
+// Line numbers of frontmatter keys, tolerant of files that fail validation.
+const frontmatterLines = (content: ContentFile) => {
+	const { block } = splitFrontmatter(content.source);
+	if (block === null) return {};
+	try {
+		return parseFrontmatter(block, { file: content.path, lineOffset: 2 }).lines;
+	} catch {
+		return {};
+	}
+};
+
+function lintIdea(
+	content: ContentFile,
+	knownIds: Set<string>,
+	simulations: string[],
+	{ images }: VaultResources,
+) {
+	const lines = frontmatterLines(content);
+
+	const checkSimulation = (name: string, line: number) => {
+		if (simulations.includes(name)) return true;
+		const suggestion = simulations.find(
+			(known) => known.toLowerCase() === name.toLowerCase(),
+		);
+		report({
+			path: content.path,
+			line,
+			severity: "error",
+			rule: "unknown-simulation",
+			message:
+				`Simulation "${name}" is not in the DemoView registry` +
+				(suggestion ? ` (did you mean "${suggestion}"?)` : ""),
+		});
+		return false;
+	};
+
+	const baseDir = dirname(content.file);
+	const vaultDir = relative(CONTENT_DIR, baseDir).split(sep).join("/");
+
+	// Images also resolve by file name anywhere in the vault, like Obsidian's
+	// attachments folder, which is how the generator finds them
+	const exists = (url: string, path: string) =>
+		existsSync(resolve(baseDir, path)) ||
+		(IMAGE_EXTENSIONS.test(path) &&
+			findImage(images, vaultDir, url) !== undefined);
+
+	try {
+		const idea = parseMarkdown(content.source, content.id, content.path);
+
+		if (idea.simulation) {
+			checkSimulation(idea.simulation, lines.simulation ?? 1);
+		}
+
+		if (!isExternalUrl(idea.coverImage)) {
+			const path = stripUrl(idea.coverImage);
+			if (path === undefined) {
+				report({
+					path: content.path,
+					line: lines.coverImage ?? 1,
+					severity: "error",
+					rule: "malformed-url",
+					message: `Cover image ${malformedUrl(idea.coverImage)}`,
+				});
+			} else if (!exists(idea.coverImage, path)) {
+				report({
+					path: content.path,
+					line: lines.coverImage ?? 1,
+					severity: "error",
+					rule: "missing-asset",
+					message: `Cover image "${idea.coverImage}" does not exist`,
+				});
+			}
+		}
+	} catch (error) {
+		if (!(error instanceof FrontmatterError)) throw error;
+		error.issues.forEach((issue) =>
+			report({
+				path: content.path,
+				line: issue.line,
+				severity: "error",
+				rule: "frontmatter",
+				message: issue.message,
+			}),
+		);
+	}
+
+	const { body, bodyLine } = splitFrontmatter(content.source);
+	const tree = parseMdast(body);
+
+	// Inline `sim` fences
+	findSimulationEmbeds(tree).forEach((embed) => {
+		const line = embed.line + bodyLine - 1;
+		if (!checkSimulation(embed.name, line)) return;
+		resolveSimulationParams(
+			simulationParamSpec(embed.name),
+			embed,
+		).issues.forEach((message) =>
+			report({
+				path: content.path,
+				line,
+				severity: "error",
+				rule: "simulation-params",
+				message,
+			}),
+		);
+	});
+
+	visit(tree, (node) => {
+		if (
+			node.type !== "image" &&
+			node.type !== "link" &&
+			node.type !== "definition"
+		) {
+			return;
+		}
+
+		const url = node.url;
+		if (!url || url.startsWith("#") || isExternalUrl(url)) return;
+
+		const at = {
+			path: content.path,
+			line: (node.position?.start.line ?? 1) + bodyLine - 1,
+			column: node.position?.start.column,
+		};
+
+		const path = stripUrl(url);
+		if (path === undefined) {
+			report({
+				...at,
+				severity: "error",
+				rule: "malformed-url",
+				message: malformedUrl(url),
+			});
+			return;
+		}
+
+		if (url.startsWith("/")) {
+			const ideaRoute = path.match(/^\/idea\/([^/]+)\/?$/);
+			if (ideaRoute && !knownIds.has(ideaRoute[1])) {
+				report({
+					...at,
+					severity: "error",
+					rule: "broken-link",
+					message: `Link to unknown idea "${ideaRoute[1]}"`,
+				});
+			} else if (
+				!ideaRoute &&
+				path !== "/" &&
+				!/^\/series\/[^/]+\/?$/.test(path)
+			) {
+				report({
+					...at,
+					severity: "warning",
+					rule: "unknown-route",
+					message: `"${url}" does not match a site route`,
+				});
+			}
+			return;
+		}
+
+		if (!exists(url, path)) {
+			const isImage = node.type === "image";
+			report({
+				...at,
+				severity: "error",
+				rule: isImage ? "missing-asset" : "broken-link",
+				message: `${isImage ? "Image" : "Link target"} "${url}" does not exist`,
+			});
+		}
+	});
+}
+
+function printStylish() {
+	const byFile = new Map<string, LintMessage[]>();
+	messages.forEach((m) =>
+		byFile.set(m.path, [...(byFile.get(m.path) ?? []), m]),
+	);
+
+	for (const [path, fileMessages] of byFile) {
+		console.log(`\n${path}`);
+		fileMessages
+			.sort((a, b) => a.line - b.line)
+			.forEach((m) => {
+				const position = `${m.line}:${m.column ?? 1}`.padEnd(8);
+				console.log(
+					`  ${position}${m.severity.padEnd(9)}${m.message}  ${m.rule}`,
+				);
+			});
+	}
+}
+
+function printGithub() {
+	messages.forEach((m) => {
+		const level = m.severity === "error" ? "error" : "warning";
+		const file = m.path.replace(/^\.\//, "");
+		console.log(
+			`::${level} file=${file},line=${m.line},col=${m.column ?? 1},title=${m.rule}::${m.message}`,
+		);
+	});
+}
+
+async function lint() {
+	const contents = await readContentFiles();
+	const simulations = Object.keys(REGISTRY);
+
+	// The same name in two folders collides (see idKey)
+	const seen = new Map<string, ContentFile>();
+	for (const content of contents) {
+		const key = idKey(content.id);
+		const first = seen.get(key);
+		if (first) {
+			report({
+				path: content.path,
+				line: 1,
+				severity: "error",
+				rule: "duplicate-id",
+				message: `Idea id "${content.id}" is already used by ${first.path}`,
+			});
+		} else {
+			seen.set(key, content);
+		}
+	}
+
+	const knownIds = new Set(contents.map((c) => c.id));
+	const resources = await readVaultResources();
+	contents.forEach((content) =>
+		lintIdea(content, knownIds, simulations, resources),
+	);
+
+	const { warnings: buildWarnings, orphans } = buildIdeas(contents, resources);
+	buildWarnings.forEach((issue) =>
+		report({
+			path: issue.file,
+			line: issue.line,
+			severity: "error",
+			rule: issue.rule,
+			message: issue.message,
+		}),
+	);
+	orphans.forEach((idea) =>
+		report({
+			path: idea.markdownPath,
+			line: 1,
+			severity: "warning",
+			rule: "orphan-idea",
+			message: `No other idea links to "${idea.id}"`,
+		}),
+	);
+
+	if (format === "github") printGithub();
+	else printStylish();
+
+	const errors = messages.filter((m) => m.severity === "error").length;
+	const warnings = messages.length - errors;
+
+	console.log(
+		`\nChecked ${contents.length} files in ${relative(process.cwd(), CONTENT_DIR)}: ` +
+			`${errors} error(s), ${warnings} warning(s)`,
+	);
+
+	if (errors > 0 || (strict && warnings > 0)) process.exit(1);
+}
+
+lint().catch((error) => {
+	console.error("Content lint crashed:", error);
+	process.exit(2);
+});
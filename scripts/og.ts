@@ -0,0 +1,151 @@
+import sharp from "sharp";
+import { Idea, ProjectStatus } from "../types";
+import { USER_CONFIG } from "../config";
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from "../utils/og";
+
+// Renders an idea's Open Graph card: an SVG in the site's lab-notebook style
+// (grid paper, mono labels, a hand-drawn status stamp) rasterized to PNG.
+// Fonts fall back to the system's sans/mono/cursive when the site's web
+// fonts are not installed, so shapes around text are sized for the widest
+// fallback glyphs.
+
+const WIDTH = OG_IMAGE_WIDTH;
+const HEIGHT = OG_IMAGE_HEIGHT;
+const PADDING = 72;
+// Average glyph widths in em: monospace, and bold sans as the widest fallback
+const MONO_EM = 0.6;
+const WIDE_EM = 0.62;
+// Room the lab name needs in the bottom right corner
+const SIGNATURE_WIDTH = 260;
+
+const FONTS = {
+	title: "'Space Grotesk', 'Inter', sans-serif",
+	body: "'Inter', sans-serif",
+	mono: "'JetBrains Mono', monospace",
+	sketch: "'Caveat', cursive",
+};
+
+// Same palette as the status badges on IdeaCard
+const STATUS_COLORS: Record<ProjectStatus, string> = {
+	CONCEPT: "#60a5fa",
+	RESEARCH: "#818cf8",
+	PROTOTYPE: "#fbbf24",
+	ALPHA: "#34d399",
+	ARCHIVED: "#71717a",
+};
+
+const escapeXml = (text: string) =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+// Greedy word wrap by character count (SVG text does not wrap); the last
+// line gets an ellipsis when text is cut off.
+const wrap = (text: string, maxChars: number, maxLines: number) => {
+	const lines: string[] = [];
+	let line = "";
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		if (line && line.length + word.length + 1 > maxChars) {
+			lines.push(line);
+			line = word;
+		} else {
+			line = line ? `${line} ${word}` : word;
+		}
+	}
+	if (line) lines.push(line);
+
+	if (lines.length > maxLines) {
+		const last = lines[maxLines - 1];
+		lines.length = maxLines;
+		lines[maxLines - 1] =
+			`${last.slice(0, maxChars - 1).replace(/\s+\S*$/, "")}…`;
+	}
+	return lines;
+};
+
+const gridLines = () => {
+	const lines: string[] = [];
+	for (let x = 0; x <= WIDTH; x += 40) {
+		lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${HEIGHT}" />`);
+	}
+	for (let y = 0; y <= HEIGHT; y += 40) {
+		lines.push(`<line x1="0" y1="${y}" x2="${WIDTH}" y2="${y}" />`);
+	}
+	return lines.join("");
+};
+
+export function renderOgSvg(idea: Idea): string {
+	const color = STATUS_COLORS[idea.status];
+	const status = `Status: ${idea.status}`;
+	const stampRx = (status.length * 30 * WIDE_EM) / 2 + 28;
+
+	// The reference label runs up to the stamp (22px mono plus 4px tracking)
+	const ref = `${USER_CONFIG.lab.toUpperCase()} // REF: ${idea.id.toUpperCase()}`;
+	const refChars = Math.floor(
+		(WIDTH - 2 * PADDING - 2 * stampRx - 24) / (22 * MONO_EM + 4),
+	);
+	const titleSize = idea.title.length > 48 ? 56 : 68;
+	const title = wrap(idea.title, Math.floor(1700 / titleSize), 3);
+	const subtitle = wrap(idea.subtitle, 62, 2);
+
+	const titleTop = 200;
+	const subtitleTop = titleTop + title.length * titleSize * 1.1 + 24;
+
+	// As many tags as fit left of the lab name
+	let tagX = PADDING;
+	const tags = idea.tags.flatMap((tag) => {
+		const label = `#${tag}`;
+		const width = label.length * 20 * MONO_EM + 28;
+		const x = tagX;
+		if (x + width > WIDTH - PADDING - SIGNATURE_WIDTH) {
+			tagX = Infinity;
+			return [];
+		}
+		tagX += width + 12;
+		return `<g transform="translate(${x} ${HEIGHT - PADDING - 40})">
+			<rect width="${width}" height="40" fill="none" stroke="#3f3f46" stroke-width="2" />
+			<text x="14" y="27" font-family="${FONTS.mono}" font-size="20" fill="#d4d4d8">${escapeXml(label)}</text>
+		</g>`;
+	});
+
+	return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+	<rect width="100%" height="100%" fill="#09090b" />
+	<g stroke="#27272a" stroke-width="1" opacity="0.6">${gridLines()}</g>
+	<rect x="24" y="24" width="${WIDTH - 48}" height="${HEIGHT - 48}" fill="none" stroke="#3f3f46" stroke-width="2" stroke-dasharray="10 8" />
+
+	<text x="${PADDING}" y="${PADDING + 24}" font-family="${FONTS.mono}" font-size="22" letter-spacing="4" fill="#818cf8">${escapeXml(ref.length > refChars ? `${ref.slice(0, refChars - 1)}…` : ref)}</text>
+
+	<g transform="translate(${WIDTH - PADDING - stampRx} ${PADDING + 14}) rotate(-3)">
+		<ellipse rx="${stampRx}" ry="40" fill="none" stroke="${color}" stroke-width="3" />
+		<ellipse cx="3" cy="-2" rx="${stampRx - 6}" ry="35" fill="none" stroke="${color}" stroke-width="1.5" opacity="0.6" />
+		<text y="10" text-anchor="middle" font-family="${FONTS.sketch}" font-size="30" font-weight="700" fill="${color}">${escapeXml(status)}</text>
+	</g>
+
+	<rect x="${PADDING}" y="${titleTop - titleSize + 12}" width="8" height="${title.length * titleSize * 1.1}" fill="#6366f1" />
+	${title
+		.map(
+			(line, i) =>
+				`<text x="${PADDING + 32}" y="${titleTop + i * titleSize * 1.1}" font-family="${FONTS.title}" font-size="${titleSize}" font-weight="700" fill="#ffffff">${escapeXml(line)}</text>`,
+		)
+		.join("\n\t")}
+
+	${subtitle
+		.map(
+			(line, i) =>
+				`<text x="${PADDING + 32}" y="${subtitleTop + i * 40}" font-family="${FONTS.body}" font-size="30" font-weight="300" fill="#a1a1aa">${escapeXml(line)}</text>`,
+		)
+		.join("\n\t")}
+
+	${tags.join("\n\t")}
+
+	<text x="${WIDTH - PADDING}" y="${HEIGHT - PADDING - 6}" text-anchor="end" font-family="${FONTS.sketch}" font-size="44" font-weight="700" fill="#e4e4e7">${escapeXml(USER_CONFIG.lab)}</text>
+	<path d="M ${WIDTH - PADDING - 170} ${HEIGHT - PADDING + 8} q 60 -10 120 -2 t 50 -4" fill="none" stroke="#6366f1" stroke-width="4" stroke-linecap="round" />
+</svg>`;
+}
+
+export const renderOgImage = (idea: Idea): Promise<Buffer> =>
+	sharp(Buffer.from(renderOgSvg(idea)))
+		.png()
+		.toBuffer();
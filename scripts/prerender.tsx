@@ -0,0 +1,13 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import App from "../App";
+import { preloadRoute } from "../hooks/useIdeas";
+import { sitePath } from "../utils/site";
+
+// Renders the page at route `url` to HTML for the static build. index.tsx hydrates
+// it, after preloading the same content, so the markup must not depend on
+// anything but the route and the generated ideas.
+export async function prerender(url: string): Promise<string> {
+	await preloadRoute(url);
+	return renderToString(<App location={sitePath(url)} helmetContext={{}} />);
+}
@@ -0,0 +1,154 @@
+import { normalizePath, type Plugin, type ViteDevServer } from "vite";
+import { formatIssue } from "../utils/frontmatter";
+import {
+	CONTENT_DIR,
+	CONTENT_OUTPUT_DIR,
+	ContentFile,
+	LoadedIdea,
+	OUTPUT_FILE,
+	buildIdeas,
+	isBibliographyFile,
+	isContentFile,
+	isImageFile,
+	readVaultResources,
+	rebuildIdeas,
+	loadIdea,
+	readContentFile,
+	readContentFiles,
+} from "./content";
+import { ASSET_OUTPUT_DIR, writeImages } from "./assets";
+
+// Dev-only plugin that keeps generated-ideas.ts in sync with the vault.
+//
+// When a markdown file changes the vault is rebuilt (wiki-links make ideas
+// depend on each other), the generated modules of the ideas that changed are
+// rewritten (so a full reload still sees them) and each one is pushed to the
+// browser as an `ideas:update` event that useIdeas applies in place.
+// Frontmatter errors are shown in Vite's error overlay instead.
+export default function ideasHotReload(): Plugin {
+	const contentDir = normalizePath(CONTENT_DIR);
+	const outputFile = normalizePath(OUTPUT_FILE);
+	const contentOutputDir = normalizePath(CONTENT_OUTPUT_DIR);
+	const assetOutputDir = normalizePath(ASSET_OUTPUT_DIR);
+
+	// Last good version of every file, keyed by normalized path
+	const contents = new Map<string, ContentFile>();
+	let ideas: LoadedIdea[] = [];
+
+	const sendError = (
+		server: ViteDevServer,
+		file: string,
+		message: string,
+		line: number,
+	) =>
+		server.ws.send({
+			type: "error",
+			err: {
+				message,
+				stack: "",
+				id: file,
+				plugin: "paperlens-ideas",
+				loc: { file, line, column: 1 },
+			},
+		});
+
+	const rebuild = async (server: ViteDevServer) => {
+		const { changed, removed, ...result } = await rebuildIdeas(
+			[...contents.values()],
+			ideas,
+		);
+		result.warnings.forEach((issue) =>
+			server.config.logger.warn(formatIssue(issue)),
+		);
+		ideas = result.ideas;
+
+		for (const { id } of removed) {
+			server.ws.send({ type: "custom", event: "ideas:remove", data: { id } });
+			server.config.logger.info(`ideas: removed ${id}`, { timestamp: true });
+		}
+		for (const idea of changed) {
+			server.ws.send({ type: "custom", event: "ideas:update", data: { idea } });
+			server.config.logger.info(`ideas: updated ${idea.id}`, {
+				timestamp: true,
+			});
+		}
+	};
+
+	const update = async (server: ViteDevServer, file: string) => {
+		const content = await readContentFile(file);
+		const result = loadIdea(content);
+
+		if (result.issues) {
+			const [first] = result.issues;
+			server.config.logger.error(result.issues.map(formatIssue).join("\n"));
+			sendError(
+				server,
+				file,
+				result.issues.map(formatIssue).join("\n"),
+				first.line,
+			);
+			return;
+		}
+
+		contents.set(file, content);
+		await rebuild(server);
+	};
+
+	const remove = async (server: ViteDevServer, file: string) => {
+		if (!contents.delete(file)) return;
+		await rebuild(server);
+	};
+
+	return {
+		name: "paperlens-ideas",
+		apply: "serve",
+
+		async configureServer(server) {
+			for (const content of await readContentFiles()) {
+				contents.set(normalizePath(content.file), content);
+			}
+			const result = buildIdeas(
+				[...contents.values()],
+				await readVaultResources(),
+			);
+			await writeImages(result.images);
+			ideas = result.ideas;
+
+			server.watcher.add(CONTENT_DIR);
+
+			const handle =
+				(handler: (server: ViteDevServer, file: string) => Promise<void>) =>
+				(path: string) => {
+					const file = normalizePath(path);
+					// Bibliographies and images are not ideas; every rebuild
+					// re-reads them
+					const task =
+						isBibliographyFile(path) || isImageFile(path)
+							? rebuild(server)
+							: isContentFile(path)
+								? handler(server, file)
+								: undefined;
+					task?.catch((error) =>
+						sendError(server, file, String(error?.stack ?? error), 1),
+					);
+				};
+
+			server.watcher.on("add", handle(update));
+			server.watcher.on("change", handle(update));
+			server.watcher.on("unlink", handle(remove));
+		},
+
+		// The plugin delivers content changes itself; stop Vite from also
+		// reloading the modules that import the generated files.
+		handleHotUpdate({ file }) {
+			if (
+				file === outputFile ||
+				file.startsWith(`${contentDir}/`) ||
+				file.startsWith(`${contentOutputDir}/`) ||
+				file.startsWith(`${assetOutputDir}/`)
+			) {
+				return [];
+			}
+		},
+	};
+}
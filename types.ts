@@ -1,22 +1,121 @@
-export type ProjectStatus = "CONCEPT" | "PROTOTYPE" | "ALPHA" | "ARCHIVED";
-export type ProjectCategory = "idea" | "deep-dive";
+export const PROJECT_STATUSES = [
+	"CONCEPT",
+	"RESEARCH",
+	"PROTOTYPE",
+	"ALPHA",
+	"ARCHIVED",
+] as const;
+export const PROJECT_CATEGORIES = ["idea", "deep-dive"] as const;
+export const IDEA_VISIBILITIES = [
+	"public",
+	"unlisted",
+	"draft",
+	"scheduled",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+export type ProjectCategory = (typeof PROJECT_CATEGORIES)[number];
+export type IdeaVisibility = (typeof IDEA_VISIBILITIES)[number];
+
+// Computed from the markdown body at generation time
+export interface ContentMetrics {
+	wordCount: number;
+	codeBlocks: number;
+	mathBlocks: number;
+	diagrams: number;
+}
+
+export interface OutlineHeading {
+	depth: number;
+	text: string;
+	id: string; // Anchor id of the rendered heading
+}
+
+// Another idea linking to this one, with the text around each link
+export interface Backlink {
+	id: string;
+	title: string;
+	snippets: string[];
+}
+
+// Directed edge of the cross-idea link graph
+export interface IdeaLink {
+	source: string;
+	target: string;
+}
+
+// Membership of a multi-part series, declared with `series` and `seriesOrder`
+export interface IdeaSeries {
+	id: string; // Slug of the title, used by the /series/:id route
+	title: string;
+	order?: number;
+}
 
 export interface Idea {
 	id: string;
 	title: string;
 	subtitle: string;
 	date: string;
+	updated?: string; // Date of the last substantive revision
+	visibility: IdeaVisibility; // From `draft`, `unlisted` and the date
 	status: ProjectStatus;
 	category?: ProjectCategory;
 	impact: string; // e.g., "100x efficiency gain"
-	readTime: string;
+	readTime: string; // Estimated from metrics, e.g. "12m"
+	metrics: ContentMetrics;
+	outline: OutlineHeading[];
+	backlinks: Backlink[]; // Computed across the vault at generation time
 	tags: string[];
-	coverImage: string;
+	aliases?: string[]; // Alternative names wiki-links may use
+	coverImage: string; // Hashed asset URL when the cover lives in the vault
+	cover?: ImageAsset; // Size and variants of a local cover image
 	markdownPath: string; // Path to the .md file
 	pdfUrl?: string;
 	demoUrl?: string;
 	githubUrl?: string;
 	featured?: boolean;
 	simulation?: string; // Name of the simulation component to load
-	content?: string; // The body of the markdown file
+	series?: IdeaSeries;
+}
+
+// Bibliography entry cited by an idea, numbered in order of first citation
+export interface Reference {
+	key: string; // BibTeX citation key
+	number: number;
+	authors: string; // Formatted, e.g. "A. Vaswani, N. Shazeer et al."
+	title: string;
+	venue?: string; // Journal, proceedings or publisher
+	year?: string;
+	url?: string; // From `url`, `doi` or an arXiv `eprint`
+}
+
+// Vault image copied into the build under a content-hashed name
+export interface ImageAsset {
+	src: string; // Full-size URL, e.g. "/assets/diagram-3f2a9c1e.png"
+	width: number;
+	height: number;
+	srcSet: string; // Responsive variants, e.g. "/assets/diagram-3f2a9c1e-480w.png 480w, ..."
+}
+
+// KaTeX markup of one math node, rendered at generation time
+export interface RenderedMath {
+	html: string;
+	tex: string; // Source as written, for "copy LaTeX"
+	id?: string; // Anchor of a labeled display equation, e.g. "eq-energy"
+}
+
+// Number of a figure, table or code listing, assigned at generation time
+export interface NumberedBlock {
+	label: string; // e.g. "Figure 3"
+	id?: string; // Anchor of a labeled block, e.g. "fig-convergence"
+}
+
+// Lazily loaded per-idea chunk emitted next to the metadata manifest
+export interface IdeaContent {
+	content: string; // The body of the markdown file
+	references: Reference[];
+	images: Record<string, ImageAsset>; // Local images in `content`, by `src`
+	diagrams: Record<string, string>; // Build-time SVG of mermaid fences, by source
+	math: RenderedMath[]; // Every math node in `content`, in document order
+	numbering: NumberedBlock[]; // Figures, tables and code listings in `content`, in document order
 }
@@ -0,0 +1,230 @@
+import { FrontmatterError, FrontmatterIssue } from "./frontmatter";
+
+// Minimal BibTeX reader for the fields the References section shows.
+// Supports braced and quoted values, bare numbers, `@string` macros and `#`
+// concatenation; `@comment` and `@preamble` blocks and `%` lines are skipped.
+
+export interface BibEntry {
+	key: string;
+	type: string; // Lower-cased entry type, e.g. "article"
+	fields: Record<string, string>; // Lower-cased field names
+	file: string;
+	line: number;
+}
+
+// Month macros every BibTeX style predefines
+const BUILTIN_STRINGS: Record<string, string> = Object.fromEntries(
+	["jan", "feb", "mar", "apr", "may", "jun"]
+		.concat(["jul", "aug", "sep", "oct", "nov", "dec"])
+		.map((month) => [month, month[0].toUpperCase() + month.slice(1)]),
+);
+
+// LaTeX accent commands and the Unicode combining marks they stand for
+const LATEX_ACCENTS: Record<string, string> = {
+	"'": "\u0301",
+	"`": "\u0300",
+	"^": "\u0302",
+	'"': "\u0308",
+	"~": "\u0303",
+	"=": "\u0304",
+	".": "\u0307",
+	c: "\u0327",
+	v: "\u030c",
+	u: "\u0306",
+	H: "\u030b",
+};
+
+const LATEX_LETTERS: Record<string, string> = {
+	ss: "ß",
+	o: "ø",
+	O: "Ø",
+	ae: "æ",
+	AE: "Æ",
+	aa: "å",
+	AA: "Å",
+	l: "ł",
+	L: "Ł",
+};
+
+// Turns a raw field value into plain text: accents become Unicode, groups and
+// remaining commands are dropped.
+export const cleanLatex = (value: string): string =>
+	value
+		.replace(
+			/\\([`'^"~=.cvuH])\s*\{?\\?([a-zA-Z])\}?/g,
+			(_, accent: string, letter: string) =>
+				(letter + LATEX_ACCENTS[accent]).normalize("NFC"),
+		)
+		.replace(
+			/\\(ss|o|O|ae|AE|aa|AA|l|L)\b\s*/g,
+			(_, name: string) => LATEX_LETTERS[name],
+		)
+		.replace(/\\([&%$#_{}])/g, "$1")
+		.replace(/---/g, "—")
+		.replace(/--/g, "–")
+		.replace(/~/g, " ")
+		.replace(/\\[a-zA-Z]+\s*/g, "")
+		.replace(/[{}]/g, "")
+		.replace(/\s+/g, " ")
+		.trim();
+
+export const parseBibtex = (
+	source: string,
+	file: string,
+): { entries: BibEntry[]; issues: FrontmatterIssue[] } => {
+	const entries: BibEntry[] = [];
+	const issues: FrontmatterIssue[] = [];
+	const strings: Record<string, string> = { ...BUILTIN_STRINGS };
+	let pos = 0;
+
+	const lineAt = (offset: number) => source.slice(0, offset).split("\n").length;
+	const fail = (message: string, offset = pos): never => {
+		throw new FrontmatterError([{ file, line: lineAt(offset), message }]);
+	};
+	const skipSpace = () => {
+		while (pos < source.length && /\s/.test(source[pos])) pos++;
+	};
+	const readName = () => {
+		const match = /^[^\s"#%'(),={}]+/.exec(source.slice(pos));
+		if (!match) {
+			return fail(`Expected a name, found "${source[pos] ?? "end of file"}"`);
+		}
+		pos += match[0].length;
+		return match[0];
+	};
+
+	// Reads a balanced {...} group starting at `pos`, without the outer braces
+	const readBraced = () => {
+		const start = pos;
+		let depth = 0;
+		for (; pos < source.length; pos++) {
+			if (source[pos] === "\\") {
+				pos++;
+			} else if (source[pos] === "{") {
+				depth++;
+			} else if (source[pos] === "}" && --depth === 0) {
+				pos++;
+				return source.slice(start + 1, pos - 1);
+			}
+		}
+		return fail("Unterminated {", start);
+	};
+
+	const readQuoted = () => {
+		const start = pos++;
+		let depth = 0;
+		for (; pos < source.length; pos++) {
+			const char = source[pos];
+			if (char === "\\") pos++;
+			else if (char === "{") depth++;
+			else if (char === "}") depth--;
+			else if (char === '"' && depth === 0) {
+				pos++;
+				return source.slice(start + 1, pos - 1);
+			}
+		}
+		return fail('Unterminated "', start);
+	};
+
+	// value = part ("#" part)*
+	const readValue = () => {
+		let value = "";
+		for (;;) {
+			skipSpace();
+			const char = source[pos];
+			if (char === "{") value += readBraced();
+			else if (char === '"') value += readQuoted();
+			else if (/\d/.test(char)) value += readName();
+			else {
+				const start = pos;
+				const name = readName().toLowerCase();
+				if (!(name in strings)) fail(`Unknown @string "${name}"`, start);
+				value += strings[name];
+			}
+			skipSpace();
+			if (source[pos] !== "#") return value;
+			pos++;
+		}
+	};
+
+	while (pos < source.length) {
+		const at = source.indexOf("@", pos);
+		if (at === -1) break;
+		pos = at + 1;
+
+		// Text between entries is ignored, including `%` comment lines
+		const lineStart = source.lastIndexOf("\n", at) + 1;
+		if (source.slice(lineStart, at).trimStart().startsWith("%")) continue;
+
+		try {
+			const type = readName().toLowerCase();
+			skipSpace();
+			const open = source[pos];
+			if (open !== "{" && open !== "(") fail(`Expected "{" after @${type}`);
+			const close = open === "{" ? "}" : ")";
+
+			if (type === "comment" || type === "preamble") {
+				if (open === "{") readBraced();
+				else pos = source.indexOf(")", pos) + 1 || source.length;
+				continue;
+			}
+			pos++;
+			skipSpace();
+
+			if (type === "string") {
+				const name = readName().toLowerCase();
+				skipSpace();
+				if (source[pos++] !== "=") fail(`Expected "=" in @string`, pos - 1);
+				strings[name] = readValue();
+				skipSpace();
+				if (source[pos++] !== close) fail(`Expected "${close}"`, pos - 1);
+				continue;
+			}
+
+			const keyStart = pos;
+			const key = readName();
+			const entry: BibEntry = {
+				key,
+				type,
+				fields: {},
+				file,
+				line: lineAt(keyStart),
+			};
+
+			for (;;) {
+				skipSpace();
+				if (source[pos] === close) {
+					pos++;
+					break;
+				}
+				if (source[pos] !== ",") fail(`Expected "," or "${close}"`);
+				pos++;
+				skipSpace();
+				if (source[pos] === close) continue;
+
+				const field = readName().toLowerCase();
+				skipSpace();
+				if (source[pos] !== "=") fail(`Expected "=" after "${field}"`);
+				pos++;
+				entry.fields[field] = cleanLatex(readValue());
+			}
+
+			if (entries.some((e) => e.key === key)) {
+				issues.push({
+					file,
+					line: entry.line,
+					message: `Duplicate citation key "${key}"`,
+				});
+			} else {
+				entries.push(entry);
+			}
+		} catch (error) {
+			if (!(error instanceof FrontmatterError)) throw error;
+			issues.push(...error.issues);
+			// Resume at the next entry
+			pos = Math.max(pos, at + 1);
+		}
+	}
+
+	return { entries, issues };
+};
@@ -0,0 +1,207 @@
+import { visit, SKIP } from "unist-util-visit";
+import type {
+	BlockContent,
+	Blockquote,
+	DefinitionContent,
+	Paragraph,
+	PhrasingContent,
+	Root,
+} from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import type { VFile } from "vfile";
+
+// Remark plugin for callouts, written as Obsidian blockquotes or as generic
+// container directives:
+//
+//   > [!warning] Optional title        :::warning[Optional title]
+//   > Body                             Body
+//                                      :::
+//
+// `> [!tip]-` and `:::tip{collapsed}` start collapsed, `> [!tip]+` and
+// `:::tip{open}` start expanded, and both can be toggled. Each callout becomes
+// an `aside[data-callout]` (or `details` when collapsible) whose first child
+// is the title, which MarkdownRenderer styles per type.
+
+// Obsidian's callout types, each listed with its aliases
+const CALLOUT_TYPES: Record<string, string[]> = {
+	note: [],
+	abstract: ["summary", "tldr"],
+	info: [],
+	todo: [],
+	tip: ["hint", "important"],
+	success: ["check", "done"],
+	question: ["help", "faq"],
+	warning: ["caution", "attention"],
+	failure: ["fail", "missing"],
+	danger: ["error"],
+	bug: [],
+	example: [],
+	quote: ["cite"],
+};
+
+const ALIASES = new Map(
+	Object.entries(CALLOUT_TYPES).flatMap(([type, aliases]) =>
+		[type, ...aliases].map((name) => [name, type]),
+	),
+);
+
+// Unknown types are kept, and styled like a note
+export const calloutType = (name: string) =>
+	ALIASES.get(name.toLowerCase()) ?? name.toLowerCase();
+
+const MARKER_PATTERN = /^\[!([\w-]+)\]([+-]?)[ \t]*/;
+
+type Fold = "open" | "closed" | undefined;
+const FOLDS: Record<string, Fold> = { "+": "open", "-": "closed" };
+type Body = (BlockContent | DefinitionContent)[];
+
+const capitalize = (text: string) =>
+	text.charAt(0).toUpperCase() + text.slice(1);
+
+// Turns `node` into a callout in place
+const toCallout = (
+	node: Blockquote | ContainerDirective,
+	name: string,
+	fold: Fold,
+	title: PhrasingContent[],
+	body: Body,
+) => {
+	const type = calloutType(name);
+	const heading: Paragraph = {
+		type: "paragraph",
+		children: title.length
+			? title
+			: [{ type: "text", value: capitalize(name) }],
+		data: {
+			hName: fold ? "summary" : "div",
+			hProperties: { dataCalloutTitle: type },
+		},
+	};
+
+	node.data = {
+		...node.data,
+		hName: fold ? "details" : "aside",
+		hProperties: { dataCallout: type, open: fold === "open" || undefined },
+	};
+	Object.assign(node, { children: [heading, ...body] });
+};
+
+// `> [!type]± Title` followed by the body on the next lines
+const blockquoteCallout = (node: Blockquote) => {
+	const [first, ...rest] = node.children;
+	if (first?.type !== "paragraph") return;
+	const [lead] = first.children;
+	const marker = lead?.type === "text" && lead.value.match(MARKER_PATTERN);
+	if (!marker) return;
+
+	lead.value = lead.value.slice(marker[0].length);
+
+	// The title runs to the end of the marker's line
+	const title: PhrasingContent[] = [];
+	const remainder: PhrasingContent[] = [];
+	for (const [i, child] of first.children.entries()) {
+		const after = first.children.slice(i + 1);
+		if (child.type === "break") {
+			remainder.push(...after);
+			break;
+		}
+		if (child.type !== "text" || !child.value.includes("\n")) {
+			title.push(child);
+			continue;
+		}
+		const newline = child.value.indexOf("\n");
+		title.push({ type: "text", value: child.value.slice(0, newline) });
+		remainder.push(
+			{ type: "text", value: child.value.slice(newline + 1) },
+			...after,
+		);
+		break;
+	}
+
+	const body: Body = remainder.length
+		? [{ ...first, children: remainder }, ...rest]
+		: rest;
+	toCallout(
+		node,
+		marker[1],
+		FOLDS[marker[2]],
+		title.filter((child) => child.type !== "text" || child.value.trim()),
+		body,
+	);
+};
+
+// `:::type[Title]{collapsed|open}`; the label paragraph holds the title
+const directiveCallout = (node: ContainerDirective) => {
+	const [first, ...rest] = node.children;
+	const labelled = first?.type === "paragraph" && first.data?.directiveLabel;
+	const attributes = node.attributes ?? {};
+	const fold =
+		"collapsed" in attributes
+			? "closed"
+			: "open" in attributes
+				? "open"
+				: undefined;
+
+	toCallout(
+		node,
+		node.name,
+		fold,
+		labelled ? first.children : [],
+		(labelled ? rest : node.children) as Body,
+	);
+};
+
+// remark-directive also reads `:name` and `::name`, which prose such as
+// "Status:ACTIVE" runs into. Those are put back as the text they were written
+// as, keeping any label content (and the math in it) as nodes.
+export const restoreDirectives = (tree: Root, source: string) => {
+	visit(tree, (node, index, parent) => {
+		if (
+			(node.type !== "textDirective" && node.type !== "leafDirective") ||
+			!parent ||
+			index === undefined
+		) {
+			return;
+		}
+
+		const start = node.position?.start.offset;
+		const end = node.position?.end.offset;
+		const children = node.children;
+		const text = (from?: number, to?: number) =>
+			from === undefined || to === undefined ? "" : source.slice(from, to);
+		const prefix =
+			start === undefined
+				? `:${node.name}`
+				: text(start, children[0]?.position?.start.offset ?? end);
+		const suffix = children.length
+			? text(children[children.length - 1].position?.end.offset, end)
+			: "";
+		const phrasing: PhrasingContent[] = [
+			{ type: "text", value: prefix },
+			...children,
+			...(suffix ? [{ type: "text", value: suffix } as const] : []),
+		];
+
+		if (node.type === "leafDirective") {
+			parent.children.splice(index, 1, {
+				type: "paragraph",
+				children: phrasing,
+			} as Paragraph);
+		} else {
+			parent.children.splice(index, 1, ...(phrasing as typeof parent.children));
+		}
+		return [SKIP, index];
+	});
+};
+
+export const remarkCallouts = () => (tree: Root, file: VFile) => {
+	restoreDirectives(tree, String(file.value));
+
+	visit(tree, (node) => {
+		if (node.type === "blockquote") blockquoteCallout(node);
+		// Directives another plugin has claimed keep their element
+		if (node.type === "containerDirective" && !node.data?.hName) {
+			directiveCallout(node);
+		}
+	});
+};
@@ -0,0 +1,148 @@
+import { Reference } from "../types";
+import { BibEntry } from "./bibtex";
+import { overlapsRange, verbatimRanges } from "./mdast";
+
+// Resolves Pandoc-style citations against a BibTeX library:
+//
+//   [@vaswani2017]                  -> [1]
+//   [@vaswani2017; @shazeer2017]    -> [1, 2]
+//   [see @vaswani2017, sec. 3]      -> [see 1, sec. 3]
+//
+// Each number links to `#ref-<key>` in the References section, which
+// MarkdownRenderer turns into a citation with a hover preview.
+
+export interface CitationIssue {
+	line: number; // 1-based line within the body
+	message: string;
+}
+
+// A bracketed group containing at least one @key, not part of a link
+const GROUP_PATTERN = /\[([^\[\]\n]*@[^\[\]\n]*)\](?![(\[:])/g;
+// One citation within a group: optional prefix, @key, optional locator
+const ITEM_PATTERN =
+	/^(?:(.*?)\s+)?@([\w:.#$%&+?<>~/-]+?)\s*(?:,\s*(.+?))?\s*$/;
+
+const MAX_AUTHORS = 3;
+
+// Anchor of the generated References section, appended to the outline
+export const REFERENCES_ID = "references";
+
+export const referenceAnchor = (key: string) => `ref-${key}`;
+
+// "Vaswani, Ashish and Shazeer, Noam" -> "A. Vaswani, N. Shazeer"
+const formatAuthors = (authors?: string) => {
+	if (!authors) return "Unknown author";
+
+	const names = authors.split(/\s+and\s+/).map((name) => {
+		if (name === "others") return "";
+		const [last, first] = name.includes(",")
+			? name.split(",").map((part) => part.trim())
+			: [name.split(" ").pop()!, name.split(" ").slice(0, -1).join(" ")];
+		const initials = first
+			.split(/[\s.]+/)
+			.filter(Boolean)
+			.map((part) => `${part[0]}.`)
+			.join(" ");
+		return initials ? `${initials} ${last}` : last;
+	});
+	const known = names.filter(Boolean);
+
+	if (known.length > MAX_AUTHORS || known.length < names.length) {
+		return `${known.slice(0, MAX_AUTHORS).join(", ")} et al.`;
+	}
+	return known.join(", ");
+};
+
+const referenceUrl = ({ fields }: BibEntry) => {
+	if (fields.url) return fields.url;
+	if (fields.doi) {
+		return `https://doi.org/${fields.doi.replace(/^https?:\/\/doi\.org\//, "")}`;
+	}
+	if (
+		fields.eprint &&
+		(fields.archiveprefix ?? "arxiv").toLowerCase() === "arxiv"
+	) {
+		return `https://arxiv.org/abs/${fields.eprint}`;
+	}
+	return undefined;
+};
+
+export const toReference = (entry: BibEntry, number: number): Reference => {
+	const { fields } = entry;
+	const arxiv =
+		fields.eprint && !fields.journal && !fields.booktitle
+			? `arXiv:${fields.eprint}`
+			: undefined;
+
+	return {
+		key: entry.key,
+		number,
+		authors: formatAuthors(fields.author ?? fields.editor),
+		title: fields.title ?? entry.key,
+		venue:
+			fields.journal ??
+			fields.booktitle ??
+			arxiv ??
+			fields.publisher ??
+			fields.institution ??
+			fields.howpublished,
+		year: fields.year,
+		url: referenceUrl(entry),
+	};
+};
+
+export const resolveCitations = (
+	body: string,
+	library: Map<string, BibEntry>,
+): { content: string; references: Reference[]; issues: CitationIssue[] } => {
+	const references: Reference[] = [];
+	const issues: CitationIssue[] = [];
+	const ranges = verbatimRanges(body);
+
+	const cite = (key: string) => {
+		let reference = references.find((r) => r.key === key);
+		if (!reference) {
+			reference = toReference(library.get(key)!, references.length + 1);
+			references.push(reference);
+		}
+		return reference;
+	};
+
+	const content = body.replace(
+		GROUP_PATTERN,
+		(match, inner: string, offset: number) => {
+			if (overlapsRange(ranges, offset, offset + match.length)) return match;
+
+			const items = inner
+				.split(";")
+				.map((item) => ITEM_PATTERN.exec(item.trim()));
+			// Not every part is a citation, e.g. "[email me @ home]"
+			if (items.some((item) => !item)) return match;
+
+			const unknown = items.filter((item) => !library.has(item![2]));
+			if (unknown.length) {
+				const line = body.slice(0, offset).split("\n").length;
+				unknown.forEach((item) =>
+					issues.push({ line, message: `Unknown citation key "${item![2]}"` }),
+				);
+				return match;
+			}
+
+			const cited = items.map((item) => {
+				const [, prefix, key, locator] = item!;
+				const { number } = cite(key);
+				return [
+					prefix && `${prefix} `,
+					`[${number}](#${referenceAnchor(key)})`,
+					locator && `, ${locator}`,
+				]
+					.filter(Boolean)
+					.join("");
+			});
+
+			return `\\[${cited.join(", ")}\\]`;
+		},
+	);
+
+	return { content, references, issues };
+};
@@ -0,0 +1,161 @@
+import { visit, SKIP } from "unist-util-visit";
+import type { Code, Root, RootContent } from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { createSlugger } from "./slug";
+
+// Options written after a fence's language:
+//
+//   ```python title="mpc.py" {3-5,9}    file name and highlighted lines
+//   ```python diff                      +/- lines are additions and removals
+//   ```python collapse=8                long blocks open collapsed
+//   ```python tab="PyTorch"             consecutive tabbed fences are grouped
+//   ```js run timeout=5000              a runnable cell (CodeCell)
+//   ```python {#lst:train}              a label for cross-references
+
+export interface CodeMeta {
+	title?: string;
+	tab?: string;
+	label?: string; // e.g. "lst:train", see utils/crossReferences.ts
+	highlight: Set<number>; // 1-based line numbers
+	diff: boolean;
+	collapse?: number; // Lines left visible while collapsed
+	noCollapse: boolean;
+	run: boolean;
+	timeout?: number;
+}
+
+export interface CodeTab {
+	label: string;
+	id: string; // Id of the code block
+}
+
+const META_PATTERN =
+	/\{#([^{}\s]+)\}|\{([\d,\s-]*)\}|([\w-]+)(?:=("[^"]*"|'[^']*'|\S*))?/g;
+
+// Lines shown by `collapse` without a number
+const DEFAULT_COLLAPSE_LINES = 12;
+
+const positive = (value?: string) => {
+	const number = Number(value);
+	return Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+// "3-5,9" -> {3, 4, 5, 9}
+const lineRanges = (ranges: string) => {
+	const lines = new Set<number>();
+	for (const range of ranges.split(",")) {
+		const [from, to = from] = range.split("-").map((n) => positive(n.trim()));
+		if (from === undefined || to === undefined) continue;
+		for (let line = from; line <= to; line++) lines.add(line);
+	}
+	return lines;
+};
+
+export const parseCodeMeta = (meta?: string | null): CodeMeta => {
+	const parsed: CodeMeta = {
+		highlight: new Set(),
+		diff: false,
+		noCollapse: false,
+		run: false,
+	};
+
+	for (const [, label, ranges, key, raw] of (meta ?? "").matchAll(
+		META_PATTERN,
+	)) {
+		if (label !== undefined) {
+			parsed.label = label;
+			continue;
+		}
+		if (ranges !== undefined) {
+			lineRanges(ranges).forEach((line) => parsed.highlight.add(line));
+			continue;
+		}
+		const value = raw?.replace(/^(["'])(.*)\1$/, "$2");
+		switch (key) {
+			case "title":
+			case "tab":
+				if (value) parsed[key] = value;
+				break;
+			case "diff":
+			case "run":
+				parsed[key] = true;
+				break;
+			case "nocollapse":
+				parsed.noCollapse = true;
+				break;
+			case "collapse":
+				parsed.collapse = positive(value) ?? DEFAULT_COLLAPSE_LINES;
+				break;
+			case "timeout":
+				parsed.timeout = positive(value);
+				break;
+		}
+	}
+	return parsed;
+};
+
+// Tabbed fences that can share a group; runnable cells always stand alone
+export const isTab = (node: RootContent): node is Code => {
+	if (node.type !== "code") return false;
+	const meta = parseCodeMeta(node.meta);
+	return meta.tab !== undefined && !meta.run;
+};
+
+// Remark plugin giving every code block a stable anchor id (unless its label
+// gave it one, see utils/numbering.ts), from its title when it has one
+// ("mpc.py" -> `code-mpc-py`) and otherwise from its position (`code-3`), and
+// wrapping runs of tabbed fences in a `div[data-code-tabs]` that lists the
+// tabs. Mermaid and `sim` fences are not code blocks.
+export const remarkCodeBlocks = () => (tree: Root) => {
+	const slug = createSlugger();
+	let count = 0;
+
+	visit(tree, "code", (node) => {
+		if (node.lang === "mermaid") return;
+		const { title } = parseCodeMeta(node.meta);
+		count++;
+		const id =
+			node.data?.hProperties?.id ??
+			`code-${slug(title ? title.replace(/[./_]/g, " ") : String(count))}`;
+		node.data = {
+			...node.data,
+			hProperties: { ...node.data?.hProperties, id },
+		};
+	});
+
+	visit(tree, (node) => {
+		if (node.type === "containerDirective" && node.name === "code-tabs") {
+			return SKIP;
+		}
+		if (!("children" in node)) return;
+
+		const children = node.children as RootContent[];
+		for (let start = 0; start < children.length; start++) {
+			let end = start;
+			while (end < children.length && isTab(children[end])) end++;
+			if (end - start < 2) continue;
+
+			const blocks = children.slice(start, end) as Code[];
+			const tabs: CodeTab[] = blocks.map((block, index) => {
+				block.data!.hProperties = {
+					...block.data!.hProperties,
+					dataTab: index,
+				};
+				return {
+					label: parseCodeMeta(block.meta).tab!,
+					id: String(block.data!.hProperties.id),
+				};
+			});
+			const group: ContainerDirective = {
+				type: "containerDirective",
+				name: "code-tabs",
+				children: blocks,
+				data: {
+					hName: "div",
+					hProperties: { dataCodeTabs: JSON.stringify(tabs) },
+				},
+			};
+			children.splice(start, end - start, group);
+		}
+	});
+};
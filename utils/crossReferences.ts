@@ -0,0 +1,117 @@
+import { visit } from "unist-util-visit";
+import { NumberedBlock } from "../types";
+import { EquationLabel } from "./equations";
+import { overlapsRange, parseMdast, verbatimRanges } from "./mdast";
+import {
+	findNumbered,
+	labelTexts,
+	NUMBERED_KINDS,
+	NumberedKind,
+} from "./numbering";
+import { slugify } from "./slug";
+
+// Numbers figures, tables and code listings at generation time and resolves
+// references to them (utils/numbering.ts says what each one is):
+//
+//   ![Loss over training](loss.png){#fig:convergence}
+//
+//   As @fig:convergence shows   ->  As [Figure 3](#fig-convergence) shows
+//
+// @eq: references link to equations labeled with \label{eq:...} (see
+// utils/equations.ts) as "Equation 2". MarkdownRenderer places the numbers
+// with remarkNumbering.
+
+export interface CrossReferenceIssue {
+	line: number; // 1-based line within the body
+	message: string;
+}
+
+// Labels of any kind, including ones in the wrong place
+const LABEL_PATTERN = /\{#((?:fig|tbl|lst|eq):[^{}\s]+)\}/g;
+const REF_PATTERN = /(?<![\w@])@((fig|tbl|lst|eq):[\w:.-]*\w)/g;
+
+// "fig:convergence" -> "fig-convergence"
+const blockAnchor = (prefix: string, label: string) =>
+	`${prefix}-${slugify(label.slice(prefix.length + 1).replace(/[:_./]/g, " "))}`;
+
+const lineAt = (text: string, offset: number) =>
+	text.slice(0, offset).split("\n").length;
+
+export const resolveCrossReferences = (
+	body: string,
+	equations: Map<string, EquationLabel>,
+): {
+	content: string;
+	numbering: NumberedBlock[];
+	issues: CrossReferenceIssue[];
+} => {
+	const issues: CrossReferenceIssue[] = [];
+	const tree = parseMdast(body);
+	const targets = findNumbered(tree);
+
+	// Number each kind in order and index the labels
+	const counts: Record<NumberedKind, number> = {
+		figure: 0,
+		table: 0,
+		listing: 0,
+	};
+	const labels = new Map<string, { id: string; text: string }>();
+	const numbering = targets.map(({ kind, label, line }): NumberedBlock => {
+		const { prefix, name } = NUMBERED_KINDS[kind];
+		const block: NumberedBlock = { label: `${name} ${++counts[kind]}` };
+		if (label === undefined) return block;
+
+		if (!label.startsWith(`${prefix}:`)) {
+			issues.push({
+				line,
+				message: `Label "${label}" is on a ${kind}, so it should start with "${prefix}:"`,
+			});
+		} else if (labels.has(label) || equations.has(label)) {
+			issues.push({ line, message: `Duplicate label "${label}"` });
+		} else {
+			block.id = blockAnchor(prefix, label);
+			labels.set(label, { id: block.id, text: block.label });
+		}
+		return block;
+	});
+
+	// Label syntax anywhere else stays in the text
+	const attached = labelTexts(targets);
+	visit(tree, "text", (node) => {
+		if (attached.has(node)) return;
+		for (const [, label] of node.value.matchAll(LABEL_PATTERN)) {
+			issues.push({
+				line: node.position?.start.line ?? 1,
+				message: label.startsWith("eq:")
+					? `Equations are labeled with \\label{${label}} inside the math`
+					: `Label "${label}" is not on a figure, table or code listing`,
+			});
+		}
+	});
+
+	// References in the text become links
+	const ranges = verbatimRanges(body);
+	const content = body.replace(
+		REF_PATTERN,
+		(match, label: string, prefix: string, offset: number) => {
+			if (overlapsRange(ranges, offset, offset + match.length)) return match;
+			const equation = equations.get(label);
+			const target = equation
+				? { id: equation.id, text: `Equation ${equation.tag}` }
+				: labels.get(label);
+			if (!target) {
+				issues.push({
+					line: lineAt(body, offset),
+					message: `Unknown label "${label}"`,
+				});
+				const kind = Object.values(NUMBERED_KINDS).find(
+					(kind) => kind.prefix === prefix,
+				);
+				return `${kind?.name ?? "Equation"} ??`;
+			}
+			return `[${target.text}](#${target.id})`;
+		},
+	);
+
+	return { content, numbering, issues };
+};
@@ -0,0 +1,156 @@
+import katex from "katex";
+import { visit } from "unist-util-visit";
+import { RenderedMath } from "../types";
+import { overlapsRange, parseMdast, verbatimRanges } from "./mdast";
+import { slugify } from "./slug";
+
+// Renders math with KaTeX at generation time and numbers display equations:
+//
+//   $$
+//   E = mc^2 \label{eq:energy}
+//   $$
+//
+//   As \eqref{eq:energy} shows   ->  As [(1)](#eq-energy) shows
+//
+// Every display equation is numbered in order unless it has \notag,
+// \nonumber or a \tag of its own. \eqref and \ref also work inside math.
+// MarkdownRenderer places the output with remarkPrerenderedMath.
+
+export interface EquationIssue {
+	line: number; // 1-based line within the body
+	message: string;
+}
+
+interface Equation {
+	tag?: string; // Number shown beside the equation
+	auto: boolean; // Whether the number is generated rather than a \tag
+	id?: string; // Anchor of the first label
+}
+
+const LABEL_PATTERN = /\\label\{([^{}]*)\}/g;
+const REF_PATTERN = /\\(eq)?ref\{([^{}]*)\}/g;
+const TAG_PATTERN = /\\tag\*?\{([^{}]*)\}/;
+const UNNUMBERED_PATTERN = /\\(?:notag|nonumber)\b/;
+
+// "eq:energy" -> "eq-energy"
+const equationAnchor = (label: string) =>
+	`eq-${slugify(label.replace(/^eq:/, "").replace(/[:_./]/g, " "))}`;
+
+const lineAt = (text: string, offset: number) =>
+	text.slice(0, offset).split("\n").length;
+
+// Only intra-page links, which is what \eqref becomes
+const trust = ({ command, url }: { command: string; url?: string }) =>
+	command === "\\href" && Boolean(url?.startsWith("#"));
+
+const render = (tex: string, displayMode: boolean) =>
+	katex.renderToString(tex, {
+		displayMode,
+		trust,
+		throwOnError: true,
+		strict: false,
+	});
+
+// Number and anchor of a labeled equation
+export interface EquationLabel {
+	id: string;
+	tag: string;
+}
+
+export const resolveEquations = (
+	body: string,
+): {
+	content: string;
+	math: RenderedMath[];
+	labels: Map<string, EquationLabel>; // By label, e.g. "eq:energy"
+	issues: EquationIssue[];
+} => {
+	const issues: EquationIssue[] = [];
+
+	// Number display equations and index their labels
+	const displays: Equation[] = [];
+	const labels = new Map<string, EquationLabel>();
+	visit(parseMdast(body), "math", (node) => {
+		const line = node.position?.start.line ?? 1;
+		const explicit = node.value.match(TAG_PATTERN)?.[1];
+		const auto = explicit === undefined && !UNNUMBERED_PATTERN.test(node.value);
+		const equation: Equation = {
+			tag: auto ? String(displays.filter((d) => d.auto).length + 1) : explicit,
+			auto,
+		};
+		displays.push(equation);
+
+		for (const [, label] of node.value.matchAll(LABEL_PATTERN)) {
+			if (labels.has(label)) {
+				issues.push({ line, message: `Duplicate equation label "${label}"` });
+			} else if (equation.tag === undefined) {
+				issues.push({
+					line,
+					message: `Equation label "${label}" is on an unnumbered equation`,
+				});
+			} else {
+				equation.id ??= equationAnchor(label);
+				labels.set(label, { id: equationAnchor(label), tag: equation.tag });
+			}
+		}
+	});
+
+	const resolveRef = (label: string, line: number) => {
+		const equation = labels.get(label);
+		if (!equation) {
+			issues.push({ line, message: `Unknown equation label "${label}"` });
+		}
+		return equation;
+	};
+
+	// References in the text become links to the equation
+	const ranges = verbatimRanges(body);
+	const content = body.replace(
+		REF_PATTERN,
+		(match, eq: string | undefined, label: string, offset: number) => {
+			if (overlapsRange(ranges, offset, offset + match.length)) return match;
+			const target = resolveRef(label, lineAt(body, offset));
+			const text = eq ? `(${target?.tag ?? "??"})` : (target?.tag ?? "??");
+			return target ? `[${text}](#${target.id})` : text;
+		},
+	);
+
+	// Render every math node, in the order remarkPrerenderedMath visits them
+	const math: RenderedMath[] = [];
+	let display = 0;
+	visit(parseMdast(content), ["math", "inlineMath"], (node) => {
+		if (node.type !== "math" && node.type !== "inlineMath") return;
+		const line = node.position?.start.line ?? 1;
+		const equation = node.type === "math" ? displays[display++] : undefined;
+
+		let tex = node.value
+			.replace(LABEL_PATTERN, "")
+			.replace(REF_PATTERN, (_match, eq: string | undefined, label: string) => {
+				const target = resolveRef(label, line);
+				const text = eq ? `(${target?.tag ?? "??"})` : (target?.tag ?? "??");
+				return target
+					? `\\href{#${target.id}}{\\text{${text}}}`
+					: `\\text{${text}}`;
+			});
+		if (equation?.auto) tex += ` \\tag{${equation.tag}}`;
+
+		let html: string;
+		try {
+			html = render(tex, Boolean(equation));
+		} catch (error) {
+			issues.push({
+				line,
+				message: `Invalid math: ${error instanceof Error ? error.message : error}`,
+			});
+			// Shows the source in red, as KaTeX does in the browser
+			html = katex.renderToString(tex, {
+				displayMode: Boolean(equation),
+				throwOnError: false,
+			});
+		}
+
+		math.push({ html, tex: node.value, id: equation?.id });
+	});
+
+	return { content, math, labels, issues };
+};
@@ -0,0 +1,411 @@
+// A small YAML-subset parser for markdown frontmatter.
+//
+// Supported: `key: value` mappings (nested by indentation), block lists
+// (`- item`), inline lists and maps (`[a, b]`, `{ a: 1 }`), single and double
+// quoted strings, `|` / `>` block scalars, comments, booleans, null and numbers.
+// Anything else is reported with the file and line it came from.
+
+export type YamlValue =
+	string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export interface FrontmatterIssue {
+	file: string;
+	line: number;
+	message: string;
+}
+
+export class FrontmatterError extends Error {
+	issues: FrontmatterIssue[];
+
+	constructor(issues: FrontmatterIssue[]) {
+		super(issues.map(formatIssue).join("\n"));
+		this.name = "FrontmatterError";
+		this.issues = issues;
+	}
+}
+
+export const formatIssue = ({ file, line, message }: FrontmatterIssue) =>
+	`${file}:${line}: ${message}`;
+
+export interface ParsedFrontmatter {
+	data: Record<string, YamlValue>;
+	// Dotted key path (e.g. "tags" or "metrics.readTime") -> 1-based file line
+	lines: Record<string, number>;
+}
+
+interface Line {
+	indent: number;
+	text: string;
+	line: number;
+}
+
+const KEY_PATTERN = /^([A-Za-z_][\w-]*)\s*:(?:\s+(.*))?$/;
+
+// Split a frontmatter document into its `---` fenced block and the body.
+// `bodyLine` is the 1-based line at which the body starts.
+export const splitFrontmatter = (
+	text: string,
+): { block: string | null; body: string; bodyLine: number } => {
+	const normalized = text.replace(/\r\n?/g, "\n");
+	const match = normalized.match(/^---\n([\s\S]*?)\n?---(?:\n|$)/);
+	if (!match) return { block: null, body: normalized, bodyLine: 1 };
+
+	return {
+		block: match[1],
+		body: normalized.slice(match[0].length),
+		bodyLine: match[0].split("\n").length,
+	};
+};
+
+export const parseFrontmatter = (
+	source: string,
+	{ file, lineOffset = 1 }: { file: string; lineOffset?: number },
+): ParsedFrontmatter => {
+	const issues: FrontmatterIssue[] = [];
+	const lines: Record<string, number> = Object.create(null);
+	const rawLines = source.split("\n");
+
+	const fail = (line: number, message: string): never => {
+		throw new FrontmatterError([{ file, line, message }]);
+	};
+
+	const tokens: Line[] = [];
+	rawLines.forEach((raw, index) => {
+		const line = index + lineOffset;
+		const indentMatch = raw.match(/^[ \t]*/)![0];
+		if (indentMatch.includes("\t")) {
+			issues.push({
+				file,
+				line,
+				message: "Tabs are not allowed for indentation",
+			});
+			return;
+		}
+		const text = stripComment(raw.slice(indentMatch.length)).trimEnd();
+		if (!text) return;
+		tokens.push({ indent: indentMatch.length, text, line });
+	});
+
+	if (issues.length) throw new FrontmatterError(issues);
+
+	let cursor = 0;
+	const peek = (): Line | undefined => tokens[cursor];
+
+	const isSequenceItem = (token: Line) =>
+		token.text === "-" || token.text.startsWith("- ");
+
+	const parseBlock = (indent: number, path: string): YamlValue => {
+		const token = peek()!;
+		return isSequenceItem(token)
+			? parseSequence(indent, path)
+			: parseMapping(indent, path);
+	};
+
+	const parseMapping = (
+		indent: number,
+		path: string,
+	): Record<string, YamlValue> => {
+		// No prototype, so keys such as "__proto__" or "toString" are plain keys
+		const result: Record<string, YamlValue> = Object.create(null);
+
+		while (cursor < tokens.length) {
+			const token = peek()!;
+			if (token.indent < indent) break;
+			if (token.indent > indent) fail(token.line, "Unexpected indentation");
+			if (isSequenceItem(token)) break;
+
+			const match = token.text.match(KEY_PATTERN);
+			if (!match)
+				fail(token.line, `Expected "key: value", got "${token.text}"`);
+
+			const key = match![1];
+			const rest = match![2]?.trim() ?? "";
+			const keyPath = path ? `${path}.${key}` : key;
+			if (Object.hasOwn(result, key))
+				fail(token.line, `Duplicate key "${keyPath}"`);
+
+			lines[keyPath] = token.line;
+			cursor++;
+
+			if (/^[|>][+-]?$/.test(rest)) {
+				result[key] = parseBlockScalar(rest, indent, token);
+			} else if (rest) {
+				result[key] = parseInline(rest, token.line, keyPath);
+			} else {
+				const next = peek();
+				if (next && next.indent > indent) {
+					result[key] = parseBlock(next.indent, keyPath);
+				} else if (next && next.indent === indent && isSequenceItem(next)) {
+					// `tags:` followed by a list at the same indentation
+					result[key] = parseSequence(indent, keyPath);
+				} else {
+					result[key] = null;
+				}
+			}
+		}
+
+		return result;
+	};
+
+	const parseSequence = (indent: number, path: string): YamlValue[] => {
+		const result: YamlValue[] = [];
+
+		while (cursor < tokens.length) {
+			const token = peek()!;
+			if (token.indent !== indent || !isSequenceItem(token)) {
+				if (token.indent > indent) fail(token.line, "Unexpected indentation");
+				break;
+			}
+
+			const itemPath = `${path}.${result.length}`;
+			const rest = token.text.slice(1).trimStart();
+			lines[itemPath] = token.line;
+
+			if (!rest) {
+				cursor++;
+				const next = peek();
+				result.push(
+					next && next.indent > indent
+						? parseBlock(next.indent, itemPath)
+						: null,
+				);
+			} else if (KEY_PATTERN.test(rest) && !/^["'[{]/.test(rest)) {
+				// `- key: value` starts a mapping nested inside the item
+				const offset = token.text.length - rest.length;
+				tokens[cursor] = { ...token, indent: indent + offset, text: rest };
+				result.push(parseMapping(indent + offset, itemPath));
+			} else {
+				cursor++;
+				result.push(parseInline(rest, token.line, itemPath));
+			}
+		}
+
+		return result;
+	};
+
+	const parseBlockScalar = (
+		indicator: string,
+		indent: number,
+		header: Line,
+	): string => {
+		const collected: string[] = [];
+		let blockIndent: number | null = null;
+		let index = header.line - lineOffset + 1;
+
+		while (index < rawLines.length) {
+			const raw = rawLines[index];
+			const lineIndent = raw.match(/^ */)![0].length;
+			if (raw.trim() && lineIndent <= indent) break;
+			if (raw.trim() && blockIndent === null) blockIndent = lineIndent;
+			collected.push(raw.slice(blockIndent ?? lineIndent));
+			index++;
+		}
+
+		// Skip the tokens that belonged to the block scalar
+		while (cursor < tokens.length && tokens[cursor].line - lineOffset < index) {
+			cursor++;
+		}
+
+		while (collected.length && !collected[collected.length - 1].trim()) {
+			collected.pop();
+		}
+
+		const value =
+			indicator[0] === ">"
+				? collected
+						.join("\n")
+						.replace(/([^\n])\n(?=[^\n])/g, "$1 ")
+						.replace(/\n(\n+)/g, "$1")
+				: collected.join("\n");
+
+		return indicator.endsWith("-") ? value : `${value}\n`;
+	};
+
+	const parseInline = (text: string, line: number, path: string): YamlValue => {
+		const reader = new InlineReader(text, line, fail);
+		const value = reader.readValue(true);
+		reader.skipSpace();
+		if (!reader.done()) {
+			fail(line, `Unexpected "${reader.rest()}" after value of "${path}"`);
+		}
+		return value;
+	};
+
+	const first = peek();
+	if (!first) return { data: {}, lines };
+	if (first.indent !== 0) fail(first.line, "Unexpected indentation");
+	if (isSequenceItem(first)) fail(first.line, "Frontmatter must be a mapping");
+
+	const data = parseMapping(0, "");
+	if (cursor < tokens.length) fail(tokens[cursor].line, "Unexpected content");
+
+	return { data, lines };
+};
+
+// Removes a trailing `# comment` that is not inside quotes.
+const stripComment = (text: string): string => {
+	let quote: string | null = null;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quote) {
+			if (char === "\\" && quote === '"') i++;
+			else if (char === quote) quote = null;
+		} else if (char === '"' || char === "'") {
+			if (i === 0 || /[\s:[{,-]/.test(text[i - 1])) quote = char;
+		} else if (char === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+			return text.slice(0, i);
+		}
+	}
+	return text;
+};
+
+const coerceScalar = (text: string): YamlValue => {
+	if (/^(true|True|TRUE)$/.test(text)) return true;
+	if (/^(false|False|FALSE)$/.test(text)) return false;
+	if (/^(null|Null|NULL|~)$/.test(text)) return null;
+	if (/^[-+]?(\d+|\d*\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+	return text;
+};
+
+class InlineReader {
+	private pos = 0;
+
+	constructor(
+		private text: string,
+		private line: number,
+		private fail: (line: number, message: string) => never,
+	) {}
+
+	done() {
+		return this.pos >= this.text.length;
+	}
+
+	rest() {
+		return this.text.slice(this.pos);
+	}
+
+	skipSpace() {
+		while (!this.done() && /\s/.test(this.text[this.pos])) this.pos++;
+	}
+
+	readValue(topLevel = false): YamlValue {
+		this.skipSpace();
+		const char = this.text[this.pos];
+		if (char === "[") return this.readFlowSequence();
+		if (char === "{") return this.readFlowMapping();
+		if (char === '"') return this.readDoubleQuoted();
+		if (char === "'") return this.readSingleQuoted();
+		return this.readPlain(topLevel);
+	}
+
+	private readPlain(topLevel: boolean): YamlValue {
+		const start = this.pos;
+		if (topLevel) {
+			this.pos = this.text.length;
+		} else {
+			while (!this.done() && !/[,\]}]/.test(this.text[this.pos])) this.pos++;
+		}
+		const value = this.text.slice(start, this.pos).trim();
+		if (!value && !topLevel)
+			this.fail(this.line, "Empty value in inline collection");
+		return coerceScalar(value);
+	}
+
+	private readDoubleQuoted(): string {
+		const escapes: Record<string, string> = {
+			n: "\n",
+			t: "\t",
+			r: "\r",
+			'"': '"',
+			"\\": "\\",
+			"/": "/",
+			"0": "\0",
+		};
+		let result = "";
+		this.pos++;
+		while (!this.done()) {
+			const char = this.text[this.pos++];
+			if (char === '"') return result;
+			if (char !== "\\") {
+				result += char;
+				continue;
+			}
+			const escape = this.text[this.pos++];
+			if (escape === "u") {
+				const hex = this.text.slice(this.pos, this.pos + 4);
+				if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+					this.fail(this.line, `Invalid unicode escape "\\u${hex}"`);
+				}
+				result += String.fromCharCode(parseInt(hex, 16));
+				this.pos += 4;
+			} else if (escape in escapes) {
+				result += escapes[escape];
+			} else {
+				this.fail(this.line, `Unknown escape sequence "\\${escape}"`);
+			}
+		}
+		return this.fail(this.line, "Unterminated double-quoted string");
+	}
+
+	private readSingleQuoted(): string {
+		let result = "";
+		this.pos++;
+		while (!this.done()) {
+			const char = this.text[this.pos++];
+			if (char !== "'") {
+				result += char;
+			} else if (this.text[this.pos] === "'") {
+				result += "'";
+				this.pos++;
+			} else {
+				return result;
+			}
+		}
+		return this.fail(this.line, "Unterminated single-quoted string");
+	}
+
+	private readFlowSequence(): YamlValue[] {
+		const result: YamlValue[] = [];
+		this.pos++;
+		this.skipSpace();
+		if (this.text[this.pos] === "]") {
+			this.pos++;
+			return result;
+		}
+		while (!this.done()) {
+			result.push(this.readValue());
+			this.skipSpace();
+			const char = this.text[this.pos++];
+			if (char === "]") return result;
+			if (char !== ",")
+				this.fail(this.line, `Expected "," or "]" in inline list`);
+		}
+		return this.fail(this.line, "Unterminated inline list");
+	}
+
+	private readFlowMapping(): Record<string, YamlValue> {
+		const result: Record<string, YamlValue> = Object.create(null);
+		this.pos++;
+		this.skipSpace();
+		if (this.text[this.pos] === "}") {
+			this.pos++;
+			return result;
+		}
+		while (!this.done()) {
+			this.skipSpace();
+			const keyMatch = this.rest().match(/^([A-Za-z_][\w-]*)\s*:\s*/);
+			if (!keyMatch) this.fail(this.line, "Expected key in inline map");
+			const key = keyMatch![1];
+			if (Object.hasOwn(result, key))
+				this.fail(this.line, `Duplicate key "${key}"`);
+			this.pos += keyMatch![0].length;
+			result[key] = this.readValue();
+			this.skipSpace();
+			const char = this.text[this.pos++];
+			if (char === "}") return result;
+			if (char !== ",")
+				this.fail(this.line, `Expected "," or "}" in inline map`);
+		}
+		return this.fail(this.line, "Unterminated inline map");
+	}
+}
@@ -0,0 +1,24 @@
+import { visit } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type { Heading, Root } from "mdast";
+import { createSlugger } from "./slug";
+
+// Returns a function assigning each heading of one document its anchor id.
+// Both the generator's outline and the rendered headings go through this, so
+// table of contents links always match the ids on the page.
+export const createHeadingIds = () => {
+	const slug = createSlugger();
+	return (heading: Heading) => slug(toString(heading));
+};
+
+// Remark plugin that renders every heading with its anchor id.
+export const remarkHeadingIds = () => (tree: Root) => {
+	const headingId = createHeadingIds();
+
+	visit(tree, "heading", (node) => {
+		node.data = {
+			...node.data,
+			hProperties: { ...node.data?.hProperties, id: headingId(node) },
+		};
+	});
+};
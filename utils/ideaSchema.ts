@@ -0,0 +1,240 @@
+import {
+	ContentMetrics,
+	Idea,
+	PROJECT_STATUSES,
+	PROJECT_CATEGORIES,
+} from "../types";
+import { FrontmatterIssue, ParsedFrontmatter, YamlValue } from "./frontmatter";
+
+type FieldSpec =
+	| { kind: "string" | "url" | "date"; required?: boolean; default?: string }
+	| { kind: "boolean"; default?: boolean }
+	| { kind: "number"; default?: number }
+	| { kind: "list"; default?: string[] }
+	| { kind: "enum"; values: readonly string[]; default?: string }
+	| { kind: "object"; fields: Record<string, FieldSpec>; default?: undefined };
+
+// Frontmatter keys an idea may declare. Everything else is rejected.
+// Derived values (read time, outline, ...) are computed from the body and can
+// only be replaced through the explicit `metrics` override block.
+export type IdeaFrontmatter = Omit<
+	Idea,
+	| "id"
+	| "markdownPath"
+	| "readTime"
+	| "metrics"
+	| "outline"
+	| "backlinks"
+	| "visibility"
+	| "series"
+	| "cover"
+> & {
+	metrics?: Partial<ContentMetrics & { readTime: string }>;
+	draft: boolean;
+	unlisted: boolean;
+	series?: string;
+	seriesOrder?: number;
+};
+
+const METRICS_OVERRIDES: Record<string, FieldSpec> = {
+	readTime: { kind: "string" },
+	wordCount: { kind: "number" },
+	codeBlocks: { kind: "number" },
+	mathBlocks: { kind: "number" },
+	diagrams: { kind: "number" },
+};
+
+// Keys that used to be valid, with a hint on what replaced them
+const RETIRED_KEYS: Record<string, string> = {
+	readTime:
+		'is computed from the content; set "metrics.readTime" to override it',
+};
+
+export const IDEA_SCHEMA: Record<keyof IdeaFrontmatter, FieldSpec> = {
+	title: { kind: "string", required: true },
+	subtitle: { kind: "string", default: "No description available" },
+	date: { kind: "date", required: true },
+	updated: { kind: "date" },
+	status: { kind: "enum", values: PROJECT_STATUSES, default: "CONCEPT" },
+	category: { kind: "enum", values: PROJECT_CATEGORIES, default: "idea" },
+	impact: { kind: "string", default: "Unknown" },
+	tags: { kind: "list", default: [] },
+	aliases: { kind: "list" },
+	coverImage: {
+		kind: "url",
+		default: "https://picsum.photos/800/600?grayscale",
+	},
+	pdfUrl: { kind: "url" },
+	demoUrl: { kind: "url" },
+	githubUrl: { kind: "url" },
+	featured: { kind: "boolean", default: false },
+	draft: { kind: "boolean", default: false },
+	unlisted: { kind: "boolean", default: false },
+	simulation: { kind: "string" },
+	series: { kind: "string" },
+	seriesOrder: { kind: "number" },
+	metrics: { kind: "object", fields: METRICS_OVERRIDES },
+};
+
+const isScalar = (value: YamlValue): value is string | number | boolean =>
+	typeof value === "string" ||
+	typeof value === "number" ||
+	typeof value === "boolean";
+
+const isValidDate = (value: string) => {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) return false;
+	const date = new Date(`${value}T00:00:00Z`);
+	return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const isValidUrl = (value: string) => {
+	if (/^\.{0,2}\//.test(value)) return true;
+	try {
+		new URL(value);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+// Coerces a single value to the field's type. Returns an error message when
+// the value cannot be represented.
+const coerce = (
+	spec: Exclude<FieldSpec, { kind: "object" }>,
+	value: YamlValue,
+): { value?: unknown; error?: string } => {
+	switch (spec.kind) {
+		case "string":
+			return isScalar(value)
+				? { value: String(value) }
+				: { error: "expected a string" };
+		case "url":
+			if (typeof value !== "string") return { error: "expected a URL" };
+			return isValidUrl(value)
+				? { value }
+				: { error: `"${value}" is not a valid URL` };
+		case "date": {
+			const text = isScalar(value) ? String(value) : "";
+			return isValidDate(text)
+				? { value: text }
+				: { error: `expected a YYYY-MM-DD date, got "${text || value}"` };
+		}
+		case "boolean":
+			if (typeof value === "boolean") return { value };
+			if (value === "true" || value === "false") {
+				return { value: value === "true" };
+			}
+			return { error: `expected true or false, got "${value}"` };
+		case "number":
+			if (typeof value === "number") return { value };
+			if (typeof value === "string" && value.trim() && !isNaN(Number(value))) {
+				return { value: Number(value) };
+			}
+			return { error: `expected a number, got "${value}"` };
+		case "list": {
+			const items = Array.isArray(value) ? value : [value];
+			if (!items.every(isScalar))
+				return { error: "expected a list of strings" };
+			return { value: items.map(String).filter(Boolean) };
+		}
+		case "enum":
+			return typeof value === "string" && spec.values.includes(value)
+				? { value }
+				: {
+						error: `expected one of ${spec.values.join(", ")}, got "${value}"`,
+					};
+	}
+};
+
+const isMapping = (value: YamlValue): value is Record<string, YamlValue> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Validates `data` against `fields`, recursing into nested objects. `prefix` is
+// the dotted path of the enclosing key, used for messages and line lookups.
+const validateFields = (
+	fields: Record<string, FieldSpec>,
+	data: Record<string, YamlValue>,
+	prefix: string,
+	lineOf: (path: string) => number,
+	report: (path: string, message: string) => void,
+): Record<string, unknown> => {
+	const value: Record<string, unknown> = {};
+
+	for (const key of Object.keys(data)) {
+		if (Object.hasOwn(fields, key)) continue;
+		const path = prefix + key;
+		const hint =
+			prefix || !Object.hasOwn(RETIRED_KEYS, key)
+				? undefined
+				: RETIRED_KEYS[key];
+		report(
+			path,
+			hint
+				? `Frontmatter key "${path}" ${hint}`
+				: `Unknown frontmatter key "${path}"`,
+		);
+	}
+
+	for (const [key, spec] of Object.entries(fields)) {
+		const path = prefix + key;
+		const raw = Object.hasOwn(data, key) ? data[key] : undefined;
+
+		if (raw === undefined || raw === null || raw === "") {
+			if ("required" in spec && spec.required) {
+				report(path, `Missing required frontmatter key "${path}"`);
+			} else if (spec.default !== undefined) {
+				value[key] = Array.isArray(spec.default)
+					? [...spec.default]
+					: spec.default;
+			}
+			continue;
+		}
+
+		if (spec.kind === "object") {
+			if (isMapping(raw)) {
+				value[key] = validateFields(
+					spec.fields,
+					raw,
+					`${path}.`,
+					lineOf,
+					report,
+				);
+			} else {
+				report(path, `Invalid "${path}": expected a mapping`);
+			}
+			continue;
+		}
+
+		const result = coerce(spec, raw);
+		if (result.error) {
+			report(path, `Invalid "${path}": ${result.error}`);
+		} else {
+			value[key] = result.value;
+		}
+	}
+
+	return value;
+};
+
+export const validateIdeaFrontmatter = (
+	{ data, lines }: ParsedFrontmatter,
+	file: string,
+	blockLine: number,
+): { value: IdeaFrontmatter; issues: FrontmatterIssue[] } => {
+	const issues: FrontmatterIssue[] = [];
+
+	// Fall back to the enclosing key's line, then the block itself
+	const lineOf = (path: string): number => {
+		if (lines[path] !== undefined) return lines[path];
+		const parent = path.lastIndexOf(".");
+		return parent > 0 ? lineOf(path.slice(0, parent)) : blockLine;
+	};
+
+	const value = validateFields(IDEA_SCHEMA, data, "", lineOf, (path, message) =>
+		issues.push({ file, line: lineOf(path), message }),
+	);
+
+	issues.sort((a, b) => a.line - b.line);
+	return { value: value as IdeaFrontmatter, issues };
+};
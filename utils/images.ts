@@ -0,0 +1,70 @@
+import { visit } from "unist-util-visit";
+import { ImageAsset } from "../types";
+import { isExternalUrl, parseMdast } from "./mdast";
+
+// Rewrites local image references to the hashed files the generator emits:
+//
+//   ![Diagram](diagram.png)  ->  ![Diagram](/assets/diagram-3f2a9c1e.png)
+//
+// Paths resolve relative to the note, then by file name anywhere in the vault
+// (Obsidian's attachments folder). External and root-relative URLs are kept.
+
+export const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|avif)$/i;
+
+const escapeAlt = (alt: string) => alt.replace(/([\\[\]])/g, "\\$1");
+
+// Vault-relative path of `url` as seen from a note in `dir`
+const joinPath = (dir: string, url: string) => {
+	const parts: string[] = dir ? dir.split("/") : [];
+	for (const part of decodeURI(url.replace(/[?#].*$/, "")).split("/")) {
+		if (part === "..") parts.pop();
+		else if (part && part !== ".") parts.push(part);
+	}
+	return parts.join("/");
+};
+
+export const findImage = <T>(
+	images: Map<string, T>,
+	dir: string,
+	url: string,
+): T | undefined => {
+	if (isExternalUrl(url) || url.startsWith("/")) return undefined;
+
+	const path = joinPath(dir, url);
+	if (images.has(path)) return images.get(path);
+
+	const name = path.split("/").pop()!.toLowerCase();
+	const match = [...images.keys()].find(
+		(key) => key.split("/").pop()!.toLowerCase() === name,
+	);
+	return match === undefined ? undefined : images.get(match);
+};
+
+export const resolveImages = (
+	body: string,
+	dir: string,
+	library: Map<string, ImageAsset>,
+): { content: string; images: Record<string, ImageAsset> } => {
+	const images: Record<string, ImageAsset> = {};
+	const replacements: { start: number; end: number; text: string }[] = [];
+
+	visit(parseMdast(body), "image", (node) => {
+		const image = findImage(library, dir, node.url);
+		if (!image || !node.position) return;
+
+		images[image.src] = image;
+		const title = node.title ? ` "${node.title.replace(/"/g, '\\"')}"` : "";
+		replacements.push({
+			start: node.position.start.offset!,
+			end: node.position.end.offset!,
+			text: `![${escapeAlt(node.alt ?? "")}](${image.src}${title})`,
+		});
+	});
+
+	let content = body;
+	for (const { start, end, text } of replacements.reverse()) {
+		content = content.slice(0, start) + text + content.slice(end);
+	}
+
+	return { content, images };
+};
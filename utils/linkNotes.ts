@@ -0,0 +1,36 @@
+import { visit } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type { Root } from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { isExternalUrl } from "./mdast";
+import { siteUrl } from "./site";
+
+// Remark plugin for the print view, where links cannot be followed: each link
+// gets a numbered note (`a[data-link-note]`) and a `section[data-link-notes]`
+// at the end lists the URLs, as JSON. Links to the same URL share a note;
+// links within the page and links that show their URL get none.
+export const remarkLinkNotes = () => (tree: Root) => {
+	const urls: string[] = [];
+
+	visit(tree, "link", (node) => {
+		if (node.url.startsWith("#") || toString(node) === node.url) return;
+		const url = isExternalUrl(node.url) ? node.url : siteUrl(node.url);
+		const number = urls.indexOf(url) + 1 || urls.push(url);
+		node.data = {
+			...node.data,
+			hProperties: { ...node.data?.hProperties, dataLinkNote: number },
+		};
+	});
+	if (urls.length === 0) return;
+
+	const notes: ContainerDirective = {
+		type: "containerDirective",
+		name: "link-notes",
+		children: [],
+		data: {
+			hName: "section",
+			hProperties: { dataLinkNotes: JSON.stringify(urls) },
+		},
+	};
+	tree.children.push(notes);
+};
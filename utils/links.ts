@@ -0,0 +1,53 @@
+import { SKIP, visit } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type { Root } from "mdast";
+
+export interface IdeaMention {
+	target: string; // Id of the linked idea
+	snippet: string; // Text of the block the link appears in
+}
+
+const IDEA_ROUTE = /^\/idea\/([^/?#]+)/;
+
+// Blocks whose text is used as the context of a link
+const CONTEXT_BLOCKS = new Set(["paragraph", "heading", "tableCell"]);
+
+// Characters kept on either side of the link in long blocks
+const SNIPPET_RADIUS = 100;
+
+const excerpt = (text: string, around: string) => {
+	const normalized = text.replace(/\s+/g, " ").trim();
+	if (normalized.length <= SNIPPET_RADIUS * 2) return normalized;
+
+	const index = Math.max(normalized.indexOf(around), 0);
+	let start = Math.max(index - SNIPPET_RADIUS, 0);
+	let end = Math.min(index + around.length + SNIPPET_RADIUS, normalized.length);
+
+	// Avoid cutting words in half
+	if (start > 0) start = normalized.indexOf(" ", start) + 1;
+	if (end < normalized.length) end = normalized.lastIndexOf(" ", end);
+
+	return `${start > 0 ? "…" : ""}${normalized.slice(start, end)}${end < normalized.length ? "…" : ""}`;
+};
+
+// Every link to an `/idea/:id` route, wiki-links included once resolved.
+export const findIdeaMentions = (tree: Root): IdeaMention[] => {
+	const mentions: IdeaMention[] = [];
+
+	visit(tree, (block) => {
+		if (!CONTEXT_BLOCKS.has(block.type)) return;
+		const text = toString(block);
+
+		visit(block, "link", (link) => {
+			const match = link.url.match(IDEA_ROUTE);
+			if (!match) return;
+			mentions.push({
+				target: decodeURIComponent(match[1]),
+				snippet: excerpt(text, toString(link)),
+			});
+		});
+		return SKIP;
+	});
+
+	return mentions;
+};
@@ -1,74 +1,78 @@
-import { Idea, ProjectStatus, ProjectCategory } from "../types";
+import { Idea, IdeaContent } from "../types";
+import {
+	FrontmatterError,
+	parseFrontmatter,
+	splitFrontmatter,
+} from "./frontmatter";
+import { validateIdeaFrontmatter } from "./ideaSchema";
+import { parseMdast } from "./mdast";
+import { analyzeContent, estimateReadTime } from "./metrics";
+import { getVisibility } from "./visibility";
+import { slugify } from "./slug";
 
-interface ParsedMarkdown {
-	metadata: Partial<Idea>;
-	content: string;
+export interface ParseMarkdownOptions {
+	// Rewrites the body before it is analysed, e.g. to resolve wiki-links.
+	// `bodyLine` is the file line the body starts on.
+	transformBody?: (body: string, bodyLine: number) => string;
 }
 
+// Parses a markdown file into an Idea. Throws a FrontmatterError listing every
+// problem (with file and line) when the frontmatter does not match the schema.
 export const parseMarkdown = (
 	text: string,
 	id: string,
 	path: string,
-): Idea & { content: string } => {
-	const frontmatterRegex = /^---\n([\s\S]*?)\n---\n/;
-	const match = text.match(frontmatterRegex);
+	{ transformBody }: ParseMarkdownOptions = {},
+): Idea & IdeaContent => {
+	const { block, body: source, bodyLine } = splitFrontmatter(text);
 
-	const metadata: any = {
-		id,
-		markdownPath: path,
-		tags: [],
-		// Defaults
-		title: "Untitled Project",
-		subtitle: "No description available",
-		date: new Date().toISOString().split("T")[0],
-		status: "CONCEPT",
-		category: "idea",
-		impact: "Unknown",
-		readTime: "5m",
-		coverImage: "https://picsum.photos/800/600?grayscale",
-		featured: false,
-	};
-
-	let content = text;
-
-	if (match) {
-		const frontmatterBlock = match[1];
-		content = text.replace(frontmatterRegex, "");
-
-		// Parse key-value pairs
-		const lines = frontmatterBlock.split("\n");
-		let currentKey: string | null = null;
-
-		lines.forEach((line) => {
-			// Handle array items (tags)
-			if (line.trim().startsWith("- ") && currentKey === "tags") {
-				const value = line.trim().substring(2).trim();
-				if (value) metadata.tags.push(value);
-				return;
-			}
-
-			const keyMatch = line.match(/^([a-zA-Z0-9]+):\s*(.*)/);
-			if (keyMatch) {
-				const key = keyMatch[1];
-				let value = keyMatch[2].trim();
+	if (block === null) {
+		throw new FrontmatterError([
+			{ file: path, line: 1, message: "Missing frontmatter block" },
+		]);
+	}
 
-				// Handle boolean
-				if (value === "true") value = true as any;
-				if (value === "false") value = false as any;
+	// The block starts on the line after the opening `---`
+	const parsed = parseFrontmatter(block, { file: path, lineOffset: 2 });
+	const { value, issues } = validateIdeaFrontmatter(parsed, path, 1);
 
-				// Handle start of array
-				if (!value) {
-					currentKey = key;
-				} else {
-					currentKey = null;
-					metadata[key] = value;
-				}
-			}
-		});
+	if (issues.length) {
+		throw new FrontmatterError(issues);
 	}
 
+	const body = transformBody ? transformBody(source, bodyLine) : source;
+	const {
+		metrics: overrides = {},
+		draft,
+		unlisted,
+		series,
+		seriesOrder,
+		...frontmatter
+	} = value;
+	const { readTime: readTimeOverride, ...metricOverrides } = overrides;
+	const analysis = analyzeContent(parseMdast(body));
+	const metrics = { ...analysis.metrics, ...metricOverrides };
+
 	return {
-		...metadata,
-		content,
+		id,
+		markdownPath: path,
+		...frontmatter,
+		visibility: getVisibility({ date: value.date, draft, unlisted }),
+		series: series
+			? { id: slugify(series), title: series, order: seriesOrder }
+			: undefined,
+		readTime: readTimeOverride ?? estimateReadTime(metrics),
+		metrics,
+		outline: analysis.outline,
+		// Filled in once every idea in the vault has been parsed
+		backlinks: [],
+		content: body,
+		// Filled in once the vault's bibliographies and images are loaded
+		references: [],
+		images: {},
+		// Filled in by production builds, see scripts/diagrams.ts
+		diagrams: {},
+		math: [],
+		numbering: [],
 	};
 };
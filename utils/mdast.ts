@@ -0,0 +1,53 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkDirective from "remark-directive";
+import { visit } from "unist-util-visit";
+import type { Root } from "mdast";
+import { restoreDirectives } from "./callouts";
+
+// The same markdown dialect MarkdownRenderer renders (GFM + math +
+// directives, with stray `:name` directives read as text again).
+const processor = unified()
+	.use(remarkParse)
+	.use(remarkGfm)
+	.use(remarkMath)
+	.use(remarkDirective);
+
+export const parseMdast = (markdown: string): Root => {
+	const tree = processor.parse(markdown);
+	restoreDirectives(tree, markdown);
+	return tree;
+};
+
+// True for URLs that point at another site or protocol (http:, mailto:, ...).
+export const isExternalUrl = (url: string) =>
+	/^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith("//");
+
+// Node types whose source text must never be rewritten
+const VERBATIM_NODES = new Set([
+	"code",
+	"inlineCode",
+	"math",
+	"inlineMath",
+	"html",
+]);
+
+// Offsets [start, end) of code, math and raw HTML in `markdown`, which
+// source-level syntax (wiki-links, citations, ...) must not be matched in.
+export const verbatimRanges = (markdown: string): [number, number][] => {
+	const ranges: [number, number][] = [];
+	visit(parseMdast(markdown), (node) => {
+		if (VERBATIM_NODES.has(node.type) && node.position) {
+			ranges.push([node.position.start.offset!, node.position.end.offset!]);
+		}
+	});
+	return ranges;
+};
+
+export const overlapsRange = (
+	ranges: [number, number][],
+	start: number,
+	end: number,
+) => ranges.some(([from, to]) => start < to && end > from);
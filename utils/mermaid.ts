@@ -0,0 +1,21 @@
+import type { MermaidConfig } from "mermaid";
+
+// Theme shared by the build-time renderer (scripts/diagrams.ts) and the
+// client-side fallback in MarkdownRenderer, so both draw the same diagrams
+export const MERMAID_CONFIG: MermaidConfig = {
+	startOnLoad: false,
+	theme: "base",
+	fontFamily: '"JetBrains Mono", monospace',
+	themeVariables: {
+		darkMode: true,
+		background: "#09090b",
+		primaryColor: "#18181b",
+		primaryTextColor: "#e4e4e7",
+		primaryBorderColor: "#3f3f46",
+		lineColor: "#6366f1",
+		secondaryColor: "#27272a",
+		tertiaryColor: "#18181b",
+		noteBkgColor: "#18181b",
+		noteTextColor: "#a1a1aa",
+	},
+};
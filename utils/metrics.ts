@@ -0,0 +1,62 @@
+import { visit } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type { Root } from "mdast";
+import { ContentMetrics, OutlineHeading } from "../types";
+import { createHeadingIds } from "./headingIds";
+import { isSimulationFence } from "./simulations";
+
+const WORDS_PER_MINUTE = 230;
+// Extra reading time for blocks that are studied rather than read
+const MINUTES_PER_CODE_BLOCK = 0.5;
+const MINUTES_PER_MATH_BLOCK = 0.25;
+const MINUTES_PER_DIAGRAM = 0.5;
+
+const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+export const analyzeContent = (
+	tree: Root,
+): { metrics: ContentMetrics; outline: OutlineHeading[] } => {
+	const metrics: ContentMetrics = {
+		wordCount: 0,
+		codeBlocks: 0,
+		mathBlocks: 0,
+		diagrams: 0,
+	};
+	const outline: OutlineHeading[] = [];
+	const headingId = createHeadingIds();
+
+	visit(tree, (node) => {
+		switch (node.type) {
+			case "text":
+			case "inlineCode":
+				metrics.wordCount += countWords(node.value);
+				break;
+			case "code":
+				if (node.lang === "mermaid") metrics.diagrams++;
+				else if (!isSimulationFence(node)) metrics.codeBlocks++;
+				break;
+			case "math":
+				metrics.mathBlocks++;
+				break;
+			case "heading":
+				outline.push({
+					depth: node.depth,
+					text: toString(node),
+					id: headingId(node),
+				});
+				break;
+		}
+	});
+
+	return { metrics, outline };
+};
+
+export const estimateReadTime = (metrics: ContentMetrics): string => {
+	const minutes =
+		metrics.wordCount / WORDS_PER_MINUTE +
+		metrics.codeBlocks * MINUTES_PER_CODE_BLOCK +
+		metrics.mathBlocks * MINUTES_PER_MATH_BLOCK +
+		metrics.diagrams * MINUTES_PER_DIAGRAM;
+
+	return `${Math.max(1, Math.ceil(minutes))}m`;
+};
@@ -0,0 +1,267 @@
+import { visit, SKIP } from "unist-util-visit";
+import type {
+	Code,
+	Image,
+	Paragraph,
+	Parent,
+	PhrasingContent,
+	Root,
+	Table,
+	Text,
+} from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { NumberedBlock } from "../types";
+import { isTab, parseCodeMeta } from "./codeBlocks";
+import { isSimulationFence } from "./simulations";
+
+// The figures, tables and code listings of a document, in the order they are
+// numbered (see utils/crossReferences.ts):
+//
+// - figures are images alone in their paragraph, optionally followed by a
+//   label: ![Loss](loss.png){#fig:convergence}
+// - tables are every table, captioned by a paragraph right after it:
+//   Table: Results per model {#tbl:results}
+// - listings are code blocks, labeled in the fence: ```python {#lst:train}
+//   A group of tabbed fences is one listing.
+
+export type NumberedKind = "figure" | "table" | "listing";
+
+// What labels of each kind start with ("fig:convergence") and how its
+// numbers read ("Figure 3")
+export const NUMBERED_KINDS: Record<
+	NumberedKind,
+	{ prefix: string; name: string }
+> = {
+	figure: { prefix: "fig", name: "Figure" },
+	table: { prefix: "tbl", name: "Table" },
+	listing: { prefix: "lst", name: "Listing" },
+};
+
+export interface NumberedTarget {
+	kind: NumberedKind;
+	label?: string; // As written, e.g. "fig:convergence"
+	line: number; // 1-based
+	parent: Parent;
+	index: number; // Of the node within `parent`
+	image?: Image;
+	table?: Table;
+	caption?: Paragraph; // Follows the table
+	codes?: Code[]; // The listing, or every tab of its group
+}
+
+const LABEL_PATTERN = /^\s*\{#([^{}\s]+)\}\s*$/;
+const CAPTION_PREFIX_PATTERN = /^\s*Table:\s*/;
+const CAPTION_LABEL_PATTERN = /\s*\{#([^{}\s]+)\}\s*$/;
+
+// Labels can be split across text nodes (`:name` parses as a directive and is
+// restored as text of its own), so adjacent text is joined first
+const mergeText = (paragraph: Paragraph) => {
+	const children: PhrasingContent[] = [];
+	for (const child of paragraph.children) {
+		const previous = children[children.length - 1];
+		if (child.type === "text" && previous?.type === "text") {
+			previous.value += child.value;
+			if (previous.position && child.position) {
+				previous.position.end = child.position.end;
+			}
+		} else {
+			children.push(child);
+		}
+	}
+	paragraph.children = children;
+};
+
+const isBlank = (node: PhrasingContent) =>
+	node.type === "text" && !node.value.trim();
+
+// The image of a paragraph holding nothing else but its label
+const figureOf = (paragraph: Paragraph) => {
+	const [image, label, ...rest] = paragraph.children.filter(
+		(child) => !isBlank(child),
+	);
+	if (image?.type !== "image" || rest.length) return undefined;
+	if (!label) return { image };
+	if (label.type !== "text") return undefined;
+
+	const match = label.value.match(LABEL_PATTERN);
+	return match ? { image, label: match[1] } : undefined;
+};
+
+const captionLabel = (paragraph: Paragraph) => {
+	const last = paragraph.children[paragraph.children.length - 1];
+	return last?.type === "text"
+		? last.value.match(CAPTION_LABEL_PATTERN)?.[1]
+		: undefined;
+};
+
+// A paragraph starting with "Table:", or holding only a label
+const isCaption = (paragraph: Paragraph) => {
+	const [first] = paragraph.children;
+	if (first?.type !== "text") return false;
+	return (
+		CAPTION_PREFIX_PATTERN.test(first.value) ||
+		(paragraph.children.length === 1 && LABEL_PATTERN.test(first.value))
+	);
+};
+
+// Text nodes holding a figure or caption label, which other label syntax
+// checks should skip
+export const labelTexts = (targets: NumberedTarget[]): Set<Text> => {
+	const texts = new Set<Text>();
+	for (const { image, caption, parent, index } of targets) {
+		if (image) {
+			const paragraph = parent.children[index] as Paragraph;
+			paragraph.children.forEach(
+				(child) => child.type === "text" && texts.add(child),
+			);
+		}
+		caption?.children.forEach(
+			(child) => child.type === "text" && texts.add(child),
+		);
+	}
+	return texts;
+};
+
+export const findNumbered = (tree: Root): NumberedTarget[] => {
+	const targets: NumberedTarget[] = [];
+
+	visit(tree, (node, index, parent) => {
+		if (!parent || index === undefined) return;
+		const line = node.position?.start.line ?? 1;
+
+		if (node.type === "paragraph") {
+			mergeText(node);
+			const figure = figureOf(node);
+			if (figure) {
+				targets.push({
+					kind: "figure",
+					label: figure.label,
+					line,
+					parent,
+					index,
+					image: figure.image,
+				});
+			}
+			return SKIP;
+		}
+
+		if (node.type === "table") {
+			const next = parent.children[index + 1];
+			if (next?.type === "paragraph") mergeText(next);
+			const caption =
+				next?.type === "paragraph" && isCaption(next) ? next : undefined;
+			targets.push({
+				kind: "table",
+				label: caption && captionLabel(caption),
+				line,
+				parent,
+				index,
+				table: node,
+				caption,
+			});
+			return SKIP;
+		}
+
+		if (node.type === "code") {
+			if (!node.lang || node.lang === "mermaid" || isSimulationFence(node)) {
+				return;
+			}
+			const { label } = parseCodeMeta(node.meta);
+
+			// Later tabs of a group join the listing of the first
+			const previous = targets[targets.length - 1];
+			if (
+				isTab(node) &&
+				previous?.parent === parent &&
+				previous.codes &&
+				previous.index + previous.codes.length === index &&
+				previous.codes.every(isTab)
+			) {
+				previous.codes.push(node);
+				previous.label ??= label;
+				return;
+			}
+
+			targets.push({
+				kind: "listing",
+				label,
+				line,
+				parent,
+				index,
+				codes: [node],
+			});
+		}
+	});
+
+	return targets;
+};
+
+const withProperties = (
+	node: Image | Code | Paragraph,
+	properties: Record<string, string | undefined>,
+) => {
+	node.data = {
+		...node.data,
+		hProperties: { ...node.data?.hProperties, ...properties },
+	};
+};
+
+// Remark plugin placing the numbers assigned at generation time: figures and
+// listings get a `data-number` ("Figure 3") and their label's anchor id, and
+// each table is wrapped in a `figure` with its caption as `figcaption`.
+// Label syntax is removed from the text. Runs after remarkCallouts, which
+// restores directive syntax as text, and before remarkCodeBlocks.
+export const remarkNumbering =
+	(numbering: NumberedBlock[] = []) =>
+	(tree: Root) => {
+		const targets = findNumbered(tree);
+
+		// Back to front, so wrapping a table leaves earlier positions alone
+		for (let i = targets.length - 1; i >= 0; i--) {
+			const { label, parent, index, image, table, caption, codes } = targets[i];
+			const block = numbering[i];
+			const number = { dataNumber: block?.label };
+
+			if (image) {
+				const paragraph = parent.children[index] as Paragraph;
+				paragraph.children = paragraph.children.filter(
+					(child) => child.type !== "text" || child.value.trim() === "",
+				);
+				withProperties(image, { ...number, id: block?.id });
+			}
+
+			if (table) {
+				const figcaption: Paragraph = caption ?? {
+					type: "paragraph",
+					children: [],
+				};
+				const first = figcaption.children[0];
+				if (first?.type === "text") {
+					first.value = first.value.replace(CAPTION_PREFIX_PATTERN, "");
+				}
+				const last = figcaption.children[figcaption.children.length - 1];
+				if (last?.type === "text") {
+					last.value = last.value.replace(CAPTION_LABEL_PATTERN, "");
+				}
+				figcaption.data = { ...figcaption.data, hName: "figcaption" };
+				withProperties(figcaption, number);
+
+				const figure: ContainerDirective = {
+					type: "containerDirective",
+					name: "table",
+					children: [table, figcaption],
+					data: { hName: "figure", hProperties: { id: block?.id } },
+				};
+				parent.children.splice(index, caption ? 2 : 1, figure);
+			}
+
+			// The anchor goes on the tab carrying the label
+			codes?.forEach((code) => {
+				const labeled = label && parseCodeMeta(code.meta).label === label;
+				withProperties(code, {
+					...number,
+					...(labeled && block?.id && { id: block.id }),
+				});
+			});
+		}
+	};
@@ -0,0 +1,5 @@
+// Social card the build renders for every idea (see scripts/og.ts)
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+export const ogImagePath = (id: string) => `/og/${id}.png`;
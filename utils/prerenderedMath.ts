@@ -0,0 +1,22 @@
+import { visit } from "unist-util-visit";
+import type { Root } from "mdast";
+
+// Remark plugin that hands math over to the KaTeX markup rendered at
+// generation time (see utils/equations.ts). Math nodes are numbered in
+// document order, the order they were rendered in, and become
+// `span[data-math]` (inline) or `div[data-math]` (display) elements that
+// MarkdownRenderer fills in. Must run before plugins that move nodes.
+export const remarkPrerenderedMath = () => (tree: Root) => {
+	let index = 0;
+	visit(tree, ["math", "inlineMath"], (node) => {
+		if (node.type !== "math" && node.type !== "inlineMath") return;
+
+		node.data = {
+			...node.data,
+			hName: node.type === "math" ? "div" : "span",
+			hProperties: { dataMath: index++ },
+			// The source stands in when no rendered markup is available
+			hChildren: [{ type: "text", value: node.value }],
+		};
+	});
+};
@@ -0,0 +1,272 @@
+// Runs the code of ```js run``` cells (components/CodeCell.tsx) in a Web
+// Worker of its own, which is stopped when the run settles or times out. The
+// worker starts inside a sandboxed frame of an opaque origin whose content
+// security policy allows no requests at all; workers inherit that policy, so
+// however a cell is written (fetch, `import()`, WebSockets) it cannot reach
+// the network and only computes. The code runs as the body of an async
+// function: it can `await`, and whatever it `return`s is shown below the cell.
+
+export type RunLanguage = "js" | "ts";
+
+export interface ConsoleLine {
+	level: "log" | "info" | "warn" | "error" | "debug";
+	text: string;
+}
+
+// Returned values, described by the worker since they cannot all be cloned
+export type ResultPreview =
+	| { kind: "text"; text: string }
+	| { kind: "chart"; values: number[]; truncated: number }
+	| { kind: "table"; columns: string[]; rows: string[][]; truncated: number };
+
+export interface RunResult {
+	result?: ResultPreview;
+	error?: string;
+	durationMs: number;
+}
+
+type WorkerMessage =
+	| { type: "console"; line: ConsoleLine }
+	| { type: "done"; result?: ResultPreview; error?: string };
+
+export const DEFAULT_TIMEOUT_MS = 3000;
+
+// Serialized into the worker, so it may only use what it declares itself
+function workerMain() {
+	const MAX_ITEMS = 100;
+	const MAX_POINTS = 500;
+
+	const post = (message: unknown) =>
+		(self as unknown as Worker).postMessage(message);
+
+	const format = (value: unknown, depth = 0, seen = new Set()): string => {
+		if (typeof value === "string") return depth ? JSON.stringify(value) : value;
+		if (typeof value === "bigint") return `${value}n`;
+		if (typeof value === "function")
+			return `[Function ${value.name || "anonymous"}]`;
+		if (typeof value === "symbol") return value.toString();
+		if (value === null || typeof value !== "object") return String(value);
+		if (value instanceof Error) return `${value.name}: ${value.message}`;
+		if (value instanceof Date) return value.toISOString();
+		if (value instanceof RegExp) return String(value);
+		if (seen.has(value)) return "[Circular]";
+		if (depth > 2) return Array.isArray(value) ? "[Array]" : "[Object]";
+
+		seen.add(value);
+		const inner = (item: unknown) => format(item, depth + 1, seen);
+		const list = (items: string[], total: number) =>
+			total > items.length
+				? [...items, `… ${total - items.length} more`]
+				: items;
+		let text: string;
+		if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+			const items = Array.from(value as ArrayLike<unknown>);
+			text = `[${list(items.slice(0, MAX_ITEMS).map(inner), items.length).join(", ")}]`;
+		} else if (value instanceof Map) {
+			const entries = [...value].slice(0, MAX_ITEMS);
+			text = `Map(${value.size}) {${list(
+				entries.map(([k, v]) => `${inner(k)} => ${inner(v)}`),
+				value.size,
+			).join(", ")}}`;
+		} else if (value instanceof Set) {
+			const items = [...value].slice(0, MAX_ITEMS);
+			text = `Set(${value.size}) {${list(items.map(inner), value.size).join(", ")}}`;
+		} else {
+			const entries = Object.entries(value);
+			const body = list(
+				entries.slice(0, MAX_ITEMS).map(([k, v]) => `${k}: ${inner(v)}`),
+				entries.length,
+			).join(", ");
+			text = body ? `{ ${body} }` : "{}";
+		}
+		seen.delete(value);
+		return text;
+	};
+
+	const isRecord = (value: unknown): value is Record<string, unknown> =>
+		typeof value === "object" &&
+		value !== null &&
+		Object.getPrototypeOf(value) === Object.prototype;
+
+	const cell = (value: unknown) => format(value, 1);
+
+	// Numbers chart, arrays of rows or records tabulate, the rest prints
+	const preview = (value: unknown) => {
+		if (Array.isArray(value) && value.length > 0) {
+			if (value.every((v) => typeof v === "number" && Number.isFinite(v))) {
+				return {
+					kind: "chart",
+					values: value.slice(0, MAX_POINTS),
+					truncated: Math.max(0, value.length - MAX_POINTS),
+				};
+			}
+			const rows = value.slice(0, MAX_ITEMS);
+			const truncated = Math.max(0, value.length - MAX_ITEMS);
+			if (value.every(Array.isArray)) {
+				const width = Math.max(...rows.map((row) => row.length));
+				return {
+					kind: "table",
+					columns: Array.from({ length: width }, (_, i) => String(i)),
+					rows: rows.map((row) =>
+						Array.from({ length: width }, (_, i) =>
+							i < row.length ? cell(row[i]) : "",
+						),
+					),
+					truncated,
+				};
+			}
+			if (value.every(isRecord)) {
+				const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+				return {
+					kind: "table",
+					columns,
+					rows: rows.map((row) =>
+						columns.map((key) => (key in row ? cell(row[key]) : "")),
+					),
+					truncated,
+				};
+			}
+		}
+		return { kind: "text", text: format(value, 1) };
+	};
+
+	const describeError = (error: unknown) =>
+		error instanceof Error ? `${error.name}: ${error.message}` : format(error);
+
+	for (const level of ["log", "info", "warn", "error", "debug"] as const) {
+		console[level] = (...args: unknown[]) =>
+			post({
+				type: "console",
+				line: { level, text: args.map((arg) => format(arg)).join(" ") },
+			});
+	}
+	self.addEventListener("unhandledrejection", (event) => {
+		console.error(`Uncaught (in promise) ${describeError(event.reason)}`);
+	});
+
+	self.onmessage = async ({ data }: MessageEvent<{ code: string }>) => {
+		const AsyncFunction = (async () => {}).constructor as new (
+			body: string,
+		) => () => Promise<unknown>;
+
+		let run: () => Promise<unknown>;
+		try {
+			run = new AsyncFunction(`"use strict";\n${data.code}`);
+		} catch (error) {
+			post({ type: "done", error: describeError(error) });
+			return;
+		}
+
+		try {
+			const value = await run();
+			post({
+				type: "done",
+				result: value === undefined ? undefined : preview(value),
+			});
+		} catch (error) {
+			post({ type: "done", error: describeError(error) });
+		}
+	};
+}
+
+const WORKER_SOURCE = `(${workerMain.toString()})();`;
+
+// The sandbox: eval is allowed so the worker can compile the cell, while
+// connections, scripts from any URL and every other fetch are refused
+const SANDBOX_POLICY =
+	"default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; worker-src blob:";
+
+// Serialized into the sandbox frame, which starts the worker for the code it
+// is sent and passes the worker's messages on to the page
+function frameMain(workerSource: string) {
+	const url = URL.createObjectURL(
+		new Blob([workerSource], { type: "text/javascript" }),
+	);
+	window.addEventListener("message", ({ source, data }) => {
+		if (source !== window.parent) return;
+		const worker = new Worker(url);
+		worker.onmessage = ({ data }) => window.parent.postMessage(data, "*");
+		worker.onerror = (event) => {
+			event.preventDefault();
+			window.parent.postMessage(
+				{
+					type: "done",
+					error: event.message || "The worker failed to start",
+				},
+				"*",
+			);
+		};
+		worker.postMessage(data);
+	});
+}
+
+// `<` is escaped so the worker source cannot close the script element
+const FRAME_HTML = `<!DOCTYPE html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>(${frameMain.toString()})(${JSON.stringify(WORKER_SOURCE).replace(/</g, "\\u003c")});</script>`;
+
+// Type-only syntax is stripped by sucrase, which is fetched the first time a
+// TypeScript cell runs
+const transpile = async (code: string) => {
+	const { transform } = await import("sucrase");
+	return transform(code, {
+		transforms: ["typescript"],
+		disableESTransforms: true,
+	}).code;
+};
+
+export async function runCode(
+	code: string,
+	{
+		language,
+		timeoutMs = DEFAULT_TIMEOUT_MS,
+		onConsole,
+	}: {
+		language: RunLanguage;
+		timeoutMs?: number;
+		onConsole: (line: ConsoleLine) => void;
+	},
+): Promise<RunResult> {
+	const started = performance.now();
+	const finish = (result: Omit<RunResult, "durationMs">): RunResult => ({
+		...result,
+		durationMs: Math.round(performance.now() - started),
+	});
+
+	let source: string;
+	try {
+		source = language === "ts" ? await transpile(code) : code;
+	} catch (error) {
+		return finish({ error: `${error}` });
+	}
+
+	// Removing the frame stops the worker it started
+	const frame = document.createElement("iframe");
+	frame.sandbox.add("allow-scripts");
+	frame.srcdoc = FRAME_HTML;
+	frame.hidden = true;
+
+	return new Promise<RunResult>((resolve) => {
+		const settle = (result: Omit<RunResult, "durationMs">) => {
+			clearTimeout(timer);
+			window.removeEventListener("message", handleMessage);
+			frame.remove();
+			resolve(finish(result));
+		};
+		const timer = setTimeout(
+			() => settle({ error: `Timed out after ${timeoutMs} ms` }),
+			timeoutMs,
+		);
+
+		const handleMessage = ({ source, data }: MessageEvent<WorkerMessage>) => {
+			if (source !== frame.contentWindow) return;
+			if (data.type === "console") onConsole(data.line);
+			else settle({ result: data.result, error: data.error });
+		};
+		window.addEventListener("message", handleMessage);
+		frame.addEventListener("load", () =>
+			frame.contentWindow?.postMessage({ code: source }, "*"),
+		);
+		document.body.append(frame);
+	});
+}
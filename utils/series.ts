@@ -0,0 +1,34 @@
+import { Idea } from "../types";
+
+export interface Series {
+	id: string;
+	title: string;
+	parts: Idea[]; // In reading order
+}
+
+// Parts with a `seriesOrder` come first, by order; the rest follow by date
+const byPart = (a: Idea, b: Idea) =>
+	(a.series?.order ?? Infinity) - (b.series?.order ?? Infinity) ||
+	a.date.localeCompare(b.date);
+
+// Groups ideas into series, most recently updated series first
+export const groupSeries = (ideas: Idea[]): Series[] => {
+	const series = new Map<string, Series>();
+
+	for (const idea of ideas) {
+		if (!idea.series) continue;
+		const { id, title } = idea.series;
+		if (!series.has(id)) series.set(id, { id, title, parts: [] });
+		series.get(id)!.parts.push(idea);
+	}
+
+	const latest = ({ parts }: Series) =>
+		parts.reduce((date, part) => (part.date > date ? part.date : date), "");
+
+	return [...series.values()]
+		.map((s) => ({ ...s, parts: [...s.parts].sort(byPart) }))
+		.sort((a, b) => latest(b).localeCompare(latest(a)));
+};
+
+export const findSeries = (ideas: Idea[], id: string): Series | undefined =>
+	groupSeries(ideas).find((series) => series.id === id);
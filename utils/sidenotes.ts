@@ -0,0 +1,153 @@
+import { visit, SKIP } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type {
+	FootnoteDefinition,
+	FootnoteReference,
+	PhrasingContent,
+	Root,
+	Text,
+} from "mdast";
+
+// Finds the `]` closing an inline note that opens at `children[start]`'s
+// `offset`, counting nested brackets. Links and other nodes in between are
+// part of the note.
+const closingBracket = (
+	children: PhrasingContent[],
+	start: number,
+	offset: number,
+) => {
+	let depth = 0;
+	for (let index = start; index < children.length; index++) {
+		const child = children[index];
+		if (child.type !== "text") continue;
+		for (let i = index === start ? offset : 0; i < child.value.length; i++) {
+			if (child.value[i] === "[") depth++;
+			else if (child.value[i] === "]" && depth-- === 0) return { index, i };
+		}
+	}
+	return undefined;
+};
+
+// `^[An inline note]` becomes a footnote, numbered along with the others
+const extractInlineNotes = (tree: Root) => {
+	const definitions: FootnoteDefinition[] = [];
+
+	visit(tree, (node) => {
+		if (!("children" in node) || node.type === "root") return;
+		const children = node.children as PhrasingContent[];
+
+		for (let start = 0; start < children.length; start++) {
+			const child = children[start];
+			const open = child.type === "text" ? child.value.indexOf("^[") : -1;
+			if (open === -1) continue;
+			const close = closingBracket(children, start, open + 2);
+			if (!close) continue;
+
+			const text = child as Text;
+			const last = children[close.index] as Text;
+			const note: PhrasingContent[] = (
+				close.index === start
+					? [
+							{
+								type: "text",
+								value: text.value.slice(open + 2, close.i),
+							} as const,
+						]
+					: [
+							{ type: "text", value: text.value.slice(open + 2) } as const,
+							...children.slice(start + 1, close.index),
+							{ type: "text", value: last.value.slice(0, close.i) } as const,
+						]
+			).filter((part) => part.type !== "text" || part.value);
+
+			const identifier = `inline-note-${definitions.length + 1}`;
+			definitions.push({
+				type: "footnoteDefinition",
+				identifier,
+				children: [{ type: "paragraph", children: note }],
+			});
+			const reference: FootnoteReference = {
+				type: "footnoteReference",
+				identifier,
+			};
+			const before = text.value.slice(0, open);
+			const after = last.value.slice(close.i + 1);
+			children.splice(
+				start,
+				close.index - start + 1,
+				...(before ? [{ type: "text", value: before } as const] : []),
+				reference,
+				...(after ? [{ type: "text", value: after } as const] : []),
+			);
+			// Carry on after the reference
+			if (before) start++;
+		}
+	});
+
+	tree.children.push(...definitions);
+};
+
+// Remark plugin that renders GFM footnotes and `^[inline notes]` as
+// sidenotes: each `[^label]` becomes a numbered `small[data-sidenote]` holding
+// the note's text, which MarkdownRenderer sets in the margin beside its line.
+// Later references to the same note keep only the number, and the footnote
+// definitions are removed.
+export const remarkSidenotes = () => (tree: Root) => {
+	extractInlineNotes(tree);
+
+	const definitions = new Map<string, FootnoteDefinition>();
+	visit(tree, "footnoteDefinition", (node, index, parent) => {
+		definitions.set(node.identifier, node);
+		parent!.children.splice(index!, 1);
+		return [SKIP, index!];
+	});
+
+	const numbers = new Map<string, number>();
+	visit(tree, "footnoteReference", (node) => {
+		const definition = definitions.get(node.identifier);
+		if (!definition) return;
+
+		const seen = numbers.has(node.identifier);
+		if (!seen) numbers.set(node.identifier, numbers.size + 1);
+
+		// Notes sit inside paragraphs, so their blocks collapse to phrasing
+		const children: PhrasingContent[] = seen
+			? []
+			: definition.children.flatMap((block, i) => [
+					...(i > 0 ? [{ type: "text", value: " " } as const] : []),
+					...(block.type === "paragraph"
+						? block.children
+						: [{ type: "text", value: toString(block) } as const]),
+				]);
+
+		node.data = {
+			...node.data,
+			hName: "small",
+			hProperties: {
+				dataSidenote: numbers.get(node.identifier),
+				dataRepeat: seen || undefined,
+			},
+			hChildren: undefined,
+		};
+		Object.assign(node, { type: "sidenote", children });
+	});
+};
+
+// Remark plugin for margin figures, small diagrams or images set in the margin
+// beside the text that precedes them:
+//
+//   :::margin
+//   ![Gating network](gating.png)
+//   :::
+//
+// The directive becomes a `div[data-margin]`, which remarkCallouts leaves be.
+export const remarkMarginFigures = () => (tree: Root) => {
+	visit(tree, "containerDirective", (node) => {
+		if (node.name !== "margin") return;
+		node.data = {
+			...node.data,
+			hName: "div",
+			hProperties: { dataMargin: true },
+		};
+	});
+};
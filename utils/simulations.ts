@@ -0,0 +1,118 @@
+import { visit } from "unist-util-visit";
+import type { Code, Paragraph, Root } from "mdast";
+
+// Simulations embedded in an article with a `sim` fence. The info string names
+// a simulation from the DemoView registry and sets its initial parameters;
+// longer lists can continue inside the fence, one or more per line:
+//
+//   ```sim DeepSeekMoE experts=16 autoplay
+//   ```
+//
+// A bare name is a boolean flag. Values are typed by the parameters the
+// simulation declares (SIMULATION_PARAMS in DemoView).
+
+export type SimulationParamType = "number" | "boolean" | "string";
+export type SimulationParamSpec = Record<string, SimulationParamType>;
+export type SimulationParams = Record<string, number | boolean | string>;
+
+export interface SimulationEmbed {
+	name: string;
+	params: [key: string, value: string | true][]; // As written
+}
+
+const PARAM_PATTERN = /([\w-]+)(?:=("[^"]*"|'[^']*'|\S*))?/g;
+
+export const isSimulationFence = (node: Code) => node.lang === "sim";
+
+// The text after `sim`: the name, then its parameters
+const embedSource = (node: Code) => `${node.meta ?? ""}\n${node.value}`.trim();
+
+export const parseSimulationEmbed = (source: string): SimulationEmbed => {
+	const [name] = source.split(/\s+/);
+	const params: SimulationEmbed["params"] = [];
+	for (const [, key, value] of source
+		.slice(name.length)
+		.matchAll(PARAM_PATTERN)) {
+		params.push([
+			key,
+			value === undefined ? true : value.replace(/^(["'])(.*)\1$/, "$2"),
+		]);
+	}
+	return { name, params };
+};
+
+const coerce = (
+	type: SimulationParamType,
+	value: string | true,
+): number | boolean | string | undefined => {
+	if (type === "boolean") {
+		if (value === true || value === "true") return true;
+		return value === "false" ? false : undefined;
+	}
+	if (value === true) return undefined;
+	if (type === "number") {
+		const number = Number(value);
+		return value.trim() && Number.isFinite(number) ? number : undefined;
+	}
+	return value;
+};
+
+// Typed parameters for a simulation; anything it does not declare, or that
+// does not fit the declared type, is reported and left at its default
+export const resolveSimulationParams = (
+	spec: SimulationParamSpec,
+	{ name, params }: SimulationEmbed,
+): { params: SimulationParams; issues: string[] } => {
+	const resolved: SimulationParams = {};
+	const issues: string[] = [];
+	for (const [key, value] of params) {
+		const type = spec[key];
+		if (!type) {
+			issues.push(`Simulation "${name}" has no parameter "${key}"`);
+			continue;
+		}
+		const typed = coerce(type, value);
+		if (typed === undefined) {
+			issues.push(
+				`Parameter "${key}" of "${name}" must be a ${type}, got ${value === true ? "a flag" : `"${value}"`}`,
+			);
+			continue;
+		}
+		resolved[key] = typed;
+	}
+	return { params: resolved, issues };
+};
+
+// `sim` fences with their 1-based line, for the content linter
+export const findSimulationEmbeds = (tree: Root) => {
+	const embeds: (SimulationEmbed & { line: number })[] = [];
+	visit(tree, "code", (node) => {
+		if (!isSimulationFence(node)) return;
+		embeds.push({
+			...parseSimulationEmbed(embedSource(node)),
+			line: node.position?.start.line ?? 1,
+		});
+	});
+	return embeds;
+};
+
+// Remark plugin turning `sim` fences into `div[data-simulation]`, which
+// MarkdownRenderer replaces with the simulation. Each fence is its own
+// instance with its own state. The fence is swapped for a paragraph, as code
+// always renders inside a `pre`.
+export const remarkSimulations = () => (tree: Root) => {
+	visit(tree, "code", (node, index, parent) => {
+		if (!isSimulationFence(node) || !parent || index === undefined) return;
+
+		const embed: Paragraph = {
+			type: "paragraph",
+			children: [],
+			position: node.position,
+			data: {
+				hName: "div",
+				hProperties: { dataSimulation: embedSource(node) },
+			},
+		};
+		parent.children.splice(index, 1, embed);
+	});
+};
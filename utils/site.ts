@@ -0,0 +1,21 @@
+import { SITE_CONFIG } from "../config";
+
+// Base path without its trailing slash: "" at the domain root
+const BASE = SITE_CONFIG.basePath.replace(/\/+$/, "");
+
+// Router basename; undefined when the site is served from the domain root
+export const ROUTER_BASENAME = BASE || undefined;
+
+// Path on the deployed site of an app route or a file in dist/:
+// "/idea/x" -> "/paperlens/idea/x"
+export const sitePath = (path: string) =>
+	`${BASE}${path.startsWith("/") ? path : `/${path}`}`;
+
+// Absolute URL of an app route or a file in dist/
+export const siteUrl = (path = "/") => `${SITE_CONFIG.url}${sitePath(path)}`;
+
+// App route of a path on the deployed site, the inverse of sitePath
+export const routePath = (pathname: string) =>
+	BASE && (pathname === BASE || pathname.startsWith(`${BASE}/`))
+		? pathname.slice(BASE.length) || "/"
+		: pathname;
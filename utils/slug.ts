@@ -0,0 +1,23 @@
+// Turns heading text into a URL fragment: "Shared Experts (MoE)" -> "shared-experts-moe"
+export const slugify = (text: string): string =>
+	text
+		.toLowerCase()
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.replace(/[^\p{L}\p{N}\s-]/gu, "")
+		.trim()
+		.replace(/\s+/g, "-")
+		.replace(/-+/g, "-");
+
+// Returns a slugify function that keeps ids unique within one document by
+// suffixing repeats ("setup", "setup-1", ...). Create one per document.
+export const createSlugger = () => {
+	const seen = new Map<string, number>();
+
+	return (text: string): string => {
+		const base = slugify(text) || "section";
+		const count = seen.get(base) ?? 0;
+		seen.set(base, count + 1);
+		return count ? `${base}-${count}` : base;
+	};
+};
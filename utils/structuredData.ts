@@ -0,0 +1,80 @@
+import { USER_CONFIG } from "../config";
+import { Idea } from "../types";
+import { ogImagePath } from "./og";
+import { siteUrl } from "./site";
+
+// Machine-readable description of an idea page, written into the static page
+// by scripts/build.ts and kept in the head by the SEO component: schema.org
+// JSON-LD for search engines, and Highwire Press `citation_*` tags, which
+// Google Scholar and reference managers like Zotero read.
+
+export interface MetaTag {
+	name: string;
+	content: string;
+}
+
+const author = {
+	"@type": "Person",
+	name: USER_CONFIG.name,
+	url: USER_CONFIG.social.website,
+};
+
+export const ideaJsonLd = (idea: Idea) => {
+	const url = siteUrl(`/idea/${idea.id}`);
+	// The paper a deep-dive walks through
+	const source = idea.pdfUrl
+		? { "@type": "ScholarlyArticle", url: idea.pdfUrl }
+		: undefined;
+
+	return {
+		"@context": "https://schema.org",
+		"@type": idea.category === "deep-dive" ? "ScholarlyArticle" : "TechArticle",
+		headline: idea.title,
+		description: idea.subtitle,
+		image: siteUrl(ogImagePath(idea.id)),
+		author,
+		publisher: {
+			"@type": "Organization",
+			name: USER_CONFIG.lab,
+			logo: {
+				"@type": "ImageObject",
+				url: USER_CONFIG.avatar,
+			},
+		},
+		datePublished: idea.date,
+		dateModified: idea.updated ?? idea.date,
+		keywords: idea.tags,
+		wordCount: idea.metrics.wordCount,
+		inLanguage: "en",
+		url,
+		mainEntityOfPage: {
+			"@type": "WebPage",
+			"@id": url,
+		},
+		...(source && { isBasedOn: source, citation: [source] }),
+		...(idea.series && {
+			isPartOf: {
+				"@type": "CreativeWorkSeries",
+				name: idea.series.title,
+				url: siteUrl(`/series/${idea.series.id}`),
+			},
+		}),
+	};
+};
+
+// Highwire dates are slash separated: 2024-12-28 -> 2024/12/28
+const citationDate = (date: string) => date.replace(/-/g, "/");
+
+export const ideaCitationMeta = (idea: Idea): MetaTag[] => [
+	{ name: "citation_title", content: idea.title },
+	{ name: "citation_author", content: USER_CONFIG.name },
+	{ name: "citation_publication_date", content: citationDate(idea.date) },
+	{ name: "citation_publisher", content: USER_CONFIG.lab },
+	{ name: "citation_abstract", content: idea.subtitle },
+	{ name: "citation_keywords", content: idea.tags.join("; ") },
+	{ name: "citation_language", content: "en" },
+	{
+		name: "citation_fulltext_html_url",
+		content: siteUrl(`/idea/${idea.id}`),
+	},
+];
@@ -0,0 +1,32 @@
+import { Idea, IdeaVisibility } from "../types";
+
+// Today's date as YYYY-MM-DD, comparable with frontmatter dates
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Drafts win over everything; ideas dated in the future stay scheduled until
+// their date, after which they become public (or unlisted).
+export const getVisibility = (
+	{
+		date,
+		draft,
+		unlisted,
+	}: { date: string; draft: boolean; unlisted: boolean },
+	now = today(),
+): IdeaVisibility => {
+	if (draft) return "draft";
+	if (date > now) return "scheduled";
+	return unlisted ? "unlisted" : "public";
+};
+
+// Only public ideas go into sitemap.xml, rss.xml and search indexes
+export const isPublic = (idea: Pick<Idea, "visibility">) =>
+	idea.visibility === "public";
+
+// Ideas shown in the home archive. Drafts and scheduled ideas only exist in
+// dev builds, where they are listed so authors can find them.
+export const isListed = (idea: Pick<Idea, "visibility">) =>
+	idea.visibility !== "unlisted";
+
+// Production builds leave drafts and scheduled ideas out entirely
+export const isPublished = (idea: Pick<Idea, "visibility">) =>
+	idea.visibility === "public" || idea.visibility === "unlisted";
@@ -0,0 +1,228 @@
+import { visit } from "unist-util-visit";
+import { toString } from "mdast-util-to-string";
+import type { Heading } from "mdast";
+import { OutlineHeading } from "../types";
+import { overlapsRange, parseMdast, verbatimRanges } from "./mdast";
+import { createHeadingIds } from "./headingIds";
+import { IMAGE_EXTENSIONS } from "./images";
+
+// Resolves Obsidian syntax into plain markdown before rendering:
+//
+//   [[note]]  [[note|Label]]  [[note#Heading]]  [[#Heading]]  -> links
+//   ![[diagram.png]]  ![[diagram.png|Alt text]]               -> images
+//   ![[note]]  ![[note#Heading]]                              -> transclusion
+//
+// Notes resolve by id (file name), then title, then frontmatter `aliases`.
+
+export interface WikiNote {
+	id: string;
+	title: string;
+	aliases: string[];
+	outline: OutlineHeading[];
+	body: string;
+	// Vault-relative directory of the note, e.g. "" or "drafts"
+	dir: string;
+}
+
+export interface WikiContext {
+	notes: WikiNote[];
+	// Vault-relative paths of every non-markdown file (images, PDFs, ...)
+	assets: string[];
+}
+
+export interface WikiIssue {
+	line: number; // 1-based line within the resolved body
+	message: string;
+}
+
+const WIKI_PATTERN = /(!?)\[\[([^\[\]\n]+?)\]\]/g;
+const MAX_EMBED_DEPTH = 3;
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const escapeLabel = (label: string) => label.replace(/([\\[\]*_`])/g, "\\$1");
+
+const toUrl = (path: string) => (/[\s()<>]/.test(path) ? `<${path}>` : path);
+
+// Relative path from one vault directory to a vault-relative file
+const relativePath = (fromDir: string, to: string) => {
+	const from = fromDir ? fromDir.split("/") : [];
+	const target = to.split("/");
+	while (from.length && target.length > 1 && from[0] === target[0]) {
+		from.shift();
+		target.shift();
+	}
+	return [...from.map(() => ".."), ...target].join("/");
+};
+
+const lineAt = (text: string, offset: number) =>
+	text.slice(0, offset).split("\n").length;
+
+const parseTarget = (inner: string) => {
+	const [target, ...rest] = inner.split("|");
+	const label = rest.join("|").trim() || undefined;
+	const hashIndex = target.indexOf("#");
+	const name = (hashIndex === -1 ? target : target.slice(0, hashIndex))
+		.trim()
+		.replace(/\.md$/i, "");
+	const heading =
+		hashIndex === -1
+			? undefined
+			: target.slice(hashIndex + 1).trim() || undefined;
+	return { name, heading, label };
+};
+
+export const findNote = (context: WikiContext, name: string) => {
+	const key = normalize(name.split("/").pop()!);
+	return (
+		context.notes.find((n) => n.id === name) ??
+		context.notes.find((n) => normalize(n.id) === key) ??
+		context.notes.find((n) => normalize(n.title) === key) ??
+		context.notes.find((n) => n.aliases.some((a) => normalize(a) === key))
+	);
+};
+
+const findAsset = (context: WikiContext, name: string) => {
+	const key = normalize(name);
+	return (
+		context.assets.find((a) => normalize(a) === key) ??
+		context.assets.find((a) => normalize(a.split("/").pop()!) === key)
+	);
+};
+
+const findHeading = (note: WikiNote, heading: string) => {
+	const key = normalize(heading);
+	return note.outline.find((h) => normalize(h.text) === key || h.id === key);
+};
+
+// Markdown of a heading's section: the heading itself up to the next heading
+// of the same or a higher level.
+const extractSection = (body: string, heading: string): string | undefined => {
+	const headings: Heading[] = [];
+	visit(parseMdast(body), "heading", (node) => {
+		headings.push(node);
+	});
+
+	const headingId = createHeadingIds();
+	const key = normalize(heading);
+	const index = headings.findIndex(
+		(h) => normalize(toString(h)) === key || headingId(h) === key,
+	);
+	if (index === -1) return undefined;
+
+	const start = headings[index];
+	const end = headings.slice(index + 1).find((h) => h.depth <= start.depth);
+
+	return body.slice(
+		start.position!.start.offset,
+		end ? end.position!.start.offset : body.length,
+	);
+};
+
+export const resolveWikiLinks = (
+	body: string,
+	self: WikiNote,
+	context: WikiContext,
+	stack: string[] = [self.id],
+): { content: string; issues: WikiIssue[] } => {
+	const issues: WikiIssue[] = [];
+	const ranges = verbatimRanges(body);
+	const replacements: { start: number; end: number; text: string }[] = [];
+
+	for (const match of body.matchAll(WIKI_PATTERN)) {
+		const start = match.index!;
+		const end = start + match[0].length;
+		if (overlapsRange(ranges, start, end)) continue;
+
+		const line = lineAt(body, start);
+		const isEmbed = match[1] === "!";
+		const { name, heading, label } = parseTarget(match[2]);
+		const report = (message: string) => issues.push({ line, message });
+		const replace = (text: string) => replacements.push({ start, end, text });
+
+		// Embedded file (image, PDF, ...)
+		if (isEmbed && /\.[a-z0-9]+$/i.test(name)) {
+			const asset = findAsset(context, name);
+			if (!asset) {
+				report(`Unresolved embed "${match[2]}"`);
+				replace(escapeLabel(label ?? name));
+				continue;
+			}
+			const url = toUrl(relativePath(self.dir, asset));
+			const alt = label && !/^\d+(x\d+)?$/.test(label) ? label : "";
+			replace(
+				IMAGE_EXTENSIONS.test(asset)
+					? `![${escapeLabel(alt || name.replace(/\.[^.]+$/, ""))}](${url})`
+					: `[${escapeLabel(alt || name)}](${url})`,
+			);
+			continue;
+		}
+
+		const note = name ? findNote(context, name) : self;
+		if (!note) {
+			report(`Unresolved wiki-link "${match[2]}"`);
+			replace(escapeLabel(label ?? name));
+			continue;
+		}
+
+		// Transclusion of another note or one of its sections
+		if (isEmbed) {
+			if (stack.includes(note.id)) {
+				report(`Circular embed of "${note.id}"`);
+				replace("");
+				continue;
+			}
+			if (stack.length > MAX_EMBED_DEPTH) {
+				report(`Embeds nested deeper than ${MAX_EMBED_DEPTH} levels`);
+				replace("");
+				continue;
+			}
+
+			const section = heading ? extractSection(note.body, heading) : note.body;
+			if (section === undefined) {
+				report(`Unresolved heading "${heading}" in embed of "${note.id}"`);
+				replace("");
+				continue;
+			}
+
+			// Links inside the embedded text are relative to the embedded note
+			const nested = resolveWikiLinks(section.trim(), note, context, [
+				...stack,
+				note.id,
+			]);
+			nested.issues.forEach((issue) =>
+				report(`In embed of "${note.id}": ${issue.message}`),
+			);
+			replace(`\n\n${nested.content}\n\n`);
+			continue;
+		}
+
+		let anchor = "";
+		if (heading) {
+			const target = findHeading(note, heading);
+			if (target) {
+				anchor = `#${target.id}`;
+			} else {
+				report(`Unresolved heading "${heading}" in "${note.id}"`);
+			}
+		}
+
+		const text =
+			label ??
+			(note.id === self.id && heading
+				? heading
+				: heading
+					? `${note.title} › ${heading}`
+					: note.title);
+		const href =
+			note.id === self.id && anchor ? anchor : `/idea/${note.id}${anchor}`;
+		replace(`[${escapeLabel(text)}](${href})`);
+	}
+
+	let content = body;
+	for (const { start, end, text } of replacements.reverse()) {
+		content = content.slice(0, start) + text + content.slice(end);
+	}
+
+	return { content, issues };
+};
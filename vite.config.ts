@@ -1,12 +1,14 @@
 import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
+import ideasHotReload from "./scripts/vite-plugin-ideas";
+import { SITE_CONFIG } from "./config";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
 	const env = loadEnv(mode, (process as any).cwd(), "");
 	return {
-		plugins: [react()],
-		base: "/", // Vital for GitHub Pages subdirectory hosting
+		plugins: [react(), ideasHotReload()],
+		base: SITE_CONFIG.basePath, // Vital for GitHub Pages subdirectory hosting
 		build: {
 			outDir: "dist",
 			sourcemap: false,